@@ -1,14 +1,32 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { AudioAnalysis, AudioState, Marker, OnsetData, AspectRatio, VideoPlan, StoryboardFrame, VideoClip, HierarchyTree } from './types';
-import { analyzeAudioCreatively } from './services/geminiService';
-import { decodeAudio, computeOnsetEnvelope, generateMarkers, generateMarkersByCount } from './services/audioProcessingService';
+import { AudioAnalysis, AudioState, Marker, OnsetData, BandWeights, OnsetBandName, MarkerMode, MarkerSnapMode, MarkerCountResult, MarkerSettings, AnalysisProgress, ChannelMode, DensityCurve, DensityKeyframe, DensityPreset, TimeRegion, CutdownLength, MarkerFileFormat, MarkerImportMode, ClickTrackSettings, GridMarkerOptions, GridSegment, SongSection, HarmonyAnalysis, LyricLine, LyricSource, AspectRatio, VideoPlan, StoryboardFrame, VideoClip, HierarchyTree, SoundtrackCodec, GapFillMode, ProviderSelection } from './types';
+import { analyzeAudioCreatively, UNAVAILABLE_ANALYSIS } from './services/geminiService';
+import { describeError } from './services/aiErrors';
+import { decodeAudio, toPcmAudio, snapMarkerTime, strengthAt, reconcileMarkerIds, sectionsInRegion, markersInRegion } from './services/audioProcessingService';
+import { suggestCutdownRegion } from './services/structureAnalysisService';
+import { analyzeAudio, analyzeStructure, analyzeCurves, analyzeHarmonyAsync, generateMarkersAsync, cancelAnalysis } from './services/analysisService';
+import { parseLyricsFile, sanitizeLyricLines } from './services/lyricsService';
+import { buildDensityPreset, sortKeyframes } from './services/densityCurveService';
+import { formatKey } from './services/harmonyAnalysisService';
+import { buildClickEvents, mixClickTrack, encodeWav } from './services/clickTrackService';
+import { MARKER_FILE_FORMATS, exportMarkers, parseMarkerFile, applyImportedMarkers } from './services/markerInterchangeService';
+import { DEFAULT_PROVIDERS, setActiveProviders } from './services/aiProviders';
+import { loadUsage, setActiveBudget, estimateFramesCost, estimateClipsCost, formatCost } from './services/usageService';
+import { selectVideoDuration } from './services/klingService';
 import Waveform from './components/Waveform';
 import FileUpload from './components/FileUpload';
 import VideoPlanner from './components/VideoPlanner';
 import ProjectSelector from './components/ProjectSelector';
+import MarkerMenu from './components/MarkerMenu';
+import ProviderMenu from './components/ProviderMenu';
+import QueueMenu from './components/QueueMenu';
+import UsageMenu from './components/UsageMenu';
 import { useProjectAutosave } from './hooks/useProjectAutosave';
+import { useMarkerHistory } from './hooks/useMarkerHistory';
+import { useClickTrack } from './hooks/useClickTrack';
+import { useUsageLedger } from './hooks/useUsageLedger';
 import { loadProject, generateProjectName } from './services/projectStorageService';
-import { Music, Wand2, Download, Play, Pause, AlertCircle, Volume2, Mic2, Settings2, ChevronDown, ChevronUp, Activity, RefreshCw } from 'lucide-react';
+import { Music, Wand2, Play, Pause, AlertCircle, Volume2, Mic2, Settings2, ChevronDown, ChevronUp, Activity, RefreshCw, Pencil, Undo2, Redo2, Pin, Headphones, Spline, Trash2, Scissors, BellRing, Timer, FileAudio } from 'lucide-react';
 
 const App: React.FC = () => {
   // Application State
@@ -16,20 +34,39 @@ const App: React.FC = () => {
   const [analysis, setAnalysis] = useState<AudioAnalysis | null>(null);
   const [markers, setMarkers] = useState<Marker[]>([]);
   const [onsetData, setOnsetData] = useState<OnsetData | null>(null);
+  const [songSections, setSongSections] = useState<SongSection[]>([]);
+  const [harmony, setHarmony] = useState<HarmonyAnalysis | null>(null);
+  const [lyricLines, setLyricLines] = useState<LyricLine[]>([]);
+  const [lyricSource, setLyricSource] = useState<LyricSource>('analysis');
   
   // UI State
   const [isProcessing, setIsProcessing] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [isRegeneratingAnalysis, setIsRegeneratingAnalysis] = useState(false);
+  const [isEditingMarkers, setIsEditingMarkers] = useState(false);
+  const [snapMode, setSnapMode] = useState<MarkerSnapMode>('onset');
+  const [showStereo, setShowStereo] = useState(false);
+  const [showCurves, setShowCurves] = useState(true);
+  const [clickTrack, setClickTrack] = useState<ClickTrackSettings>({ cuts: false, metronome: false, volume: 0.7 });
+  const [isExportingClicks, setIsExportingClicks] = useState(false);
+  const [isEditingCurve, setIsEditingCurve] = useState(false);
   
   // Advanced Controls
   const [density, setDensity] = useState(0.5); 
   const [minDuration, setMinDuration] = useState(2.0);
   const [maxDuration, setMaxDuration] = useState(8.0);
+  const [bandWeights, setBandWeights] = useState<BandWeights>({ low: 1, mid: 1, high: 1 });
+  const [channelMode, setChannelMode] = useState<ChannelMode>('sum');
+  const [densityCurve, setDensityCurve] = useState<DensityCurve>({ enabled: false, keyframes: [] });
+  const [region, setRegion] = useState<TimeRegion | null>(null); // Cutdown window; null = full song
+  const [markerMode, setMarkerMode] = useState<MarkerMode>('onset');
+  const [gridOptions, setGridOptions] = useState<GridMarkerOptions>({ unit: 'bar', every: 2, offset: 0 });
   
   const [customCount, setCustomCount] = useState<string>("");
   const [useCustomCount, setUseCustomCount] = useState(false);
+  const [countReport, setCountReport] = useState<Omit<MarkerCountResult, 'markers'> | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [showLyrics, setShowLyrics] = useState(false);
 
@@ -49,10 +86,47 @@ const App: React.FC = () => {
   // Phase 3 State (lifted from VideoPlanner)
   const [videoClips, setVideoClips] = useState<VideoClip[]>([]);
   const [finalVideoBlob, setFinalVideoBlob] = useState<Blob | null>(null);
+  const [soundtrackCodec, setSoundtrackCodec] = useState<SoundtrackCodec>('aac');
+  const [gapFillMode, setGapFillMode] = useState<GapFillMode>('still');
+
+  // AI Providers (per project; services read the active selection when a request starts)
+  const [providers, setProviders] = useState<ProviderSelection>(DEFAULT_PROVIDERS);
+  useEffect(() => {
+    setActiveProviders(providers);
+  }, [providers]);
+
+  // Cost tracking: providers record into the usage ledger; the budget carries over to new projects
+  const [budget, setBudget] = useState<number | null>(null);
+  useEffect(() => {
+    setActiveBudget(budget);
+  }, [budget]);
+  const { records: usage } = useUsageLedger();
 
   // Refs
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const animationRef = useRef<number | null>(null);
+  const lyricsInputRef = useRef<HTMLInputElement | null>(null);
+  const skipRegenerationRef = useRef(false); // Keep saved markers when a project is loaded
+  const loadRunRef = useRef(0); // Bumped per upload / project load so superseded async work is dropped
+  const channelRunRef = useRef(0); // Bumped per channel-mode re-analysis, for the same reason
+  const markersRef = useRef<Marker[]>(markers); // Latest markers for the regeneration effect
+  markersRef.current = markers;
+
+  // Marker Undo/Redo
+  const { applyEdit, replaceGenerated, undo, redo, clearHistory, canUndo, canRedo } = useMarkerHistory(markers, setMarkers);
+
+  // Cuts that make up the shots; pinned markers outside the cutdown region stay in `markers`
+  const regionMarkers = markersInRegion(markers, region);
+
+  // Click Track (audible cut points while auditioning)
+  const clickEvents = buildClickEvents(markers, onsetData?.beatGrid, clickTrack, region);
+  useClickTrack({
+    audioRef,
+    isPlaying,
+    enabled: clickTrack.cuts || clickTrack.metronome,
+    events: clickEvents,
+    volume: clickTrack.volume
+  });
 
   // Autosave Hook
   const { isSaving, lastSaved, saveNow, renameProject: renameProjectHook } = useProjectAutosave({
@@ -68,6 +142,16 @@ const App: React.FC = () => {
     maxDuration,
     customCount,
     useCustomCount,
+    bandWeights,
+    channelMode,
+    densityCurve,
+    region,
+    markerMode,
+    gridOptions,
+    songSections,
+    harmony,
+    lyricLines,
+    lyricSource,
     hierarchyTree,
     useHierarchy,
     useConceptualMode,
@@ -79,11 +163,20 @@ const App: React.FC = () => {
     // Phase 3 state
     videoClips,
     finalVideoBlob,
+    soundtrackCodec,
+    gapFillMode,
+    // AI providers
+    providers,
+    // Cost tracking
+    usage,
+    budget,
   });
 
   // Handlers
   const handleFileSelect = async (file: File) => {
+    const runId = ++loadRunRef.current;
     setIsProcessing(true);
+    setAnalysisProgress(null);
     setErrorMsg(null);
 
     // Reset ALL state for new project
@@ -91,6 +184,14 @@ const App: React.FC = () => {
     setAnalysis(null);
     setMarkers([]);
     setOnsetData(null);
+    setSongSections([]);
+    setHarmony(null);
+    setLyricLines([]);
+    setLyricSource('analysis');
+    setDensityCurve({ enabled: false, keyframes: [] });
+    setRegion(null);
+    clearHistory();
+    skipRegenerationRef.current = false;
 
     // Reset Phase 2 content (keep user's aspect ratio and style preferences)
     setVideoPlan(null);
@@ -100,6 +201,9 @@ const App: React.FC = () => {
     setVideoClips([]);
     setFinalVideoBlob(null);
 
+    // Usage starts over for the new project
+    loadUsage([], budget);
+
     try {
       // Revoke old blob URL to prevent memory leak
       if (audioState?.url) {
@@ -115,6 +219,28 @@ const App: React.FC = () => {
       setCurrentProjectId(newProjectId);
       setProjectName(newProjectName);
 
+      analyzeAudioCreatively(file).then(result => {
+        if (runId !== loadRunRef.current) return;
+        setAnalysis(result);
+        setLyricLines(sanitizeLyricLines(result.lyricLines, buffer.duration));
+      }).catch(err => {
+        console.error("Gemini failed", err);
+        if (runId !== loadRunRef.current) return;
+        // Cutting works without the creative analysis; Regenerate can try again later
+        setAnalysis(UNAVAILABLE_ANALYSIS);
+        setErrorMsg(`Creative analysis failed. ${describeError(err)}`);
+      });
+
+      // Onsets, beats and structure run in the analysis worker; markers follow from the regeneration effect
+      const result = await analyzeAudio(toPcmAudio(buffer), channelMode, setAnalysisProgress);
+      if (!result || runId !== loadRunRef.current) {
+        URL.revokeObjectURL(url);
+        return;
+      }
+
+      setOnsetData(result.onsetData);
+      setSongSections(result.sections);
+      setHarmony(result.harmony);
       setAudioState({
         file,
         buffer,
@@ -123,56 +249,120 @@ const App: React.FC = () => {
         url
       });
 
-      const data = computeOnsetEnvelope(buffer);
-      setOnsetData(data);
-
-      const initialMarkers = generateMarkers(data, {
-          minDuration: 2.0,
-          maxDuration: 8.0,
-          sensitivity: 0.5
-      }, buffer.duration);
-      setMarkers(initialMarkers);
-
-      analyzeAudioCreatively(file).then(setAnalysis).catch(err => {
-        console.error("Gemini failed", err);
-      });
-
     } catch (e) {
       console.error(e);
       setErrorMsg("Failed to process audio file. Please try another.");
     } finally {
-      setIsProcessing(false);
+      if (runId === loadRunRef.current) {
+        setIsProcessing(false);
+        setAnalysisProgress(null);
+      }
     }
   };
 
   // Regeneration Effect
   useEffect(() => {
     if (!onsetData || !audioState) return;
+    if (skipRegenerationRef.current) {
+        skipRegenerationRef.current = false;
+        return;
+    }
 
-    let newMarkers: Marker[] = [];
-    if (useCustomCount && customCount && !isNaN(parseInt(customCount))) {
-        // Now passing min/max constraints to the count generator!
-        newMarkers = generateMarkersByCount(
-            onsetData, 
-            parseInt(customCount), 
-            audioState.duration,
-            { minDuration, maxDuration }
-        );
-    } else {
-        newMarkers = generateMarkers(onsetData, {
-            minDuration,
-            maxDuration,
-            sensitivity: density
-        }, audioState.duration);
+    // Pinned markers are kept as anchors; everything else is regenerated around them
+    const current = markersRef.current;
+    const pinned = current.filter(m => m.pinned);
+
+    // Chorus sections can cut at their own rate
+    const segments: GridSegment[] | undefined = gridOptions.chorusEvery
+        ? songSections
+            .filter(s => s.label === 'chorus')
+            .map(s => ({ start: s.start, end: s.end, every: gridOptions.chorusEvery! }))
+        : undefined;
+
+    const settings: MarkerSettings = {
+        mode: markerMode,
+        minDuration,
+        maxDuration,
+        sensitivity: density,
+        densityCurve: densityCurve.enabled && densityCurve.keyframes.length > 0 ? densityCurve.keyframes : undefined,
+        bandWeights,
+        // Exact count within min/max (or the closest achievable count)
+        targetCount: useCustomCount && customCount && !isNaN(parseInt(customCount)) ? parseInt(customCount) : undefined,
+        gridOptions: { ...gridOptions, segments },
+        pinned,
+        region
+    };
+
+    // Runs in the analysis worker; results from superseded settings are dropped
+    let stale = false;
+    generateMarkersAsync(onsetData, settings, audioState.duration).then(result => {
+        // Also drop the result if markers were edited by hand while it was computed
+        if (stale || !result || markersRef.current !== current) return;
+        if (result.countReport) setCountReport(result.countReport);
+        replaceGenerated(reconcileMarkerIds(current, result.markers));
+    });
+    return () => { stale = true; };
+  }, [density, densityCurve, region, minDuration, maxDuration, bandWeights, markerMode, gridOptions, songSections, useCustomCount, customCount, onsetData, audioState]);
+
+  // Channel handling changes the onset envelope itself, so the track is re-analyzed
+  const handleChannelModeChange = async (mode: ChannelMode) => {
+    if (mode === channelMode) return;
+    setChannelMode(mode);
+    if (!audioState?.buffer) return;
+
+    const runId = loadRunRef.current;
+    const channelRunId = ++channelRunRef.current;
+    const isCurrent = () => runId === loadRunRef.current && channelRunId === channelRunRef.current;
+    setAnalysisProgress({ stage: 'onsets', fraction: 0 });
+    try {
+      const result = await analyzeAudio(toPcmAudio(audioState.buffer), mode, progress => {
+        if (isCurrent()) setAnalysisProgress(progress);
+      });
+      if (!result || !isCurrent()) return;
+      setOnsetData(result.onsetData);
+      setSongSections(result.sections);
+      setHarmony(result.harmony);
+    } catch (e) {
+      console.error(e);
+      if (isCurrent()) setErrorMsg("Failed to re-analyze audio.");
+    } finally {
+      if (isCurrent()) setAnalysisProgress(null);
     }
-    setMarkers(newMarkers);
-  }, [density, minDuration, maxDuration, useCustomCount, customCount, onsetData, audioState]);
+  };
+
+  // Undo/Redo shortcuts (ignored while typing in a field)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   // Audio Sync
   useEffect(() => {
     if (isPlaying && audioRef.current) {
       const update = () => {
         if (audioRef.current) {
+          // Cutdowns stop at the out point
+          if (region && audioRef.current.currentTime >= region.end) {
+            audioRef.current.pause();
+            audioRef.current.currentTime = region.end;
+            setCurrentTime(region.end);
+            setIsPlaying(false);
+            return;
+          }
           setCurrentTime(audioRef.current.currentTime);
           animationRef.current = requestAnimationFrame(update);
         }
@@ -184,13 +374,19 @@ const App: React.FC = () => {
     return () => {
         if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [isPlaying]);
+  }, [isPlaying, region]);
 
   const togglePlay = () => {
     if (!audioRef.current) return;
     if (isPlaying) {
       audioRef.current.pause();
     } else {
+      // Outside the cutdown window, playback starts from its in point
+      const time = audioRef.current.currentTime;
+      if (region && (time < region.start || time >= region.end)) {
+        audioRef.current.currentTime = region.start;
+        setCurrentTime(region.start);
+      }
       audioRef.current.play();
     }
     setIsPlaying(!isPlaying);
@@ -203,18 +399,99 @@ const App: React.FC = () => {
     }
   };
 
-  const handleExport = () => {
-    const csvContent = "data:text/csv;charset=utf-8,"
-      + "Timestamp (Seconds),Type\n"
-      + markers.map(m => `${m.time.toFixed(4)},${m.type}`).join("\n");
-
-    const encodedUri = encodeURI(csvContent);
+  const handleExportMarkers = (format: MarkerFileFormat) => {
+    if (!audioState) return;
+    const url = URL.createObjectURL(exportMarkers(regionMarkers, format, audioState.duration));
     const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", `${audioState?.fileName || "audio"}_markers.csv`);
+    link.href = url;
+    link.download = `${audioState.fileName || "audio"}_markers.${MARKER_FILE_FORMATS[format].extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportClickTrack = async () => {
+    if (!audioState?.buffer) return;
+    setIsExportingClicks(true);
+    try {
+      // Let the button show its busy state before the synchronous mix
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const mix = mixClickTrack(toPcmAudio(audioState.buffer), clickEvents, clickTrack.volume, region);
+      const url = URL.createObjectURL(encodeWav(mix));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${audioState.fileName.replace(/\.[^.]+$/, '') || "audio"}_clicks.wav`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Click track export failed", err);
+      alert("Failed to export the click track.");
+    } finally {
+      setIsExportingClicks(false);
+    }
+  };
+
+  // Manual Marker Editing (snapped, kept sorted, undoable)
+  // Hand-edited markers are pinned so regeneration keeps them
+  const sortByTime = (list: Marker[]) => [...list].sort((a, b) => a.time - b.time);
+  const inRegion = (time: number) => !region || (time >= region.start && time < region.end);
+
+  const handleAddMarker = (time: number) => {
+    if (!audioState) return;
+    const snapped = snapMarkerTime(time, snapMode, onsetData, audioState.duration);
+    if (!inRegion(snapped)) return;
+    if (markers.some(m => Math.abs(m.time - snapped) < 0.05)) return; // Already a marker here
+    applyEdit(sortByTime([...markers, {
+      id: crypto.randomUUID(),
+      time: snapped,
+      strength: onsetData ? strengthAt(onsetData, snapped) : 0,
+      type: 'Cut',
+      pinned: true
+    }]));
+  };
+
+  const handleMoveMarker = (id: string, time: number) => {
+    if (!audioState) return;
+    const snapped = snapMarkerTime(time, snapMode, onsetData, audioState.duration);
+    if (!inRegion(snapped)) return;
+    applyEdit(sortByTime(markers.map(m => m.id === id
+      ? { ...m, time: snapped, strength: onsetData ? strengthAt(onsetData, snapped) : m.strength, pinned: true }
+      : m
+    )));
+  };
+
+  const handleDeleteMarker = (id: string) => {
+    applyEdit(markers.filter(m => m.id !== id));
+  };
+
+  const handleToggleMarkerType = (id: string) => {
+    applyEdit(markers.map(m => m.id === id
+      ? { ...m, type: m.type === 'Safety' ? 'Cut' : 'Safety', pinned: true }
+      : m
+    ));
+  };
+
+  const handleTogglePin = (id: string) => {
+    applyEdit(markers.map(m => m.id === id ? { ...m, pinned: !m.pinned } : m));
+  };
+
+  // Imported markers are limited to the cutdown region, like hand edits
+  const handleImportMarkers = async (file: File, mode: MarkerImportMode) => {
+    if (!audioState) return;
+    try {
+      const imported = (await parseMarkerFile(file)).filter(m => m.time <= audioState.duration && inRegion(m.time));
+      if (imported.length === 0) {
+        alert("No markers found in this file within the track.");
+        return;
+      }
+      applyEdit(applyImportedMarkers(markers, imported, mode, onsetData, audioState.duration, region));
+    } catch (err) {
+      console.error("Marker import failed", err);
+      alert(err instanceof Error ? err.message : "Failed to import markers.");
+    }
   };
 
   const handleRegenerateAnalysis = async () => {
@@ -224,14 +501,92 @@ const App: React.FC = () => {
     try {
       const newAnalysis = await analyzeAudioCreatively(audioState.file);
       setAnalysis(newAnalysis);
+      setErrorMsg(null);
+      // Imported lyric files take precedence over model timestamps
+      if (lyricSource !== 'file') {
+        setLyricLines(sanitizeLyricLines(newAnalysis.lyricLines, audioState.duration));
+      }
     } catch (err) {
       console.error("Gemini regeneration failed", err);
-      alert("Failed to regenerate analysis. Please try again.");
+      alert(`Failed to regenerate analysis. ${describeError(err)}`);
     } finally {
       setIsRegeneratingAnalysis(false);
     }
   };
 
+  const handleImportLyrics = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !audioState) return;
+
+    try {
+      const lines = await parseLyricsFile(file, audioState.duration);
+      if (lines.length === 0) {
+        alert("No timed lyric lines found in this file.");
+        return;
+      }
+      setLyricLines(lines);
+      setLyricSource('file');
+    } catch (err) {
+      console.error("Lyrics import failed", err);
+      alert(err instanceof Error ? err.message : "Failed to import lyrics.");
+    }
+  };
+
+  const handleClearImportedLyrics = () => {
+    setLyricLines(sanitizeLyricLines(analysis?.lyricLines, audioState?.duration ?? 0));
+    setLyricSource('analysis');
+  };
+
+  // Cutdown Region Handlers
+  const handleSuggestRegion = (length: CutdownLength) => {
+    if (!audioState) return;
+    setRegion(suggestCutdownRegion(length, audioState.duration, songSections, onsetData));
+  };
+
+  // Density Automation Handlers
+  const updateKeyframes = (update: (keyframes: DensityKeyframe[]) => DensityKeyframe[]) => {
+    setDensityCurve(curve => ({ ...curve, keyframes: sortKeyframes(update(curve.keyframes)) }));
+  };
+
+  const handleAddKeyframe = (time: number, sensitivity: number) => {
+    updateKeyframes(keyframes => [...keyframes, { id: crypto.randomUUID(), time, sensitivity }]);
+  };
+
+  const handleMoveKeyframe = (id: string, time: number, sensitivity: number) => {
+    updateKeyframes(keyframes => keyframes.map(k => k.id === id ? { ...k, time, sensitivity } : k));
+  };
+
+  const handleUpdateKeyframe = (id: string, changes: Partial<DensityKeyframe>) => {
+    updateKeyframes(keyframes => keyframes.map(k => k.id === id ? { ...k, ...changes } : k));
+  };
+
+  const handleDeleteKeyframe = (id: string) => {
+    updateKeyframes(keyframes => keyframes.filter(k => k.id !== id));
+  };
+
+  const handleApplyDensityPreset = (preset: DensityPreset) => {
+    setDensityCurve({
+      enabled: true,
+      keyframes: buildDensityPreset(preset, {
+        onsetData,
+        sections: songSections,
+        duration: audioState?.duration ?? 0,
+        sensitivity: density
+      })
+    });
+  };
+
+  const handleToggleDensityCurve = (enabled: boolean) => {
+    // Start from the current sensitivity the first time
+    if (enabled && densityCurve.keyframes.length === 0) {
+      handleApplyDensityPreset('flat');
+      return;
+    }
+    setDensityCurve({ ...densityCurve, enabled });
+    if (!enabled) setIsEditingCurve(false);
+  };
+
   // Project Management Handlers
   const handleLoadProject = async (projectId: string) => {
     // Save current project before loading new one to prevent data loss
@@ -239,6 +594,11 @@ const App: React.FC = () => {
       await saveNow();
     }
 
+    // Abort analysis of a track that is still being uploaded
+    const runId = ++loadRunRef.current;
+    cancelAnalysis();
+    setAnalysisProgress(null);
+
     setIsProcessing(true);
     try {
       const project = await loadProject(projectId);
@@ -247,41 +607,84 @@ const App: React.FC = () => {
         return;
       }
 
-      setCurrentProjectId(project.id);
-      setProjectName(project.name);
-
-      // Restore Phase 1 state
+      // Decode and migrate everything first: autosave and marker regeneration must never see
+      // the new project id next to the previous project's audio, markers or ledger
+      let savedOnsetData = project.onsetData;
+      let sections = project.songSections || null;
+      let savedHarmony = project.harmony || null;
+      let restoredAudio: AudioState | null = null;
       if (project.audioBlob) {
-        // Revoke old blob URL to prevent memory leak
-        if (audioState?.url) {
-          URL.revokeObjectURL(audioState.url);
-        }
-
         // Convert Blob to File for proper type compatibility
         const audioFile = new File([project.audioBlob], project.audioFileName, {
           type: project.audioBlob.type || 'audio/mpeg'
         });
 
-        const url = URL.createObjectURL(audioFile);
         const buffer = await decodeAudio(audioFile);
+        if (runId !== loadRunRef.current) return;
+
+        // Older projects were saved before structure analysis existed
+        if (!sections) {
+          sections = await analyzeStructure(toPcmAudio(buffer), project.onsetData?.beatGrid, project.channelMode || 'left');
+          if (runId !== loadRunRef.current) return;
+        }
+
+        // ...and before harmony analysis
+        if (!savedHarmony && sections) {
+          savedHarmony = await analyzeHarmonyAsync(toPcmAudio(buffer), project.onsetData?.beatGrid, sections, project.channelMode || 'left');
+          if (runId !== loadRunRef.current) return;
+        }
 
-        setAudioState({
+        // ...and before the loudness / vocal curves
+        if (savedOnsetData && !savedOnsetData.curves) {
+          const curves = await analyzeCurves(toPcmAudio(buffer));
+          if (runId !== loadRunRef.current) return;
+          if (curves) savedOnsetData = { ...savedOnsetData, curves };
+        }
+
+        restoredAudio = {
           file: audioFile,
           buffer,
           duration: project.audioDuration,
           fileName: project.audioFileName,
-          url,
-        });
+          url: URL.createObjectURL(audioFile),
+        };
+      }
+
+      // No awaits from here on, so React commits the whole project in one render
+      setCurrentProjectId(project.id);
+      setProjectName(project.name);
+
+      // Restore Phase 1 state
+      if (restoredAudio) {
+        // Revoke old blob URL to prevent memory leak
+        if (audioState?.url) {
+          URL.revokeObjectURL(audioState.url);
+        }
+        setAudioState(restoredAudio);
       }
+      setSongSections(sections || []);
+      setHarmony(savedHarmony);
+
+      // Keep the saved (possibly hand-edited) markers instead of regenerating them
+      skipRegenerationRef.current = !!(project.audioBlob && project.onsetData);
+      clearHistory(true);
 
       setAnalysis(project.analysis);
+      setLyricLines(project.lyricLines || sanitizeLyricLines(project.analysis?.lyricLines, project.audioDuration));
+      setLyricSource(project.lyricSource || 'analysis');
       setMarkers(project.markers);
-      setOnsetData(project.onsetData);
+      setOnsetData(savedOnsetData);
       setDensity(project.density);
       setMinDuration(project.minDuration);
       setMaxDuration(project.maxDuration);
       setCustomCount(project.customCount);
       setUseCustomCount(project.useCustomCount);
+      setBandWeights(project.bandWeights || { low: 1, mid: 1, high: 1 });
+      setChannelMode(project.channelMode || 'left');
+      setDensityCurve(project.densityCurve || { enabled: false, keyframes: [] });
+      setRegion(project.region || null);
+      setMarkerMode(project.markerMode || 'onset');
+      setGridOptions(project.gridOptions || { unit: 'bar', every: 2, offset: 0 });
 
       // Restore Phase 2 state
       // User preferences: only update if project has specific values
@@ -297,12 +700,21 @@ const App: React.FC = () => {
       // Restore Phase 3 state: ALWAYS reset to project's values (or empty)
       setVideoClips(project.videoClips || []);
       setFinalVideoBlob(project.finalVideoBlob || null);
+      setSoundtrackCodec(project.soundtrackCodec ?? 'aac');
+      setGapFillMode(project.gapFillMode ?? 'still');
+
+      // Projects saved before provider selection used Gemini + Kling
+      setProviders(project.providers || DEFAULT_PROVIDERS);
+
+      // Projects saved before cost tracking start with an empty ledger
+      setBudget(project.budget ?? null);
+      loadUsage(project.usage || [], project.budget ?? null);
 
     } catch (error) {
       console.error('Failed to load project:', error);
       setErrorMsg('Failed to load project');
     } finally {
-      setIsProcessing(false);
+      if (runId === loadRunRef.current) setIsProcessing(false);
     }
   };
 
@@ -317,11 +729,24 @@ const App: React.FC = () => {
       URL.revokeObjectURL(audioState.url);
     }
 
+    // Abort analysis of a track that is still being uploaded
+    loadRunRef.current++;
+    cancelAnalysis();
+    setIsProcessing(false);
+    setAnalysisProgress(null);
+
     // Reset Phase 1 state
     setAudioState(null);
     setAnalysis(null);
     setMarkers([]);
     setOnsetData(null);
+    setSongSections([]);
+    setHarmony(null);
+    setLyricLines([]);
+    setLyricSource('analysis');
+    setDensityCurve({ enabled: false, keyframes: [] });
+    setRegion(null);
+    clearHistory();
     setCurrentProjectId(null);
     setProjectName('Untitled Project');
     setErrorMsg(null);
@@ -335,6 +760,8 @@ const App: React.FC = () => {
     // Reset Phase 3 state
     setVideoClips([]);
     setFinalVideoBlob(null);
+
+    loadUsage([], budget);
   };
 
   const handleDeleteProject = () => {
@@ -376,11 +803,14 @@ const App: React.FC = () => {
             />
           </div>
 
-          {audioState && (
-             <button onClick={handleExport} className="btn-secondary flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium transition-colors">
-               <Download className="w-4 h-4" /> Export CSV
-             </button>
-          )}
+          <div className="flex items-center gap-3">
+            <QueueMenu />
+            <UsageMenu budget={budget} onBudgetChange={setBudget} />
+            <ProviderMenu providers={providers} onChange={setProviders} />
+            {audioState && (
+               <MarkerMenu markerCount={regionMarkers.length} onExport={handleExportMarkers} onImport={handleImportMarkers} />
+            )}
+          </div>
         </div>
       </header>
 
@@ -393,7 +823,7 @@ const App: React.FC = () => {
 
         {!audioState && (
           <div className="max-w-xl mx-auto mt-20">
-            <FileUpload onFileSelect={handleFileSelect} isProcessing={isProcessing} />
+            <FileUpload onFileSelect={handleFileSelect} isProcessing={isProcessing} progress={analysisProgress} />
             <p className="text-center text-slate-500 mt-6 text-sm">Powered by Google Gemini 2.5 & Signal Processing</p>
           </div>
         )}
@@ -419,14 +849,22 @@ const App: React.FC = () => {
                       </button>
                     )}
                   </div>
-                  {analysis?.bpm || onsetData?.detectedBpm ? (
-                      <div className="flex items-center gap-2 bg-slate-950 px-3 py-1 rounded-full border border-slate-800">
-                          <Activity className="w-4 h-4 text-emerald-400" />
-                          <span className="text-sm font-mono text-emerald-400">
-                              ~{analysis?.bpm || onsetData?.detectedBpm} BPM
-                          </span>
-                      </div>
-                  ) : null}
+                  <div className="flex items-center gap-2">
+                    {analysis?.bpm || onsetData?.detectedBpm ? (
+                        <div className="flex items-center gap-2 bg-slate-950 px-3 py-1 rounded-full border border-slate-800">
+                            <Activity className="w-4 h-4 text-emerald-400" />
+                            <span className="text-sm font-mono text-emerald-400">
+                                ~{analysis?.bpm || onsetData?.detectedBpm} BPM
+                            </span>
+                        </div>
+                    ) : null}
+                    {harmony && (
+                        <div className="flex items-center gap-2 bg-slate-950 px-3 py-1 rounded-full border border-slate-800" title={`Estimated locally from chroma (confidence ${Math.round(harmony.key.confidence * 100)}%)`}>
+                            <Music className="w-4 h-4 text-amber-400" />
+                            <span className="text-sm font-mono text-amber-400">{formatKey(harmony.key)}</span>
+                        </div>
+                    )}
+                  </div>
                 </div>
                 
                 {!analysis ? (
@@ -466,9 +904,40 @@ const App: React.FC = () => {
                                 {showLyrics ? <ChevronUp className="w-4 h-4 ml-auto" /> : <ChevronDown className="w-4 h-4 ml-auto" />}
                             </button>
                             {showLyrics && (
-                                <div className="mt-4 p-4 bg-slate-950 rounded-xl border border-slate-800/50 text-slate-300 text-sm whitespace-pre-wrap leading-relaxed max-h-60 overflow-y-auto">
-                                    {analysis.lyrics}
-                                </div>
+                                <>
+                                    <div className="mt-4 flex items-center gap-2 text-[10px] text-slate-500">
+                                        <span>
+                                            {lyricLines.length > 0
+                                                ? `${lyricLines.length} timed lines (${lyricSource === 'file' ? 'imported' : 'from analysis'})`
+                                                : 'No timed lines'}
+                                        </span>
+                                        <button
+                                            onClick={() => lyricsInputRef.current?.click()}
+                                            className="ml-auto px-2 py-1 rounded border border-slate-700 text-slate-300 hover:bg-slate-800 transition-colors"
+                                        >
+                                            Import .lrc / .srt
+                                        </button>
+                                        {lyricSource === 'file' && (
+                                            <button
+                                                onClick={handleClearImportedLyrics}
+                                                className="px-2 py-1 rounded border border-slate-700 text-slate-400 hover:bg-slate-800 transition-colors"
+                                            >
+                                                Clear Import
+                                            </button>
+                                        )}
+                                        <input ref={lyricsInputRef} type="file" accept=".lrc,.srt,.vtt" onChange={handleImportLyrics} className="hidden" />
+                                    </div>
+                                    <div className="mt-2 p-4 bg-slate-950 rounded-xl border border-slate-800/50 text-slate-300 text-sm whitespace-pre-wrap leading-relaxed max-h-60 overflow-y-auto">
+                                        {lyricLines.length > 0 ? (
+                                            lyricLines.map((line, i) => (
+                                                <div key={i} onClick={() => handleSeek(line.start)} className="cursor-pointer hover:text-white">
+                                                    <span className="font-mono text-[10px] text-slate-500 mr-2">{Math.floor(line.start / 60)}:{Math.floor(line.start % 60).toString().padStart(2, '0')}</span>
+                                                    {line.text}
+                                                </div>
+                                            ))
+                                        ) : analysis.lyrics}
+                                    </div>
+                                </>
                             )}
                         </div>
                     )}
@@ -483,18 +952,137 @@ const App: React.FC = () => {
                  <h2 className="text-lg font-semibold flex items-center gap-2">
                     <Volume2 className="w-5 h-5 text-slate-400" /> Timeline
                  </h2>
-                 <span className="text-xs font-mono text-slate-500 bg-slate-950 px-2 py-1 rounded">
-                    {currentTime.toFixed(2)}s / {audioState.duration.toFixed(2)}s
-                 </span>
+                 <div className="flex items-center gap-2">
+                   <button
+                     onClick={() => setShowStereo(!showStereo)}
+                     disabled={(audioState.buffer?.numberOfChannels ?? 1) < 2}
+                     title="Show left and right channels separately"
+                     className={`flex items-center gap-1 text-xs px-2 py-1 rounded border transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${showStereo ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                   >
+                     <Headphones className="w-3 h-3" /> Stereo
+                   </button>
+                   <button
+                     onClick={() => setShowCurves(!showCurves)}
+                     disabled={!onsetData?.curves}
+                     title="Overlay loudness and vocal presence"
+                     className={`flex items-center gap-1 text-xs px-2 py-1 rounded border transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${showCurves && onsetData?.curves ? 'bg-pink-500/20 border-pink-500/50 text-pink-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                   >
+                     <Mic2 className="w-3 h-3" /> Vocals
+                   </button>
+                   {densityCurve.enabled && markerMode === 'onset' && (
+                     <button
+                       onClick={() => { setIsEditingCurve(!isEditingCurve); setIsEditingMarkers(false); }}
+                       className={`flex items-center gap-1 text-xs px-2 py-1 rounded border transition-colors ${isEditingCurve ? 'bg-emerald-500/20 border-emerald-500/50 text-emerald-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                     >
+                       <Spline className="w-3 h-3" /> {isEditingCurve ? 'Editing Density' : 'Edit Density'}
+                     </button>
+                   )}
+                   <button
+                     onClick={() => { setIsEditingMarkers(!isEditingMarkers); setIsEditingCurve(false); }}
+                     className={`flex items-center gap-1 text-xs px-2 py-1 rounded border transition-colors ${isEditingMarkers ? 'bg-amber-500/20 border-amber-500/50 text-amber-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                   >
+                     <Pencil className="w-3 h-3" /> {isEditingMarkers ? 'Editing Markers' : 'Edit Markers'}
+                   </button>
+                   {isEditingMarkers && (
+                     <select
+                       value={snapMode}
+                       onChange={(e) => setSnapMode(e.target.value as MarkerSnapMode)}
+                       className="bg-slate-950 border border-slate-700 text-slate-300 rounded px-2 py-1 text-xs focus:outline-none"
+                       title="Snap edited markers to"
+                     >
+                       <option value="onset">Snap: Onsets</option>
+                       <option value="grid" disabled={!onsetData?.beatGrid}>Snap: Beats</option>
+                       <option value="off">Snap: Off</option>
+                     </select>
+                   )}
+                   <button onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="p-1 rounded text-slate-400 hover:text-slate-200 disabled:opacity-30 disabled:cursor-not-allowed">
+                     <Undo2 className="w-4 h-4" />
+                   </button>
+                   <button onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="p-1 rounded text-slate-400 hover:text-slate-200 disabled:opacity-30 disabled:cursor-not-allowed">
+                     <Redo2 className="w-4 h-4" />
+                   </button>
+                   <span className="text-xs font-mono text-slate-500 bg-slate-950 px-2 py-1 rounded">
+                      {currentTime.toFixed(2)}s / {audioState.duration.toFixed(2)}s
+                   </span>
+                 </div>
                </div>
                <div className="mb-6 relative group">
-                  <Waveform buffer={audioState.buffer!} markers={markers} currentTime={currentTime} onSeek={handleSeek} />
-                  <div className="absolute top-2 right-2 text-[10px] text-slate-400 bg-slate-950/80 px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">Click waveform to seek</div>
+                  <Waveform
+                    buffer={audioState.buffer!}
+                    markers={markers}
+                    currentTime={currentTime}
+                    onSeek={handleSeek}
+                    beatGrid={onsetData?.beatGrid}
+                    sections={songSections}
+                    lyricLines={lyricLines}
+                    stereo={showStereo}
+                    curves={showCurves ? onsetData?.curves : undefined}
+                    region={region}
+                    onRegionChange={setRegion}
+                    editable={isEditingMarkers}
+                    onAddMarker={handleAddMarker}
+                    onMoveMarker={handleMoveMarker}
+                    onDeleteMarker={handleDeleteMarker}
+                    onToggleMarkerType={handleToggleMarkerType}
+                    onTogglePin={handleTogglePin}
+                    densityCurve={densityCurve.enabled && markerMode === 'onset' ? densityCurve.keyframes : undefined}
+                    curveEditable={isEditingCurve && densityCurve.enabled && markerMode === 'onset'}
+                    onAddKeyframe={handleAddKeyframe}
+                    onMoveKeyframe={handleMoveKeyframe}
+                    onDeleteKeyframe={handleDeleteKeyframe}
+                  />
+                  <div className="absolute top-2 right-2 text-[10px] text-slate-400 bg-slate-950/80 px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+                    {isEditingCurve && densityCurve.enabled && markerMode === 'onset'
+                      ? 'Click to add a keyframe · Drag to move (up = denser) · Right-click to delete'
+                      : isEditingMarkers
+                      ? 'Click to add · Drag to move · Double-click to toggle Cut/Safety · Shift-click to pin · Right-click to delete'
+                      : region
+                      ? 'Click waveform to seek · Drag the highlighted edges to move the cutdown window'
+                      : 'Click waveform to seek'}
+                  </div>
                </div>
-               <div className="flex justify-center">
+               <div className="flex justify-center items-center gap-6">
+                  <div className="flex items-center gap-2 w-72 justify-end">
+                    <button
+                      onClick={() => setClickTrack({ ...clickTrack, cuts: !clickTrack.cuts })}
+                      title="Click at each marker while playing (accented for Safety markers)"
+                      className={`flex items-center gap-1 text-xs px-2 py-1 rounded border transition-colors ${clickTrack.cuts ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                    >
+                      <BellRing className="w-3 h-3" /> Cut Clicks
+                    </button>
+                    <button
+                      onClick={() => setClickTrack({ ...clickTrack, metronome: !clickTrack.metronome })}
+                      disabled={!onsetData?.beatGrid}
+                      title="Metronome on the detected beat grid"
+                      className={`flex items-center gap-1 text-xs px-2 py-1 rounded border transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${clickTrack.metronome && onsetData?.beatGrid ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-300' : 'border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                    >
+                      <Timer className="w-3 h-3" /> Metronome
+                    </button>
+                  </div>
                   <button onClick={togglePlay} className="flex items-center justify-center w-14 h-14 bg-indigo-600 hover:bg-indigo-500 rounded-full shadow-lg shadow-indigo-900/50 transition-all hover:scale-105">
                     {isPlaying ? <Pause className="fill-white" /> : <Play className="fill-white ml-1" />}
                   </button>
+                  <div className="flex items-center gap-2 w-72">
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={clickTrack.volume}
+                      onChange={(e) => setClickTrack({ ...clickTrack, volume: parseFloat(e.target.value) })}
+                      disabled={clickEvents.length === 0}
+                      title="Click volume"
+                      className="w-24 accent-indigo-500 disabled:opacity-30"
+                    />
+                    <button
+                      onClick={handleExportClickTrack}
+                      disabled={clickEvents.length === 0 || isExportingClicks}
+                      title={region ? 'Render the cutdown window with clicks as a WAV' : 'Render the song with clicks as a WAV'}
+                      className="flex items-center gap-1 text-xs px-2 py-1 rounded border border-slate-700 text-slate-400 hover:text-slate-200 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                    >
+                      <FileAudio className="w-3 h-3" /> {isExportingClicks ? 'Rendering...' : 'Export WAV'}
+                    </button>
+                  </div>
                </div>
                <audio ref={audioRef} src={audioState.url} onEnded={() => setIsPlaying(false)} className="hidden" />
             </div>
@@ -509,31 +1097,260 @@ const App: React.FC = () => {
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
                     {/* Logic Controls */}
                     <div className="space-y-6">
-                        
-                        {/* Sensitivity */}
-                        <div className={`transition-opacity duration-300 ${useCustomCount ? 'opacity-40 pointer-events-none' : 'opacity-100'}`}>
+
+                        {/* Cutdown Region */}
+                        <div>
+                            <div className="flex justify-between mb-2">
+                                <label className="text-sm font-medium text-slate-300 flex items-center gap-1">
+                                    <Scissors className="w-3 h-3" /> Cutdown
+                                </label>
+                                <span className="text-[10px] text-slate-500 font-mono">
+                                    {region
+                                        ? `${region.start.toFixed(1)}s → ${region.end.toFixed(1)}s (${(region.end - region.start).toFixed(1)}s)`
+                                        : 'Full song'}
+                                </span>
+                            </div>
+                            <div className="grid grid-cols-4 gap-2">
+                                <button
+                                    onClick={() => setRegion(null)}
+                                    className={`px-3 py-2 rounded-lg text-xs font-medium border transition-colors ${!region ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-950 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                                >
+                                    Full
+                                </button>
+                                {([15, 30, 60] as CutdownLength[]).map(length => (
+                                    <button
+                                        key={length}
+                                        onClick={() => handleSuggestRegion(length)}
+                                        disabled={length >= audioState.duration}
+                                        title={`Suggest a ${length}s window around the most energetic chorus`}
+                                        className={`px-3 py-2 rounded-lg text-xs font-medium border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${region && Math.abs(region.end - region.start - length) < 0.05 ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-950 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                                    >
+                                        {length}s
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Marker Mode */}
+                        <div>
+                            <label className="block text-sm font-medium text-slate-300 mb-2">Marker Mode</label>
+                            <div className="grid grid-cols-2 gap-2">
+                                <button
+                                    onClick={() => setMarkerMode('onset')}
+                                    className={`px-3 py-2 rounded-lg text-xs font-medium border transition-colors ${markerMode === 'onset' ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-950 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                                >
+                                    Onset Peaks
+                                </button>
+                                <button
+                                    onClick={() => setMarkerMode('grid')}
+                                    disabled={!onsetData?.beatGrid}
+                                    title={onsetData?.beatGrid ? 'Cut every N beats or bars' : 'No beat grid detected for this track'}
+                                    className={`px-3 py-2 rounded-lg text-xs font-medium border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${markerMode === 'grid' ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-950 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                                >
+                                    Beat Grid
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* Channel Handling */}
+                        <div>
                             <div className="flex justify-between mb-2">
-                                <label className="text-sm font-medium text-slate-300">Beat Sensitivity</label>
-                                <span className="text-xs text-indigo-400 font-mono">
-                                    {useCustomCount ? 'AUTO' : `${(density * 100).toFixed(0)}%`}
+                                <label className="text-sm font-medium text-slate-300">Stereo Analysis</label>
+                                <span className="text-[10px] text-slate-500">
+                                    {analysisProgress
+                                        ? `Re-analyzing... ${Math.round(analysisProgress.fraction * 100)}%`
+                                        : 'How channels feed onset detection'}
                                 </span>
                             </div>
-                            <input 
-                                type="range" 
-                                min="0" 
-                                max="1" 
-                                step="0.05" 
-                                value={density} 
-                                onChange={(e) => setDensity(parseFloat(e.target.value))} 
-                                disabled={useCustomCount}
-                                className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500" 
-                            />
-                            <div className="flex justify-between text-[10px] text-slate-500 mt-1">
-                                <span>Sparse (Major Drops)</span>
-                                <span>Dense (All Beats)</span>
+                            <div className="grid grid-cols-4 gap-2">
+                                {([
+                                    ['sum', 'Sum', 'Sum to mono'],
+                                    ['max', 'Max', 'Loudest channel per frequency'],
+                                    ['midSide', 'Mid/Side', 'Onsets from mid and side (wide-panned percussion)'],
+                                    ['left', 'Left', 'Left channel only']
+                                ] as [ChannelMode, string, string][]).map(([mode, label, title]) => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => handleChannelModeChange(mode)}
+                                        disabled={!!analysisProgress || (audioState.buffer?.numberOfChannels ?? 1) < 2}
+                                        title={title}
+                                        className={`px-3 py-2 rounded-lg text-xs font-medium border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${channelMode === mode ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-950 border-slate-700 text-slate-400 hover:text-slate-200'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
                             </div>
                         </div>
 
+                        {markerMode === 'onset' ? (
+                            <>
+                            {/* Sensitivity */}
+                            <div className={`transition-opacity duration-300 ${useCustomCount || densityCurve.enabled ? 'opacity-40 pointer-events-none' : 'opacity-100'}`}>
+                                <div className="flex justify-between mb-2">
+                                    <label className="text-sm font-medium text-slate-300">Beat Sensitivity</label>
+                                    <span className="text-xs text-indigo-400 font-mono">
+                                        {useCustomCount ? 'AUTO' : `${(density * 100).toFixed(0)}%`}
+                                    </span>
+                                </div>
+                                <input 
+                                    type="range" 
+                                    min="0" 
+                                    max="1" 
+                                    step="0.05" 
+                                    value={density} 
+                                    onChange={(e) => setDensity(parseFloat(e.target.value))} 
+                                    disabled={useCustomCount}
+                                    className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500" 
+                                />
+                                <div className="flex justify-between text-[10px] text-slate-500 mt-1">
+                                    <span>Sparse (Major Drops)</span>
+                                    <span>Dense (All Beats)</span>
+                                </div>
+                            </div>
+
+                            {/* Density Automation */}
+                            <div className={`transition-opacity duration-300 ${useCustomCount ? 'opacity-40 pointer-events-none' : 'opacity-100'}`}>
+                                <div className="flex items-center justify-between mb-2">
+                                    <div className="flex items-center gap-2">
+                                        <input type="checkbox" id="useDensityCurve" checked={densityCurve.enabled} onChange={(e) => handleToggleDensityCurve(e.target.checked)} className="w-4 h-4 rounded border-slate-700 bg-slate-800 text-emerald-500 focus:ring-emerald-500" />
+                                        <label htmlFor="useDensityCurve" className="text-sm font-medium text-slate-300 cursor-pointer">Density Automation</label>
+                                    </div>
+                                    <span className="text-[10px] text-slate-500">Vary sensitivity (and min/max) over the song</span>
+                                </div>
+                                {densityCurve.enabled && (
+                                    <div className="space-y-2">
+                                        <div className="grid grid-cols-4 gap-2">
+                                            {([['flat', 'Flat'], ['energy', 'Follow Energy'], ['sections', 'Sections'], ['build', 'Build-Up']] as [DensityPreset, string][]).map(([preset, label]) => (
+                                                <button
+                                                    key={preset}
+                                                    onClick={() => handleApplyDensityPreset(preset)}
+                                                    className="px-2 py-1.5 rounded-lg text-[10px] font-medium border bg-slate-950 border-slate-700 text-slate-400 hover:text-emerald-300 hover:border-emerald-500/50 transition-colors"
+                                                >
+                                                    {label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <div className="max-h-40 overflow-y-auto space-y-1 pr-1">
+                                            {densityCurve.keyframes.map(k => (
+                                                <div key={k.id} className="grid grid-cols-[3.5rem_1fr_3.5rem_3.5rem_auto] items-center gap-2 text-[10px]">
+                                                    <span className="font-mono text-slate-400">{k.time.toFixed(1)}s</span>
+                                                    <input
+                                                        type="range"
+                                                        min="0"
+                                                        max="1"
+                                                        step="0.05"
+                                                        value={k.sensitivity}
+                                                        onChange={(e) => handleUpdateKeyframe(k.id, { sensitivity: parseFloat(e.target.value) })}
+                                                        title={`Sensitivity ${(k.sensitivity * 100).toFixed(0)}%`}
+                                                        className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                                                    />
+                                                    <input
+                                                        type="number"
+                                                        min="0.5"
+                                                        step="0.5"
+                                                        placeholder="Min"
+                                                        value={k.minDuration ?? ''}
+                                                        onChange={(e) => handleUpdateKeyframe(k.id, { minDuration: parseFloat(e.target.value) > 0 ? parseFloat(e.target.value) : undefined })}
+                                                        title="Min cut duration from this keyframe on (blank = global)"
+                                                        className="w-full bg-slate-950 border border-slate-700 text-slate-100 rounded px-1 py-0.5 focus:outline-none"
+                                                    />
+                                                    <input
+                                                        type="number"
+                                                        min="0.5"
+                                                        step="0.5"
+                                                        placeholder="Max"
+                                                        value={k.maxDuration ?? ''}
+                                                        onChange={(e) => handleUpdateKeyframe(k.id, { maxDuration: parseFloat(e.target.value) > 0 ? parseFloat(e.target.value) : undefined })}
+                                                        title="Max cut duration from this keyframe on (blank = global)"
+                                                        className="w-full bg-slate-950 border border-slate-700 text-slate-100 rounded px-1 py-0.5 focus:outline-none"
+                                                    />
+                                                    <button onClick={() => handleDeleteKeyframe(k.id)} title="Delete keyframe" className="text-slate-500 hover:text-rose-400">
+                                                        <Trash2 className="w-3 h-3" />
+                                                    </button>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Band Weighting */}
+                            <div>
+                                <div className="flex justify-between mb-2">
+                                    <label className="text-sm font-medium text-slate-300">Onset Band Weighting</label>
+                                    <span className="text-[10px] text-slate-500">Cut on kick, snare or hi-hat transients</span>
+                                </div>
+                                <div className="grid grid-cols-3 gap-4">
+                                    {([['low', 'Low (Kick)'], ['mid', 'Mid (Snare)'], ['high', 'High (Hats)']] as [OnsetBandName, string][]).map(([band, label]) => (
+                                        <div key={band}>
+                                            <div className="flex justify-between text-[10px] text-slate-500 mb-1">
+                                                <span>{label}</span>
+                                                <span className="font-mono text-violet-400">{(bandWeights[band] * 100).toFixed(0)}%</span>
+                                            </div>
+                                            <input
+                                                type="range"
+                                                min="0"
+                                                max="1"
+                                                step="0.05"
+                                                value={bandWeights[band]}
+                                                onChange={(e) => setBandWeights({ ...bandWeights, [band]: parseFloat(e.target.value) })}
+                                                className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-violet-500"
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                            </>
+                        ) : (
+                            /* Grid Controls */
+                            <div className="grid grid-cols-4 gap-3">
+                                <div>
+                                    <label className="block text-[10px] text-slate-500 uppercase mb-1">Cut Every</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        value={gridOptions.every}
+                                        onChange={(e) => setGridOptions({ ...gridOptions, every: Math.max(1, parseInt(e.target.value) || 1) })}
+                                        className="w-full bg-slate-950 border border-slate-700 text-slate-100 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] text-slate-500 uppercase mb-1">Unit</label>
+                                    <select
+                                        value={gridOptions.unit}
+                                        onChange={(e) => setGridOptions({ ...gridOptions, unit: e.target.value as GridMarkerOptions['unit'] })}
+                                        className="w-full bg-slate-950 border border-slate-700 text-slate-100 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                                    >
+                                        <option value="bar">Bars</option>
+                                        <option value="beat">Beats</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] text-slate-500 uppercase mb-1">Offset</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={gridOptions.offset}
+                                        onChange={(e) => setGridOptions({ ...gridOptions, offset: Math.max(0, parseInt(e.target.value) || 0) })}
+                                        className="w-full bg-slate-950 border border-slate-700 text-slate-100 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] text-slate-500 uppercase mb-1">Chorus Every</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        placeholder="Same"
+                                        value={gridOptions.chorusEvery ?? ''}
+                                        onChange={(e) => setGridOptions({ ...gridOptions, chorusEvery: parseInt(e.target.value) > 0 ? parseInt(e.target.value) : undefined })}
+                                        disabled={!songSections.some(s => s.label === 'chorus')}
+                                        title="Cut rate inside chorus sections"
+                                        className="w-full bg-slate-950 border border-slate-700 text-slate-100 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-50"
+                                    />
+                                </div>
+                            </div>
+                        )}
+
                         {/* Min Duration */}
                         <div>
                              <div className="flex justify-between mb-2">
@@ -563,46 +1380,47 @@ const App: React.FC = () => {
 
                     {/* Custom & Stats */}
                     <div className="border-l border-slate-800 pl-0 lg:pl-12 flex flex-col justify-center space-y-8">
-                         <div>
+                         <div className={markerMode === 'grid' ? 'opacity-40 pointer-events-none' : ''}>
                              <div className="flex items-center gap-2 mb-3">
                                 <input type="checkbox" id="useCustom" checked={useCustomCount} onChange={(e) => setUseCustomCount(e.target.checked)} className="w-4 h-4 rounded border-slate-700 bg-slate-800 text-indigo-500 focus:ring-indigo-500" />
                                 <label htmlFor="useCustom" className="text-sm font-medium text-slate-300 cursor-pointer">Override with Target Count</label>
                             </div>
                             <input type="number" placeholder="e.g. 24" value={customCount} onChange={(e) => setCustomCount(e.target.value)} disabled={!useCustomCount} className="w-full bg-slate-950 border border-slate-700 text-slate-100 rounded-lg px-4 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-50" />
                             <p className="text-[10px] text-slate-500 mt-2">Targeting exact count will still respect Min/Max constraints.</p>
+                            {useCustomCount && countReport && (!countReport.feasibleRange || countReport.requested < countReport.feasibleRange[0] || countReport.requested > countReport.feasibleRange[1]) && (
+                                <p className="text-[10px] text-rose-400 mt-1 flex items-start gap-1">
+                                    <AlertCircle className="w-3 h-3 mt-px shrink-0" />
+                                    {countReport.feasibleRange
+                                        ? `${countReport.requested} cuts can't fit ${minDuration}s–${maxDuration}s shots${markers.some(m => m.pinned) ? ' around the pinned markers' : ''} (possible: ${countReport.feasibleRange[0]}–${countReport.feasibleRange[1]}). Using the closest count.`
+                                        : `No number of cuts fits ${minDuration}s–${maxDuration}s shots${markers.some(m => m.pinned) ? ' around the pinned markers' : ''}.`}
+                                </p>
+                            )}
                          </div>
 
                          <div className="bg-slate-950 border border-slate-800 rounded-xl p-6 flex flex-col items-center">
-                            <span className="text-4xl font-bold text-indigo-400">{markers.length}</span>
+                            <span className="text-4xl font-bold text-indigo-400">{regionMarkers.length}</span>
                             <span className="text-xs text-slate-500 uppercase mt-1">Total Cuts Generated</span>
                             <div className="mt-3 pt-3 border-t border-slate-800 w-full text-center">
-                              <span className="text-2xl font-bold text-emerald-400">
-                                ${(() => {
-                                  // Image cost: $0.14 per frame
-                                  const imageCost = markers.length * 0.14;
-
-                                  // Video cost based on shot durations
-                                  let videoCost = 0;
-                                  for (let i = 0; i < markers.length; i++) {
-                                    const currentMarker = markers[i];
-                                    const nextMarker = markers[i + 1];
-                                    const duration = nextMarker
-                                      ? nextMarker.time - currentMarker.time
-                                      : audioState.duration - currentMarker.time;
-
-                                    // Up to 5s = $0.35, longer than 5s = $0.70
-                                    videoCost += duration <= 5 ? 0.35 : 0.70;
-                                  }
-
-                                  const totalCost = imageCost + videoCost;
-                                  return totalCost.toFixed(2);
-                                })()}
-                              </span>
-                              <div className="text-[10px] text-slate-500 uppercase mt-1">Est. Total Cost</div>
-                              <div className="text-[9px] text-slate-600 mt-0.5">
-                                Images: ${(markers.length * 0.14).toFixed(2)} |
-                                Videos: ≤5s=$0.35 &gt;5s=$0.70
-                              </div>
+                              {(() => {
+                                // Priced with the active providers: every frame and the edit
+                                // instructions of all but the first, then one clip per shot
+                                const frameCost = estimateFramesCost(regionMarkers.length, Math.max(0, regionMarkers.length - 1));
+                                const clipCost = estimateClipsCost(regionMarkers.map((marker, i) => {
+                                  const end = regionMarkers[i + 1]?.time ?? region?.end ?? audioState.duration;
+                                  return selectVideoDuration(end - marker.time);
+                                }));
+                                return (
+                                  <>
+                                    <span className="text-2xl font-bold text-emerald-400">
+                                      {formatCost(frameCost.total + clipCost.total)}
+                                    </span>
+                                    <div className="text-[10px] text-slate-500 uppercase mt-1">Est. Total Cost</div>
+                                    <div className="text-[9px] text-slate-600 mt-0.5">
+                                      Storyboard: {formatCost(frameCost.total)} | Videos: {formatCost(clipCost.total)}
+                                    </div>
+                                  </>
+                                );
+                              })()}
                             </div>
                         </div>
                     </div>
@@ -615,7 +1433,16 @@ const App: React.FC = () => {
                <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3">
                   {markers.map((m) => (
                       <div key={m.id} onClick={() => handleSeek(m.time)} className={`cursor-pointer p-2 rounded border text-center transition-colors ${m.type === 'Safety' ? 'bg-rose-950/30 border-rose-900/50 hover:bg-rose-900/50' : 'bg-amber-950/30 border-amber-900/50 hover:bg-amber-900/50'}`}>
-                          <div className={`text-xs font-bold ${m.type === 'Safety' ? 'text-rose-400' : 'text-amber-400'}`}>{m.type}</div>
+                          <div className="flex items-center justify-center gap-1">
+                              <span className={`text-xs font-bold ${m.type === 'Safety' ? 'text-rose-400' : 'text-amber-400'}`}>{m.type}</span>
+                              <button
+                                  onClick={(e) => { e.stopPropagation(); handleTogglePin(m.id); }}
+                                  title={m.pinned ? 'Pinned: kept when cuts are regenerated' : 'Pin this cut'}
+                                  className={m.pinned ? 'text-sky-400' : 'text-slate-600 hover:text-slate-400'}
+                              >
+                                  <Pin className={`w-3 h-3 ${m.pinned ? 'fill-sky-400' : ''}`} />
+                              </button>
+                          </div>
                           <div className="text-sm font-mono text-slate-300">{m.time.toFixed(2)}s</div>
                       </div>
                   ))}
@@ -623,11 +1450,18 @@ const App: React.FC = () => {
             </div>
 
             {/* PHASE 2 & 3: Video Planner */}
-            {analysis && markers.length > 0 && (
+            {analysis && regionMarkers.length > 0 && (
                 <VideoPlanner
                   analysis={analysis}
-                  markers={markers}
-                  audioDuration={audioState.duration}
+                  markers={regionMarkers}
+                  songSections={sectionsInRegion(songSections, region)}
+                  harmony={harmony}
+                  onsetData={onsetData}
+                  lyricLines={lyricLines}
+                  audioDuration={region?.end ?? audioState.duration}
+                  trackDuration={audioState.duration}
+                  region={region}
+                  audioBlob={audioState.file}
                   aspectRatio={aspectRatio}
                   setAspectRatio={setAspectRatio}
                   visualStyle={visualStyle}
@@ -646,6 +1480,10 @@ const App: React.FC = () => {
                   setVideoClips={setVideoClips}
                   finalVideoBlob={finalVideoBlob}
                   setFinalVideoBlob={setFinalVideoBlob}
+                  soundtrackCodec={soundtrackCodec}
+                  setSoundtrackCodec={setSoundtrackCodec}
+                  gapFillMode={gapFillMode}
+                  setGapFillMode={setGapFillMode}
                   onStoryboardUpdate={saveNow}
                 />
             )}
@@ -88,6 +88,23 @@ export const DetailsPanel: React.FC<DetailsPanelProps> = ({
       <div className="mb-4">
         <h3 className="text-lg font-semibold text-slate-100 mb-2">Shot {frameIndex + 1}</h3>
         <p className="text-xs text-slate-400 mb-2">{frame.startTime.toFixed(2)}s</p>
+        {frame.lyricLines && frame.lyricLines.length > 0 && (
+          <p className="text-xs text-pink-300 italic mb-2">
+            {frame.lyricLines.map(line => line.text).join(' / ')}
+          </p>
+        )}
+        {frame.palette && (
+          <div className="mb-2">
+            <p className="text-xs text-slate-400 mb-1">
+              Palette: <span className="text-slate-300">{frame.palette.name}</span> ({frame.palette.mood})
+            </p>
+            <div className="flex gap-1">
+              {frame.palette.colors.map(color => (
+                <span key={color.name} title={`${color.name} ${color.hex}`} className="w-5 h-5 rounded border border-slate-700" style={{ backgroundColor: color.hex }} />
+              ))}
+            </div>
+          </div>
+        )}
 
         {/* Hierarchy Badge */}
         {hierarchyNode && (
@@ -1,12 +1,21 @@
 import React, { useCallback } from 'react';
 import { UploadCloud } from 'lucide-react';
+import { AnalysisProgress } from '../types';
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
   isProcessing: boolean;
+  progress?: AnalysisProgress | null;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessing }) => {
+const STAGE_LABELS: Record<AnalysisProgress['stage'], string> = {
+  onsets: 'Detecting onsets & beats',
+  curves: 'Measuring loudness & vocals',
+  structure: 'Finding song sections',
+  harmony: 'Estimating key & chords'
+};
+
+const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessing, progress }) => {
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     if (isProcessing) return;
@@ -47,7 +56,16 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessing }) =
         <h3 className="text-xl font-bold text-slate-200">
           {isProcessing ? "Processing..." : "Upload Audio File"}
         </h3>
-        <p className="text-slate-400 mt-2">Drag & Drop or Click to Browse (MP3, WAV)</p>
+        {isProcessing && progress ? (
+          <div className="w-full max-w-xs mt-3">
+            <p className="text-slate-400 text-sm">{STAGE_LABELS[progress.stage]}... {Math.round(progress.fraction * 100)}%</p>
+            <div className="h-1.5 mt-2 bg-slate-800 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress.fraction * 100}%` }} />
+            </div>
+          </div>
+        ) : (
+          <p className="text-slate-400 mt-2">Drag & Drop or Click to Browse (MP3, WAV)</p>
+        )}
       </label>
     </div>
   );
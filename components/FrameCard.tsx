@@ -1,5 +1,6 @@
 import React from 'react';
 import { StoryboardFrame, HierarchyNode, Character, Location } from '../types';
+import { AI_ERROR_LABELS } from '../services/aiErrors';
 import { Loader2, RefreshCw, PlayCircle, AlertTriangle, MapPin } from 'lucide-react';
 
 interface FrameCardProps {
@@ -68,6 +69,13 @@ export const FrameCard: React.FC<FrameCardProps> = ({
             {hierarchyNode && hierarchyNode.depth > 0 && (
               <span className="text-[9px] text-slate-500">D{hierarchyNode.depth}</span>
             )}
+            {frame.palette && (
+              <div className="flex" title={`${frame.palette.name} (${frame.palette.mood})`}>
+                {frame.palette.colors.map(color => (
+                  <span key={color.name} className="w-2 h-2 first:rounded-l-sm last:rounded-r-sm" style={{ backgroundColor: color.hex }} />
+                ))}
+              </div>
+            )}
             <span className="text-xs font-mono text-slate-500">{frame.startTime.toFixed(2)}s</span>
           </div>
         </div>
@@ -114,10 +122,10 @@ export const FrameCard: React.FC<FrameCardProps> = ({
               <span className="text-xs text-pink-500 font-mono">Generating...</span>
             </div>
           ) : frame.error ? (
-            <div className="flex flex-col items-center gap-2 text-red-400 p-2 text-center">
+            <div className="flex flex-col items-center gap-2 text-red-400 p-2 text-center" title={frame.error}>
               <AlertTriangle className="w-8 h-8" />
-              <span className="text-xs font-bold">Failed</span>
-              <span className="text-[10px] opacity-70">After 3 attempts</span>
+              <span className="text-xs font-bold">{AI_ERROR_LABELS[frame.errorKind ?? 'unknown']}</span>
+              <span className="text-[10px] opacity-70 line-clamp-2">{frame.error}</span>
             </div>
           ) : (
             <span className="text-xs text-slate-600">Waiting to render</span>
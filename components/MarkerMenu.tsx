@@ -0,0 +1,94 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MarkerFileFormat, MarkerImportMode } from '../types';
+import { MARKER_FILE_FORMATS } from '../services/markerInterchangeService';
+import { ChevronDown, Download, Upload } from 'lucide-react';
+
+interface MarkerMenuProps {
+  markerCount: number;
+  onExport: (format: MarkerFileFormat) => void;
+  onImport: (file: File, mode: MarkerImportMode) => void;
+}
+
+const IMPORT_ACCEPT = Object.values(MARKER_FILE_FORMATS).map(f => `.${f.extension}`).concat('.midi').join(',');
+
+const MarkerMenu: React.FC<MarkerMenuProps> = ({ markerCount, onExport, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const importModeRef = useRef<MarkerImportMode>('merge');
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const startImport = (mode: MarkerImportMode) => {
+    importModeRef.current = mode;
+    setIsOpen(false);
+    fileInputRef.current?.click();
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file, importModeRef.current);
+  };
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="btn-secondary flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium transition-colors"
+      >
+        <Download className="w-4 h-4" /> Markers
+        <ChevronDown className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-64 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-50 overflow-hidden">
+          <div className="p-3 border-b border-slate-800">
+            <h3 className="text-sm font-semibold text-slate-300">Export {markerCount} markers</h3>
+          </div>
+          {(Object.keys(MARKER_FILE_FORMATS) as MarkerFileFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => { onExport(format); setIsOpen(false); }}
+              disabled={markerCount === 0}
+              className="w-full flex justify-between items-center px-3 py-2 text-sm text-slate-200 hover:bg-slate-800/50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              <span>{MARKER_FILE_FORMATS[format].label}</span>
+              <span className="text-xs text-slate-500">.{MARKER_FILE_FORMATS[format].extension}</span>
+            </button>
+          ))}
+
+          <div className="p-3 border-y border-slate-800">
+            <h3 className="text-sm font-semibold text-slate-300">Import</h3>
+            <p className="text-xs text-slate-500 mt-1">Audacity labels, CSV, JSON or MIDI markers</p>
+          </div>
+          <button
+            onClick={() => startImport('merge')}
+            className="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-200 hover:bg-slate-800/50 transition-colors"
+          >
+            <Upload className="w-4 h-4 text-indigo-400" /> Merge into current markers
+          </button>
+          <button
+            onClick={() => startImport('replace')}
+            className="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-200 hover:bg-slate-800/50 transition-colors"
+          >
+            <Upload className="w-4 h-4 text-amber-400" /> Replace current markers
+          </button>
+        </div>
+      )}
+
+      <input ref={fileInputRef} type="file" accept={IMPORT_ACCEPT} onChange={handleFileChange} className="hidden" />
+    </div>
+  );
+};
+
+export default MarkerMenu;
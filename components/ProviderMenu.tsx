@@ -0,0 +1,73 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ProviderSelection } from '../types';
+import { listTextProviders, listImageProviders, listVideoProviders } from '../services/aiProviders';
+import { ChevronDown, Cpu } from 'lucide-react';
+
+interface ProviderMenuProps {
+  providers: ProviderSelection;
+  onChange: (providers: ProviderSelection) => void;
+}
+
+const ROWS: { key: keyof ProviderSelection; label: string; options: { id: string; label: string }[] }[] = [
+  { key: 'text', label: 'Text & planning', options: listTextProviders() },
+  { key: 'image', label: 'Images', options: listImageProviders() },
+  { key: 'video', label: 'Video', options: listVideoProviders() }
+];
+
+const ProviderMenu: React.FC<ProviderMenuProps> = ({ providers, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const isMock = Object.values(providers).includes('mock');
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium transition-colors"
+      >
+        <Cpu className={`w-4 h-4 ${isMock ? 'text-amber-400' : 'text-indigo-400'}`} /> Providers
+        {isMock && <span className="text-xs text-amber-400">mock</span>}
+        <ChevronDown className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-72 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-50 overflow-hidden">
+          <div className="p-3 border-b border-slate-800">
+            <h3 className="text-sm font-semibold text-slate-300">AI providers for this project</h3>
+            <p className="text-xs text-slate-500 mt-1">Mock runs offline: placeholder plans, images and clips</p>
+          </div>
+          <div className="p-3 space-y-3">
+            {ROWS.map(row => (
+              <label key={row.key} className="flex items-center justify-between gap-3 text-sm text-slate-300">
+                <span>{row.label}</span>
+                <select
+                  value={providers[row.key]}
+                  onChange={(e) => onChange({ ...providers, [row.key]: e.target.value })}
+                  className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+                >
+                  {row.options.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderMenu;
@@ -0,0 +1,106 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useRequestQueue } from '../hooks/useRequestQueue';
+import { RequestKind } from '../services/requestScheduler';
+import { listTextProviders, listImageProviders, listVideoProviders } from '../services/aiProviders';
+import { ChevronDown, ListOrdered, Loader2, Clock } from 'lucide-react';
+
+const MAX_LISTED_JOBS = 30;
+
+const KIND_LABELS: Record<RequestKind, string> = { text: 'Text', image: 'Images', video: 'Video' };
+
+const providerLabel = (kind: RequestKind, id: string): string => {
+  const providers = kind === 'text' ? listTextProviders() : kind === 'image' ? listImageProviders() : listVideoProviders();
+  return providers.find(provider => provider.id === id)?.label ?? id;
+};
+
+const QueueMenu: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const { lanes, jobs } = useRequestQueue();
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const running = jobs.filter(job => job.state === 'running').length;
+  const queued = jobs.length - running;
+  const now = Date.now();
+  const activeLanes = lanes.filter(lane => lane.running > 0 || lane.queued > 0 || (lane.cooldownUntil ?? 0) > now);
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium transition-colors"
+      >
+        {running > 0
+          ? <Loader2 className="w-4 h-4 text-indigo-400 animate-spin" />
+          : <ListOrdered className="w-4 h-4 text-indigo-400" />}
+        Queue
+        {jobs.length > 0 && <span className="text-xs text-slate-400">{running}/{jobs.length}</span>}
+        <ChevronDown className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-80 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-50 overflow-hidden">
+          <div className="p-3 border-b border-slate-800">
+            <h3 className="text-sm font-semibold text-slate-300">Request queue</h3>
+            <p className="text-xs text-slate-500 mt-1">
+              {jobs.length === 0 ? 'Idle' : `${running} running, ${queued} waiting`}
+            </p>
+          </div>
+
+          {activeLanes.length > 0 && (
+            <div className="p-3 border-b border-slate-800 space-y-2">
+              {activeLanes.map(lane => (
+                <div key={lane.key} className="text-xs">
+                  <div className="flex justify-between text-slate-300">
+                    <span>{KIND_LABELS[lane.kind]} · {providerLabel(lane.kind, lane.provider)}</span>
+                    <span className="font-mono">{lane.running}/{lane.limits.maxConcurrent}</span>
+                  </div>
+                  <div className="flex justify-between text-slate-500">
+                    <span>{lane.queued} queued · {lane.limits.requestsPerMinute}/min</span>
+                    {lane.cooldownUntil !== null && lane.cooldownUntil > now && (
+                      <span className="text-amber-400">
+                        Rate limited, resuming in {Math.ceil((lane.cooldownUntil - now) / 1000)}s
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {jobs.length > 0 && (
+            <div className="max-h-64 overflow-y-auto p-2">
+              {jobs.slice(0, MAX_LISTED_JOBS).map(job => (
+                <div key={job.id} className="flex items-center gap-2 px-2 py-1 text-xs text-slate-300">
+                  {job.state === 'running'
+                    ? <Loader2 className="w-3 h-3 text-indigo-400 animate-spin shrink-0" />
+                    : <Clock className="w-3 h-3 text-slate-500 shrink-0" />}
+                  <span className="flex-1 truncate">{job.label}</span>
+                  {job.priority === 'interactive' && (
+                    <span className="text-[10px] px-1.5 rounded bg-indigo-900/60 text-indigo-300">priority</span>
+                  )}
+                  <span className="text-[10px] text-slate-500 font-mono">{job.lane.split(':')[0]}</span>
+                </div>
+              ))}
+              {jobs.length > MAX_LISTED_JOBS && (
+                <p className="px-2 py-1 text-xs text-slate-500">+{jobs.length - MAX_LISTED_JOBS} more</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueueMenu;
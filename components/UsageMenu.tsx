@@ -0,0 +1,119 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useUsageLedger } from '../hooks/useUsageLedger';
+import { totalsBy, formatCost } from '../services/usageService';
+import { ChevronDown, Wallet } from 'lucide-react';
+
+interface UsageMenuProps {
+  budget: number | null;
+  onBudgetChange: (budget: number | null) => void;
+}
+
+const RECENT_RECORDS = 8;
+
+const UsageMenu: React.FC<UsageMenuProps> = ({ budget, onBudgetChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [budgetInput, setBudgetInput] = useState(budget !== null ? String(budget) : '');
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const { records, spent } = useUsageLedger();
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  // Follow project loads
+  useEffect(() => {
+    setBudgetInput(budget !== null ? String(budget) : '');
+  }, [budget]);
+
+  // Empty clears the budget; anything that isn't a positive amount is ignored
+  const commitBudget = () => {
+    const value = budgetInput.trim() === '' ? null : parseFloat(budgetInput);
+    if (value === null || (Number.isFinite(value) && value > 0)) {
+      onBudgetChange(value);
+    } else {
+      setBudgetInput(budget !== null ? String(budget) : '');
+    }
+  };
+
+  const overBudget = budget !== null && spent >= budget;
+  const byModel = Array.from(totalsBy(records, record => record.model).entries())
+    .sort((a, b) => b[1].cost - a[1].cost);
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm font-medium transition-colors"
+      >
+        <Wallet className={`w-4 h-4 ${overBudget ? 'text-rose-400' : 'text-emerald-400'}`} />
+        {formatCost(spent)}
+        {budget !== null && <span className="text-xs text-slate-400">/ {formatCost(budget)}</span>}
+        <ChevronDown className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-80 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-50 overflow-hidden">
+          <div className="p-3 border-b border-slate-800">
+            <h3 className="text-sm font-semibold text-slate-300">Usage for this project</h3>
+            <p className="text-xs text-slate-500 mt-1">Estimated from list prices; check the provider bills for exact amounts</p>
+          </div>
+
+          <div className="p-3 border-b border-slate-800">
+            <label className="flex items-center justify-between gap-3 text-sm text-slate-300">
+              <span>Budget (USD)</span>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                placeholder="No limit"
+                value={budgetInput}
+                onChange={(e) => setBudgetInput(e.target.value)}
+                onBlur={commitBudget}
+                onKeyDown={(e) => e.key === 'Enter' && commitBudget()}
+                className="w-28 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+              />
+            </label>
+            {overBudget && (
+              <p className="text-xs text-rose-400 mt-2">Budget reached: new requests are refused</p>
+            )}
+          </div>
+
+          <div className="p-3 border-b border-slate-800 space-y-1">
+            {byModel.length === 0 && <p className="text-xs text-slate-500">No requests yet</p>}
+            {byModel.map(([model, totals]) => (
+              <div key={model} className="flex justify-between text-xs text-slate-300">
+                <span className="truncate mr-2">{model}</span>
+                <span className="font-mono text-slate-400 shrink-0">{totals.requests} · {formatCost(totals.cost)}</span>
+              </div>
+            ))}
+          </div>
+
+          {records.length > 0 && (
+            <div className="p-2 max-h-48 overflow-y-auto">
+              {records.slice(-RECENT_RECORDS).reverse().map(record => (
+                <div key={record.id} className="flex justify-between px-1 py-0.5 text-[11px] text-slate-500">
+                  <span className="truncate mr-2">
+                    {record.task}
+                    {record.videoSeconds !== undefined && ` · ${record.videoSeconds}s`}
+                    {record.inputTokens !== undefined && ` · ${record.inputTokens + (record.outputTokens ?? 0)} tokens`}
+                    {record.provisional && ' · no response, may be billed'}
+                  </span>
+                  <span className="font-mono shrink-0">{formatCost(record.cost)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UsageMenu;
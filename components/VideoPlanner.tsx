@@ -1,17 +1,40 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AudioAnalysis, Marker, AspectRatio, VideoPlan, StoryboardFrame, Character, Location, VideoClip, VideoGenerationState, HierarchyTree } from '../types';
-import { generateVideoNarrative, generateCharacterSheet, generateLocationReference, generateFirstFrame, generateNextFrame, sanitizePrompt, generateHierarchicalPlan, generateTransformationDelta, generateFrameFromParent, adjustShotCount } from '../services/geminiService';
-import { generateVideoClip, selectVideoDuration, calculateSpeedFactor, fetchVideoAsBlob } from '../services/klingService';
-import { generateBlackFrame, applySpeedRamp, stitchVideos, getFFmpeg, isFFmpegLoaded, createVideoUrl, revokeVideoUrl } from '../services/videoProcessingService';
+import { AudioAnalysis, Marker, AspectRatio, VideoPlan, StoryboardFrame, Character, Location, VideoClip, VideoGenerationState, HierarchyTree, SoundtrackCodec, GapFillMode, PlaceholderShot, SongSection, OnsetData, LyricLine, TimeRegion, HarmonyAnalysis, TimelineMedia, TimelineShot, TimelineSpec, PlanIssue } from '../types';
+import { generateVideoNarrative, generateCharacterSheet, generateLocationReference, generateFirstFrame, generateNextFrame, sanitizePrompt, generateHierarchicalPlan, generateTransformationDelta, generateFrameFromParent } from '../services/geminiService';
+import { selectVideoDuration, calculateSpeedFactor, fetchVideoAsBlob } from '../services/klingService';
+import { getImageProvider, getVideoProvider } from '../services/aiProviders';
+import { describeError, errorKindOf, AI_ERROR_LABELS } from '../services/aiErrors';
+import { withRetry, isFatalError } from '../services/retryPolicy';
+import { CancellationToken, JobPriority } from '../services/requestScheduler';
+import { CostEstimate, estimateFramesCost, estimateClipsCost, remainingBudget, formatCost } from '../services/usageService';
+import { generateBlackFrame, getAspectRatioDimensions, applySpeedRamp, stitchVideos, createPlaceholderClip, getFFmpeg, isFFmpegLoaded, createVideoUrl, revokeVideoUrl } from '../services/videoProcessingService';
+import { buildShotTimings } from '../services/audioProcessingService';
+import { lyricsInRange } from '../services/lyricsService';
+import { assignScenePalettes, styleWithPalette } from '../services/paletteService';
+import { buildFcpxml, buildXmeml, buildEdl } from '../services/timelineExportService';
 import { Clapperboard, Film, User, Loader2, PlaySquare, ArrowRight, LayoutTemplate, Package, StopCircle, RefreshCw, PlayCircle, AlertTriangle, Video, Download, Pause, Play, X, MessageSquare, MapPin } from 'lucide-react';
 import { FrameCard } from './FrameCard';
 import { DetailsPanel } from './DetailsPanel';
 import JSZip from 'jszip';
 
+// Soundtrack fades at the edges of a cutdown region (seconds)
+const REGION_FADE_IN = 0.5;
+const REGION_FADE_OUT = 1.5;
+
+// Timeline exports run at Kling's frame rate
+const TIMELINE_FPS = 24;
+
 interface VideoPlannerProps {
   analysis: AudioAnalysis;
   markers: Marker[];
-  audioDuration: number;
+  songSections: SongSection[];
+  harmony?: HarmonyAnalysis | null; // Key / mode / tension per section, for scene colour palettes
+  onsetData: OnsetData | null;
+  lyricLines: LyricLine[];
+  audioDuration: number; // End of the timeline: the song length, or the cutdown region end
+  trackDuration: number; // Length of the whole song file
+  audioBlob: Blob | null;
+  region?: TimeRegion | null; // Cutdown window: the soundtrack is trimmed and faded to it
   // Phase 2 state (controlled by parent)
   aspectRatio: AspectRatio;
   setAspectRatio: (ratio: AspectRatio) => void;
@@ -34,13 +57,24 @@ interface VideoPlannerProps {
   setVideoClips: (clips: VideoClip[]) => void;
   finalVideoBlob: Blob | null;
   setFinalVideoBlob: (blob: Blob | null) => void;
+  soundtrackCodec: SoundtrackCodec;
+  setSoundtrackCodec: (codec: SoundtrackCodec) => void;
+  gapFillMode: GapFillMode;
+  setGapFillMode: (mode: GapFillMode) => void;
   onStoryboardUpdate?: () => Promise<void>;
 }
 
 const VideoPlanner: React.FC<VideoPlannerProps> = ({
   analysis,
   markers,
+  songSections,
+  harmony,
+  onsetData,
+  lyricLines,
   audioDuration,
+  trackDuration,
+  audioBlob,
+  region,
   aspectRatio,
   setAspectRatio,
   visualStyle,
@@ -59,6 +93,10 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
   setVideoClips,
   finalVideoBlob,
   setFinalVideoBlob,
+  soundtrackCodec,
+  setSoundtrackCodec,
+  gapFillMode,
+  setGapFillMode,
   onStoryboardUpdate
 }) => {
   // Rename plan to videoPlan for consistency with props
@@ -71,12 +109,15 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
   const [isGeneratingFrames, setIsGeneratingFrames] = useState(false);
   const [generationProgress, setGenerationProgress] = useState(0);
 
+  // Validation issues from the last planning run, tied to the plan they were found in
+  const [planIssues, setPlanIssues] = useState<{ narrativeSummary: string; issues: PlanIssue[] } | null>(null);
+
   // Feedback Dialog State
   const [showFeedbackDialog, setShowFeedbackDialog] = useState(false);
   const [feedbackText, setFeedbackText] = useState('');
 
-  // Stop Control
-  const stopRef = useRef<boolean>(false);
+  // Stop Control: each storyboard run gets a fresh token, Stop cancels it
+  const frameTokenRef = useRef<CancellationToken>(new CancellationToken());
 
   // Selection State (local)
   const [selectedFrameIndex, setSelectedFrameIndex] = useState<number | null>(null);
@@ -94,7 +135,8 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
   const [finalVideoUrl, setFinalVideoUrl] = useState<string | null>(null);
   const [ffmpegLoading, setFfmpegLoading] = useState(false);
   const [clipVideoUrls, setClipVideoUrls] = useState<{ [key: string]: string }>({});
-  const videoStopRef = useRef<boolean>(false);
+  const [placeholderReport, setPlaceholderReport] = useState<PlaceholderShot[]>([]);
+  const videoTokenRef = useRef<CancellationToken>(new CancellationToken());
 
   // Recreate blob URLs from saved blobs on mount/load
   useEffect(() => {
@@ -124,32 +166,21 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
     }
     setIsPlanning(true);
     try {
-      let videoPlan = await generateVideoNarrative(analysis, markers.length, aspectRatio, useConceptualMode);
+      const shots = buildShotTimings(markers, audioDuration, onsetData, songSections, lyricLines);
+      // Shot count mismatches are adjusted in the service; what is left shows up in the plan issues
+      const { plan: videoPlan, issues } = await generateVideoNarrative(analysis, shots, aspectRatio, useConceptualMode, undefined, songSections);
 
-      // Auto-fix shot count mismatch
-      if (videoPlan.scenes.length !== markers.length) {
-        console.warn(`Shot count mismatch: ${videoPlan.scenes.length} shots vs ${markers.length} markers. Auto-fixing...`);
-        try {
-          videoPlan = await adjustShotCount(videoPlan, markers.length);
-          console.log(`✓ Fixed! Now have ${videoPlan.scenes.length} shots`);
-        } catch (e) {
-          console.error("Failed to adjust shot count:", e);
-          alert(`Error: Generated ${videoPlan.scenes.length} shots but expected ${markers.length}, and auto-fix failed. Please try again.`);
-          return;
-        }
-      }
-
-      // Inject time from markers
-      const scenesWithTime = videoPlan.scenes.map((scene, idx) => ({
+      // Scenes come back bound to their markers; add lyrics, music-derived palettes and storyboard state
+      const scenesWithTime = assignScenePalettes(videoPlan.scenes.map((scene, idx) => ({
           ...scene,
-          markerId: markers[idx].id,
-          startTime: markers[idx].time,
+          lyricLines: shots[idx] ? lyricsInRange(lyricLines, shots[idx].startTime, shots[idx].startTime + shots[idx].duration) : [],
           imageUrl: undefined,
           isGenerating: false
-      }));
+      })), songSections, harmony);
 
       setPlan({ ...videoPlan, scenes: scenesWithTime });
       setStoryboard(scenesWithTime);
+      setPlanIssues({ narrativeSummary: videoPlan.narrativeSummary, issues });
 
       // Generate hierarchy if enabled
       console.log("useHierarchy flag:", useHierarchy);
@@ -157,11 +188,12 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
         console.log("Starting hierarchy generation...");
         try {
           const hierarchy = await generateHierarchicalPlan(videoPlan);
-          setHierarchyTree(hierarchy);
+          setHierarchyTree(hierarchy.tree);
+          setPlanIssues({ narrativeSummary: videoPlan.narrativeSummary, issues: [...issues, ...hierarchy.issues] });
           console.log("Hierarchy generated and set successfully");
         } catch (e) {
           console.error("Failed to generate hierarchy:", e);
-          alert("Failed to generate hierarchical structure. Falling back to sequential generation.");
+          alert(`Failed to generate hierarchical structure (${describeError(e)}). Falling back to sequential generation.`);
           setUseHierarchy(false);
           setHierarchyTree(null);
         }
@@ -178,7 +210,7 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
 
     } catch (e) {
       console.error(e);
-      alert("Failed to generate video plan.");
+      alert(`Failed to generate video plan. ${describeError(e)}`);
     } finally {
       setIsPlanning(false);
     }
@@ -204,32 +236,21 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
     setShowFeedbackDialog(false);
     setIsPlanning(true);
     try {
-      let videoPlan = await generateVideoNarrative(analysis, markers.length, aspectRatio, useConceptualMode, feedback);
+      const shots = buildShotTimings(markers, audioDuration, onsetData, songSections, lyricLines);
+      // Shot count mismatches are adjusted in the service; what is left shows up in the plan issues
+      const { plan: videoPlan, issues } = await generateVideoNarrative(analysis, shots, aspectRatio, useConceptualMode, feedback, songSections);
 
-      // Auto-fix shot count mismatch
-      if (videoPlan.scenes.length !== markers.length) {
-        console.warn(`Shot count mismatch: ${videoPlan.scenes.length} shots vs ${markers.length} markers. Auto-fixing...`);
-        try {
-          videoPlan = await adjustShotCount(videoPlan, markers.length);
-          console.log(`✓ Fixed! Now have ${videoPlan.scenes.length} shots`);
-        } catch (e) {
-          console.error("Failed to adjust shot count:", e);
-          alert(`Error: Generated ${videoPlan.scenes.length} shots but expected ${markers.length}, and auto-fix failed. Please try again.`);
-          return;
-        }
-      }
-
-      // Inject time from markers
-      const scenesWithTime = videoPlan.scenes.map((scene, idx) => ({
+      // Scenes come back bound to their markers; add lyrics, music-derived palettes and storyboard state
+      const scenesWithTime = assignScenePalettes(videoPlan.scenes.map((scene, idx) => ({
           ...scene,
-          markerId: markers[idx].id,
-          startTime: markers[idx].time,
+          lyricLines: shots[idx] ? lyricsInRange(lyricLines, shots[idx].startTime, shots[idx].startTime + shots[idx].duration) : [],
           imageUrl: undefined,
           isGenerating: false
-      }));
+      })), songSections, harmony);
 
       setPlan({ ...videoPlan, scenes: scenesWithTime });
       setStoryboard(scenesWithTime);
+      setPlanIssues({ narrativeSummary: videoPlan.narrativeSummary, issues });
 
       // Generate hierarchy if enabled
       console.log("useHierarchy flag:", useHierarchy);
@@ -237,11 +258,12 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
         console.log("Starting hierarchy generation...");
         try {
           const hierarchy = await generateHierarchicalPlan(videoPlan);
-          setHierarchyTree(hierarchy);
+          setHierarchyTree(hierarchy.tree);
+          setPlanIssues({ narrativeSummary: videoPlan.narrativeSummary, issues: [...issues, ...hierarchy.issues] });
           console.log("Hierarchy generated and set successfully");
         } catch (e) {
           console.error("Failed to generate hierarchy:", e);
-          alert("Failed to generate hierarchical structure. Falling back to sequential generation.");
+          alert(`Failed to generate hierarchical structure (${describeError(e)}). Falling back to sequential generation.`);
           setUseHierarchy(false);
           setHierarchyTree(null);
         }
@@ -258,7 +280,7 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
 
     } catch (e) {
       console.error(e);
-      alert("Failed to regenerate video plan.");
+      alert(`Failed to regenerate video plan. ${describeError(e)}`);
     } finally {
       setIsPlanning(false);
     }
@@ -268,24 +290,22 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
     setIsGeneratingChars(true);
     const updatedChars = [...chars];
 
-    // Generate in batches of 3 parallel requests
-    const MAX_CONCURRENT = 3;
-    for (let i = 0; i < updatedChars.length; i += MAX_CONCURRENT) {
-        const batch = updatedChars.slice(i, i + MAX_CONCURRENT);
-        await Promise.all(
-            batch.map(async (char, batchIndex) => {
-                const actualIndex = i + batchIndex;
-                try {
-                    const base64 = await generateCharacterSheet(char, visualStyle);
-                    updatedChars[actualIndex].imageUrl = base64;
-                    // Update state incrementally to show progress
-                    setPlan(prev => prev ? { ...prev, characters: [...updatedChars] } : null);
-                } catch (e) {
-                    console.error(`Failed to generate char ${char.name}`, e);
-                }
-            })
-        );
-    }
+    // The image lane caps how many run at once
+    await Promise.all(
+        updatedChars.map(async (char, index) => {
+            try {
+                const base64 = await withRetry(() => generateCharacterSheet(char, visualStyle), {
+                    label: `Character ${char.name}`,
+                    schedule: { kind: 'image', provider: getImageProvider().id }
+                });
+                updatedChars[index].imageUrl = base64;
+                // Update state incrementally to show progress
+                setPlan(prev => prev ? { ...prev, characters: [...updatedChars] } : null);
+            } catch (e) {
+                console.error(`Failed to generate char ${char.name}`, e);
+            }
+        })
+    );
     setIsGeneratingChars(false);
   };
 
@@ -296,7 +316,10 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
     const updatedChars = [...plan.characters];
 
     try {
-      const base64 = await generateCharacterSheet(updatedChars[charIndex], visualStyle);
+      const base64 = await withRetry(() => generateCharacterSheet(updatedChars[charIndex], visualStyle), {
+        label: `Character ${updatedChars[charIndex].name}`,
+        schedule: { kind: 'image', provider: getImageProvider().id, priority: 'interactive' }
+      });
       updatedChars[charIndex].imageUrl = base64;
       setPlan({ ...plan, characters: updatedChars });
     } catch (e) {
@@ -312,23 +335,21 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
     setIsGeneratingChars(true); // Reuse same loading state
     const updatedLocs = [...locs];
 
-    // Generate in batches of 3 parallel requests
-    const MAX_CONCURRENT = 3;
-    for (let i = 0; i < updatedLocs.length; i += MAX_CONCURRENT) {
-      const batch = updatedLocs.slice(i, i + MAX_CONCURRENT);
-      await Promise.all(
-        batch.map(async (loc, batchIndex) => {
-          const actualIndex = i + batchIndex;
-          try {
-            const base64 = await generateLocationReference(loc, visualStyle);
-            updatedLocs[actualIndex].imageUrl = base64;
-            setPlan(prev => prev ? { ...prev, locations: [...updatedLocs] } : null);
-          } catch (e) {
-            console.error(`Failed to generate location ${loc.name}`, e);
-          }
-        })
-      );
-    }
+    // The image lane caps how many run at once
+    await Promise.all(
+      updatedLocs.map(async (loc, index) => {
+        try {
+          const base64 = await withRetry(() => generateLocationReference(loc, visualStyle), {
+            label: `Location ${loc.name}`,
+            schedule: { kind: 'image', provider: getImageProvider().id }
+          });
+          updatedLocs[index].imageUrl = base64;
+          setPlan(prev => prev ? { ...prev, locations: [...updatedLocs] } : null);
+        } catch (e) {
+          console.error(`Failed to generate location ${loc.name}`, e);
+        }
+      })
+    );
     setIsGeneratingChars(false);
   };
 
@@ -339,7 +360,10 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
     const updatedLocs = [...plan.locations];
 
     try {
-      const base64 = await generateLocationReference(updatedLocs[locIndex], visualStyle);
+      const base64 = await withRetry(() => generateLocationReference(updatedLocs[locIndex], visualStyle), {
+        label: `Location ${updatedLocs[locIndex].name}`,
+        schedule: { kind: 'image', provider: getImageProvider().id, priority: 'interactive' }
+      });
       updatedLocs[locIndex].imageUrl = base64;
       setPlan({ ...plan, locations: updatedLocs });
     } catch (e) {
@@ -349,25 +373,52 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
     setIsGeneratingChars(false);
   };
 
+  // Show what a run will cost before it starts; refuse outright once the budget is used up
+  const confirmCost = (question: string, estimate: CostEstimate): boolean => {
+    const remaining = remainingBudget();
+    if (remaining !== null && remaining <= 0) {
+      alert("This project's budget is used up. Raise it in the usage menu to generate more.");
+      return false;
+    }
+
+    const lines = estimate.lines.map(line => `  ${line.label}: ${formatCost(line.cost)}`).join('\n');
+    let message = `${question}\n\nEstimated cost: ${formatCost(estimate.total)}${lines ? `\n${lines}` : ''}`;
+    if (remaining !== null) {
+      message += `\n\nBudget left: ${formatCost(remaining)}`;
+      if (estimate.total > remaining) {
+        message += "\nThat is less than the estimate: generation will stop when the budget is reached.";
+      }
+    }
+    return window.confirm(message);
+  };
+
   // Step 2: Generate Storyboard (Sequential Images)
-  const processFrames = async (startIndex: number = 0) => {
+  const processFrames = async (startIndex: number = 0, priority: JobPriority = 'batch') => {
     if (!plan) return;
+
+    // Every frame from startIndex on is redrawn; all but the very first edit the frame before
+    const frameCount = storyboard.length - startIndex;
+    const estimate = estimateFramesCost(frameCount, startIndex === 0 ? frameCount - 1 : frameCount);
+    if (!confirmCost(`Generate ${frameCount} storyboard frame${frameCount === 1 ? '' : 's'}?`, estimate)) return;
     
-    stopRef.current = false;
+    const token = new CancellationToken();
+    frameTokenRef.current = token;
     setIsGeneratingFrames(true);
     setGenerationProgress(0);
 
     const frames = [...storyboard];
 
     for (let i = startIndex; i < frames.length; i++) {
-        if (stopRef.current) break;
+        if (token.cancelled) break;
 
         // Reset state for this frame
         frames[i].isGenerating = true;
         frames[i].error = undefined;
+        frames[i].errorKind = undefined;
         setStoryboard([...frames]); // Force update UI
 
         let success = false;
+        let failure: unknown = null;
         // Logic: Try to use previous frame for "Edit", unless it failed or doesn't exist, then "Generate New"
         const prevImage = (i > 0 && !frames[i-1].error && frames[i-1].imageUrl) ? frames[i-1].imageUrl : null;
 
@@ -375,41 +426,32 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
         const activeChars = plan.characters.filter(c => frames[i].characterIds?.includes(c.id));
         const activeLocs = plan.locations.filter(loc => frames[i].locationIds?.includes(loc.id));
 
-        // Retry Loop
-        for (let attempt = 0; attempt < 3; attempt++) {
-             if (stopRef.current) break;
-             try {
-                 // Sanitize description for retries using Gemini
-                 let description = frames[i].description;
-                 if (attempt === 1) {
-                    description = await sanitizePrompt(frames[i].description, 'moderate');
-                 } else if (attempt === 2) {
-                    description = await sanitizePrompt(frames[i].description, 'strict');
-                 }
-
-                 let imageBase64: string;
-                 if (prevImage) {
-                    imageBase64 = await generateNextFrame(prevImage, description, aspectRatio, activeChars, activeLocs, visualStyle);
-                 } else {
-                    imageBase64 = await generateFirstFrame(description, aspectRatio, activeChars, activeLocs, visualStyle);
-                 }
-
-                 frames[i].imageUrl = imageBase64;
-                 success = true;
-                 break; // Success, exit retry loop
-             } catch (e) {
-                 console.warn(`Frame ${i} attempt ${attempt + 1} failed`, e);
-             }
+        // Retry policy: the description is only sanitized after a safety block
+        try {
+            frames[i].imageUrl = await withRetry(async ({ sanitizeLevel }) => {
+                const description = sanitizeLevel === 'none'
+                    ? frames[i].description
+                    : await sanitizePrompt(frames[i].description, sanitizeLevel, token);
+
+                if (prevImage) {
+                    return generateNextFrame(prevImage, description, aspectRatio, activeChars, activeLocs, styleWithPalette(visualStyle, frames[i].palette));
+                }
+                return generateFirstFrame(description, aspectRatio, activeChars, activeLocs, styleWithPalette(visualStyle, frames[i].palette));
+            }, { label: `Frame ${i + 1}`, token, schedule: { kind: 'image', provider: getImageProvider().id, priority } });
+            success = true;
+        } catch (e) {
+            failure = e;
         }
 
         frames[i].isGenerating = false;
         
-        if (!success && !stopRef.current) {
-            frames[i].error = "Generation Failed";
+        if (!success && !token.cancelled) {
+            frames[i].error = (failure as Error).message;
+            frames[i].errorKind = errorKindOf(failure);
             frames[i].imageUrl = undefined;
             setStoryboard([...frames]);
             // If a frame fails completely, we stop the sequence so the user can intervene.
-            alert(`Generation stopped at Shot ${i+1}. Please check the error, maybe adjust the description or style, and retry.`);
+            alert(`Generation stopped at Shot ${i+1}. ${describeError(failure)}\n\nPlease check the error, maybe adjust the description or style, and retry.`);
             break; 
         }
 
@@ -425,22 +467,37 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
     setIsGeneratingFrames(false);
   };
 
-  // Hierarchical frame generation with tiered/phased approach
-  const processFramesHierarchical = async () => {
+  // Frames a hierarchical run will render: missing or failed ones, plus those about to be cleared
+  const framesToGenerate = (cleared: number[]): number[] =>
+    storyboard
+      .map((_, index) => index)
+      .filter(index => cleared.includes(index) || !storyboard[index].imageUrl || storyboard[index].error);
+
+  // Children are edits of their parent, which costs an extra text call each
+  const estimateHierarchicalCost = (frameIndices: number[]): CostEstimate =>
+    estimateFramesCost(frameIndices.length, frameIndices.filter(index => hierarchyTree?.nodes[index]?.parentIndex != null).length);
+
+  // Hierarchical frame generation: each frame starts as soon as its parent is done
+  const processFramesHierarchical = async (priority: JobPriority = 'batch', costConfirmed: boolean = false) => {
     if (!plan || !hierarchyTree) return;
 
-    stopRef.current = false;
+    if (!costConfirmed) {
+      const pending = framesToGenerate([]);
+      if (!confirmCost(`Generate ${pending.length} storyboard frame${pending.length === 1 ? '' : 's'}?`, estimateHierarchicalCost(pending))) return;
+    }
+
+    const token = new CancellationToken();
+    frameTokenRef.current = token;
     setIsGeneratingFrames(true);
     setGenerationProgress(0);
 
     const frames = [...storyboard];
     const totalFrames = frames.length;
     let completedCount = 0;
-    const MAX_CONCURRENT = 3;
 
     // Helper to generate a single frame
     const generateFrame = async (frameIndex: number): Promise<boolean> => {
-      if (stopRef.current) return false;
+      if (token.cancelled) return false;
 
       const node = hierarchyTree.nodes[frameIndex];
 
@@ -451,21 +508,18 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
 
       frames[frameIndex].isGenerating = true;
       frames[frameIndex].error = undefined;
+      frames[frameIndex].errorKind = undefined;
       setStoryboard([...frames]);
 
       let success = false;
+      let failure: unknown = null;
 
-      // 3-attempt retry with progressive sanitization
-      for (let attempt = 0; attempt < 3; attempt++) {
-        if (stopRef.current) break;
-
-        try {
-          let description = frames[frameIndex].description;
-          if (attempt === 1) {
-            description = await sanitizePrompt(description, 'moderate');
-          } else if (attempt === 2) {
-            description = await sanitizePrompt(description, 'strict');
-          }
+      // Retry policy: the description is only sanitized after a safety block
+      try {
+        frames[frameIndex].imageUrl = await withRetry(async ({ sanitizeLevel }) => {
+          const description = sanitizeLevel === 'none'
+            ? frames[frameIndex].description
+            : await sanitizePrompt(frames[frameIndex].description, sanitizeLevel, token);
 
           const activeChars = plan.characters.filter(c =>
             frames[frameIndex].characterIds?.includes(c.id)
@@ -474,16 +528,14 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
             frames[frameIndex].locationIds?.includes(loc.id)
           );
 
-          let imageBase64: string;
-
           if (node.parentIndex === null) {
             // This is a parent - generate normally
-            imageBase64 = await generateFirstFrame(
+            return generateFirstFrame(
               description,
               aspectRatio,
               activeChars,
               activeLocs,
-              visualStyle
+              styleWithPalette(visualStyle, frames[frameIndex].palette)
             );
           } else {
             // This is a child - use vision-based edit (same as linear mode now)
@@ -495,29 +547,33 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
             }
 
             // Use vision-based edit instructions (same approach as linear mode)
-            imageBase64 = await generateNextFrame(
+            return generateNextFrame(
               parentFrame.imageUrl,
               description,
               aspectRatio,
               activeChars,
               activeLocs,
-              visualStyle
+              styleWithPalette(visualStyle, frames[frameIndex].palette)
             );
           }
-
-          frames[frameIndex].imageUrl = imageBase64;
-          success = true;
-          break;
-        } catch (e) {
-          console.warn(`Frame ${frameIndex} attempt ${attempt + 1} failed`, e);
-        }
+        }, { label: `Frame ${frameIndex + 1}`, token, schedule: { kind: 'image', provider: getImageProvider().id, priority } });
+        success = true;
+      } catch (e) {
+        failure = e;
       }
 
       frames[frameIndex].isGenerating = false;
 
-      if (!success && !stopRef.current) {
-        frames[frameIndex].error = "Generation Failed";
+      if (!success && !token.cancelled) {
+        frames[frameIndex].error = (failure as Error).message;
+        frames[frameIndex].errorKind = errorKindOf(failure);
         frames[frameIndex].imageUrl = undefined;
+
+        // Auth and quota errors fail every remaining frame the same way
+        if (isFatalError(failure)) {
+          token.cancel();
+          alert(`Storyboard generation stopped. ${describeError(failure)}`);
+        }
       }
 
       setStoryboard([...frames]);
@@ -529,32 +585,36 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
       return success;
     };
 
-    // Generate frames phase by phase (depth 0, then 1, then 2, etc.)
-    for (let currentDepth = 0; currentDepth <= hierarchyTree.maxDepth; currentDepth++) {
-      if (stopRef.current) break;
-
-      // Get all frames at this depth
-      const framesAtDepth = hierarchyTree.nodes
-        .filter(node => node.depth === currentDepth)
-        .map(node => node.frameIndex);
-
-      if (framesAtDepth.length === 0) continue;
-
-      console.log(`Phase ${currentDepth}: Generating ${framesAtDepth.length} frames (depth ${currentDepth})`);
-
-      // Generate frames at this depth in batches of 3 (parallel)
-      for (let i = 0; i < framesAtDepth.length; i += MAX_CONCURRENT) {
-        if (stopRef.current) break;
-
-        const batch = framesAtDepth.slice(i, i + MAX_CONCURRENT);
-
-        // Generate batch in parallel
-        await Promise.all(batch.map(frameIdx => generateFrame(frameIdx)));
-
-        completedCount += batch.length;
-        setGenerationProgress((completedCount / totalFrames) * 100);
+    // A child waits only for its own parent; the image lane caps how many frames render at once
+    const results = new Map<number, Promise<boolean>>();
+    const generateAfterParent = (frameIndex: number): Promise<boolean> => {
+      let result = results.get(frameIndex);
+      if (!result) {
+        const parentIndex = hierarchyTree.nodes[frameIndex].parentIndex;
+        result = (async () => {
+          let success: boolean;
+          if (parentIndex !== null && !(await generateAfterParent(parentIndex))) {
+            // Frames kept from an earlier run still work as parents for their own children
+            success = !!frames[frameIndex].imageUrl && !frames[frameIndex].error;
+            if (!success && !token.cancelled) {
+              frames[frameIndex].error = `Parent frame ${parentIndex + 1} has no image`;
+              frames[frameIndex].errorKind = undefined;
+              setStoryboard([...frames]);
+            }
+          } else {
+            success = await generateFrame(frameIndex);
+          }
+          // Skipped frames count as done, so progress still reaches 100% after a failure
+          completedCount++;
+          setGenerationProgress((completedCount / totalFrames) * 100);
+          return success;
+        })();
+        results.set(frameIndex, result);
       }
-    }
+      return result;
+    };
+
+    await Promise.all(hierarchyTree.nodes.map(node => generateAfterParent(node.frameIndex)));
 
     setIsGeneratingFrames(false);
   };
@@ -579,28 +639,27 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
     const descendants = collectDescendants(frameIndex);
     const totalAffected = 1 + descendants.length;
 
-    // Always cascade - confirm with user
-    if (descendants.length > 0) {
-      const confirmed = window.confirm(
-        `Regenerating this frame will also regenerate ${descendants.length} dependent frame${descendants.length > 1 ? 's' : ''} (${totalAffected} total). Continue?`
-      );
-      if (!confirmed) return;
-    }
+    // Always cascade - confirm with user, together with what the run will cost
+    const question = descendants.length > 0
+      ? `Regenerating this frame will also regenerate ${descendants.length} dependent frame${descendants.length > 1 ? 's' : ''} (${totalAffected} total). Continue?`
+      : 'Regenerate this frame?';
+    if (!confirmCost(question, estimateHierarchicalCost(framesToGenerate([frameIndex, ...descendants])))) return;
 
     // Clear images for this frame + all descendants
     const frames = [...storyboard];
     [frameIndex, ...descendants].forEach(idx => {
       frames[idx].imageUrl = undefined;
       frames[idx].error = undefined;
+      frames[idx].errorKind = undefined;
     });
     setStoryboard(frames);
 
     // Regenerate using hierarchical generation
-    await processFramesHierarchical();
+    await processFramesHierarchical('interactive', true);
   };
 
   const handleStop = () => {
-      stopRef.current = true;
+      frameTokenRef.current.cancel();
   }
 
   const handleExportZip = async () => {
@@ -610,6 +669,11 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
     // Generate proper-sized black frame based on aspect ratio
     const blackFrame = generateBlackFrame(aspectRatio);
 
+    // Timeline shots reference the best media each shot folder ends up with;
+    // the sequence starts at the first cut, like the stitched video
+    const timelineStart = markers[0]?.time ?? 0;
+    const timelineShots: TimelineShot[] = [];
+
     // Use for loop to handle async operations properly
     for (let index = 0; index < storyboard.length; index++) {
         const frame = storyboard[index];
@@ -630,6 +694,8 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
         // Prompt
         folder.file("Prompt.txt", frame.interpolationPrompt || "No prompt generated");
 
+        let media: TimelineMedia = { path: `${folderName}/First_Frame.jpg`, kind: 'still' };
+
         // Videos (Phase 3 only - skip if not generated yet)
         if (videoClips.length > 0) {
             const clip = videoClips.find(c => c.shotIndex === index);
@@ -638,6 +704,7 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
                 // Processed video (final, speed-ramped version)
                 if (clip.processedVideoBlob) {
                     folder.file("Processed_Video.mp4", clip.processedVideoBlob);
+                    media = { path: `${folderName}/Processed_Video.mp4`, kind: 'video', duration: clip.targetDuration };
                 }
 
                 // Generated video (original from Kling)
@@ -646,6 +713,9 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
                         const response = await fetch(clip.generatedVideoUrl);
                         const blob = await response.blob();
                         folder.file("Generated_Video.mp4", blob);
+                        if (media.kind === 'still') {
+                            media = { path: `${folderName}/Generated_Video.mp4`, kind: 'video', duration: clip.generatedDuration };
+                        }
                     } catch (e) {
                         console.warn(`Could not fetch generated video for shot ${index + 1}`, e);
                         // Continue with export even if video fetch fails
@@ -653,7 +723,36 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
                 }
             }
         }
+
+        timelineShots.push({
+            name: folderName,
+            start: (markers[index]?.time ?? frame.startTime) - timelineStart,
+            duration: getShotDuration(index),
+            media,
+            markerType: markers[index]?.type ?? 'Cut',
+            note: [frame.description, frame.interpolationPrompt].filter(Boolean).join(' | ')
+        });
+    }
+
+    // Editable sequences of the cut for Final Cut / Resolve, Premiere and EDL-based NLEs
+    const songName = audioBlob instanceof File ? audioBlob.name : null;
+    if (audioBlob && songName) {
+        master?.file(songName, audioBlob);
     }
+    const { width, height } = getAspectRatioDimensions(aspectRatio);
+    const timeline: TimelineSpec = {
+        title: "SonicCut Music Video",
+        fps: TIMELINE_FPS,
+        width,
+        height,
+        shots: timelineShots,
+        audio: songName
+            ? { path: songName, kind: 'audio', duration: trackDuration, sourceStart: timelineStart, length: audioDuration - timelineStart }
+            : undefined
+    };
+    master?.file("Timeline.fcpxml", buildFcpxml(timeline));
+    master?.file("Timeline_Premiere.xml", buildXmeml(timeline));
+    master?.file("Timeline.edl", buildEdl(timeline));
 
     const content = await zip.generateAsync({type:"blob"});
     const url = window.URL.createObjectURL(content);
@@ -714,12 +813,16 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
       return;
     }
 
+    const durations = storyboard.map((_, index) => selectVideoDuration(getShotDuration(index)));
+    if (!confirmCost(`Generate ${durations.length} video clip${durations.length === 1 ? '' : 's'}?`, estimateClipsCost(durations))) return;
+
     // Pre-load FFmpeg
     await preloadFFmpeg();
 
     const clips = initializeVideoClips();
     setVideoClips(clips);
-    videoStopRef.current = false;
+    const token = new CancellationToken();
+    videoTokenRef.current = token;
 
     setVideoState(prev => ({
       ...prev,
@@ -729,8 +832,7 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
       progress: 0
     }));
 
-    // Pipelined generation + processing
-    const CONCURRENT_GENERATIONS = 2;
+    // Pipelined generation + processing; the video lane caps concurrent generations
 
     // Processing queue
     const processingQueue: number[] = [];
@@ -743,7 +845,7 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
       if (isProcessing) return; // Already processing
       isProcessing = true;
 
-      while (processingQueue.length > 0 && !videoStopRef.current) {
+      while (processingQueue.length > 0 && !token.cancelled) {
         const clipIndex = processingQueue.shift()!;
 
         try {
@@ -792,82 +894,63 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
       isProcessing = false;
     };
 
-    // Step 1: Generate videos with immediate processing
-    for (let i = 0; i < clips.length; i += CONCURRENT_GENERATIONS) {
-      if (videoStopRef.current) break;
-
-      // Process batch of clips (up to 2 at a time)
-      const batchIndices = [];
-      for (let j = i; j < Math.min(i + CONCURRENT_GENERATIONS, clips.length); j++) {
-        batchIndices.push(j);
-      }
-
-      // Generate videos in parallel for this batch
-      await Promise.all(batchIndices.map(async (clipIndex) => {
-        if (videoStopRef.current) return;
-
-        const frame = storyboard[clipIndex];
-        const nextFrame = storyboard[clipIndex + 1];
-
-        clips[clipIndex].status = 'generating';
-        setVideoClips([...clips]);
-
-        const lastFrameBase64 = nextFrame?.imageUrl || generateBlackFrame(aspectRatio);
-        let success = false;
+    // Step 1: Queue every clip; each goes to processing as soon as it is generated
+    const provider = getVideoProvider();
+    await Promise.all(clips.map(async (clip, clipIndex) => {
+      const frame = storyboard[clipIndex];
+      const nextFrame = storyboard[clipIndex + 1];
+      const lastFrameBase64 = nextFrame?.imageUrl || generateBlackFrame(aspectRatio);
 
-        // Retry loop with progressively safer prompts
-        for (let attempt = 0; attempt < 3; attempt++) {
-          if (videoStopRef.current) break;
-
-          try {
-            // Sanitize interpolation prompt for retries using Gemini
-            let prompt = frame.interpolationPrompt;
-            if (attempt === 1) {
-              prompt = await sanitizePrompt(frame.interpolationPrompt, 'moderate');
-            } else if (attempt === 2) {
-              prompt = await sanitizePrompt(frame.interpolationPrompt, 'strict');
-            }
-
-            const result = await generateVideoClip({
-              prompt: prompt,
-              firstFrameBase64: frame.imageUrl!,
-              lastFrameBase64: lastFrameBase64,
-              duration: selectVideoDuration(clips[clipIndex].targetDuration)
-            });
+      // Retry policy: the prompt is only sanitized after a safety block
+      try {
+        const result = await withRetry(async ({ sanitizeLevel }) => {
+          clips[clipIndex].status = 'generating';
+          setVideoClips([...clips]);
 
-            clips[clipIndex].generatedVideoUrl = result.videoUrl;
-            success = true;
-            generatedCount++;
+          const prompt = sanitizeLevel === 'none'
+            ? frame.interpolationPrompt
+            : await sanitizePrompt(frame.interpolationPrompt, sanitizeLevel, token);
 
-            // Add to processing queue and start processing if not already running
-            processingQueue.push(clipIndex);
-            processQueuedClips(); // Will return immediately if already processing
+          return provider.generateVideo({
+            prompt: prompt,
+            firstFrameBase64: frame.imageUrl!,
+            lastFrameBase64: lastFrameBase64,
+            duration: selectVideoDuration(clip.targetDuration)
+          });
+        }, { label: `Video for shot ${clipIndex + 1}`, token, schedule: { kind: 'video', provider: provider.id } });
 
-            break; // Success, exit retry loop
-          } catch (e) {
-            console.warn(`Video generation for shot ${clipIndex + 1} attempt ${attempt + 1} failed:`, e);
-          }
-        }
+        clips[clipIndex].generatedVideoUrl = result.videoUrl;
+        generatedCount++;
 
-        // If all attempts failed
-        if (!success && !videoStopRef.current) {
+        // Add to processing queue and start processing if not already running
+        processingQueue.push(clipIndex);
+        processQueuedClips(); // Will return immediately if already processing
+      } catch (e) {
+        if (!token.cancelled) {
           clips[clipIndex].status = 'error';
-          clips[clipIndex].error = "Generation failed after 3 attempts";
+          clips[clipIndex].error = (e as Error).message;
+          clips[clipIndex].errorKind = errorKindOf(e);
           generatedCount++;
+
+          // Auth and quota errors fail every remaining clip the same way
+          if (isFatalError(e)) {
+            token.cancel();
+            alert(`Video generation stopped. ${describeError(e)}`);
+          }
         }
+      }
 
-        setVideoClips([...clips]);
-      }));
-    }
+      setVideoClips([...clips]);
+    }));
 
     // Wait for all processing to complete
     while (isProcessing || processingQueue.length > 0) {
-      if (videoStopRef.current) break;
+      if (token.cancelled) break;
       await new Promise(resolve => setTimeout(resolve, 100));
     }
 
     // Step 2: Stitch final video
-    if (!videoStopRef.current) {
+    if (!token.cancelled) {
       await stitchFinalVideo(clips);
     } else {
       setVideoState(prev => ({
@@ -878,6 +961,13 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
     }
   };
 
+  // Phase 3: Pick a placeholder style that can actually be rendered for a gap
+  const resolveGapFillMode = (preferred: GapFillMode, hasStill: boolean, hasPrevious: boolean): GapFillMode => {
+    if (preferred === 'hold' && hasPrevious) return 'hold';
+    if (preferred !== 'black' && hasStill) return 'still';
+    return 'black';
+  };
+
   // Phase 3: Stitch all clips together
   const stitchFinalVideo = async (clips: VideoClip[]) => {
     setVideoState(prev => ({
@@ -902,8 +992,58 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
     }
 
     try {
-      const blobs = readyClips.map(c => c.processedVideoBlob!);
-      const finalBlob = await stitchVideos(blobs);
+      // Fill failed or missing shots with placeholders so every cut stays on its marker
+      const referenceClip = readyClips[0].processedVideoBlob!;
+      const blobs: Blob[] = [];
+      const placeholders: PlaceholderShot[] = [];
+
+      for (let index = 0; index < storyboard.length; index++) {
+        const clip = clips.find(c => c.shotIndex === index);
+
+        if (clip?.status === 'ready' && clip.processedVideoBlob) {
+          blobs.push(clip.processedVideoBlob);
+          continue;
+        }
+
+        const previousClip = blobs[index - 1];
+        const stillImage = storyboard[index].imageUrl;
+        const mode = resolveGapFillMode(gapFillMode, !!stillImage, !!previousClip);
+
+        console.warn(`Shot ${index + 1} has no usable clip, filling with '${mode}' placeholder`);
+        const placeholder = await createPlaceholderClip({
+          mode,
+          duration: clip?.targetDuration ?? getShotDuration(index),
+          referenceClip,
+          stillImageBase64: stillImage,
+          previousClip
+        });
+
+        blobs.push(placeholder);
+        placeholders.push({
+          shotIndex: index,
+          mode,
+          reason: clip?.error || (clip ? `Clip ${clip.status}` : 'No clip generated')
+        });
+      }
+
+      // Mux the song under the video, starting where the first shot starts
+      // (cutdowns stop at the region end, with fades at both edges)
+      const startOffset = markers[0]?.time ?? 0;
+      const soundtrack = audioBlob
+        ? {
+            audioBlob,
+            startOffset,
+            codec: soundtrackCodec,
+            trim: region
+              ? { duration: Math.max(0, region.end - startOffset), fadeIn: REGION_FADE_IN, fadeOut: REGION_FADE_OUT }
+              : undefined
+          }
+        : undefined;
+      if (!soundtrack) {
+        console.warn("No audio available for this project, final video will be silent");
+      }
+
+      const finalBlob = await stitchVideos(blobs, undefined, soundtrack);
       const url = createVideoUrl(finalBlob);
 
       // Revoke old URL if exists
@@ -913,6 +1053,7 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
 
       setFinalVideoUrl(url);
       setFinalVideoBlob(finalBlob); // Save blob to parent state for persistence
+      setPlaceholderReport(placeholders);
       setVideoState(prev => ({
         ...prev,
         currentPhase: 'complete',
@@ -933,7 +1074,7 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
 
   // Phase 3: Stop video generation
   const handleVideoStop = () => {
-    videoStopRef.current = true;
+    videoTokenRef.current.cancel();
   };
 
   // Phase 3: Regenerate a single shot
@@ -944,39 +1085,32 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
 
     clips[clipIndex].status = 'generating';
     clips[clipIndex].error = undefined;
+    clips[clipIndex].errorKind = undefined;
     setVideoClips([...clips]);
 
     const lastFrameBase64 = nextFrame?.imageUrl || generateBlackFrame(aspectRatio);
-    let success = false;
+    const provider = getVideoProvider();
 
-    for (let attempt = 0; attempt < 3; attempt++) {
-      try {
-        let prompt = frame.interpolationPrompt;
-        if (attempt === 1) {
-          prompt = await sanitizePrompt(frame.interpolationPrompt, 'moderate');
-        } else if (attempt === 2) {
-          prompt = await sanitizePrompt(frame.interpolationPrompt, 'strict');
-        }
+    try {
+      const result = await withRetry(async ({ sanitizeLevel }) => {
+        const prompt = sanitizeLevel === 'none'
+          ? frame.interpolationPrompt
+          : await sanitizePrompt(frame.interpolationPrompt, sanitizeLevel);
 
-        const result = await generateVideoClip({
+        return provider.generateVideo({
           prompt: prompt,
           firstFrameBase64: frame.imageUrl!,
           lastFrameBase64: lastFrameBase64,
           duration: selectVideoDuration(clips[clipIndex].targetDuration)
         });
+      }, { label: `Regenerate shot ${clipIndex + 1}`, schedule: { kind: 'video', provider: provider.id, priority: 'interactive' } });
 
-        clips[clipIndex].generatedVideoUrl = result.videoUrl;
-        clips[clipIndex].status = 'processing';
-        success = true;
-        break;
-      } catch (e) {
-        console.warn(`Regenerate attempt ${attempt + 1} failed:`, e);
-      }
-    }
-
-    if (!success) {
+      clips[clipIndex].generatedVideoUrl = result.videoUrl;
+      clips[clipIndex].status = 'processing';
+    } catch (e) {
       clips[clipIndex].status = 'error';
-      clips[clipIndex].error = "Regeneration failed after 3 attempts";
+      clips[clipIndex].error = (e as Error).message;
+      clips[clipIndex].errorKind = errorKindOf(e);
     }
 
     setVideoClips([...clips]);
@@ -1159,6 +1293,46 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
                       </div>
                       <p className="text-slate-400 leading-relaxed text-sm">{plan.narrativeSummary}</p>
 
+                      {/* Plan Validation Report */}
+                      {planIssues && planIssues.narrativeSummary === plan.narrativeSummary && planIssues.issues.length > 0 && (
+                        <div className="mt-4 p-3 bg-amber-950/30 border border-amber-900/50 rounded-lg">
+                          <div className="flex items-center justify-between mb-2">
+                            <div className="text-xs font-semibold text-amber-400 flex items-center gap-2">
+                              <AlertTriangle className="w-3 h-3" />
+                              {planIssues.issues.length} plan issue{planIssues.issues.length > 1 ? 's' : ''}
+                              <span className="font-normal text-slate-400">
+                                ({(['repaired', 'auto-fixed', 'unresolved'] as const)
+                                  .map(resolution => [resolution, planIssues.issues.filter(issue => issue.resolution === resolution).length] as const)
+                                  .filter(([, count]) => count > 0)
+                                  .map(([resolution, count]) => `${count} ${resolution}`)
+                                  .join(', ')})
+                              </span>
+                            </div>
+                            <button
+                              onClick={() => setPlanIssues(null)}
+                              className="text-slate-500 hover:text-slate-300 transition-colors"
+                              title="Dismiss"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </div>
+                          <ul className="space-y-1 max-h-40 overflow-y-auto">
+                            {planIssues.issues.map((issue, i) => (
+                              <li key={i} className={`text-[10px] flex items-start gap-2 ${issue.severity === 'error' ? 'text-slate-300' : 'text-slate-500'}`}>
+                                <span className={`font-mono shrink-0 ${
+                                  issue.resolution === 'unresolved' ? 'text-red-400' : issue.resolution === 'repaired' ? 'text-emerald-400' : 'text-amber-300'
+                                }`}>
+                                  {issue.resolution}
+                                </span>
+                                <span>
+                                  <span className="text-slate-500">{issue.source === 'plan' ? 'Plan' : 'Hierarchy'}:</span> {issue.message}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
                       {/* Settings - Always Editable */}
                       <div className="mt-4 space-y-3 pb-4 border-b border-slate-800">
                         <div className="flex flex-col sm:flex-row gap-3">
@@ -1387,7 +1561,7 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
                           isSelected={selectedFrameIndex === index}
                           isGenerating={isGeneratingFrames}
                           onSelect={() => setSelectedFrameIndex(selectedFrameIndex === index ? null : index)}
-                          onRegenerate={() => useHierarchy && hierarchyTree ? handleRegenerateFrame(index) : processFrames(index)}
+                          onRegenerate={() => useHierarchy && hierarchyTree ? handleRegenerateFrame(index) : processFrames(index, 'interactive')}
                         />
 
                         {/* Arrow to next */}
@@ -1443,6 +1617,29 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
                         </span>
                       )}
 
+                      <select
+                        value={soundtrackCodec}
+                        onChange={(e) => setSoundtrackCodec(e.target.value as SoundtrackCodec)}
+                        disabled={isVideoGenerating}
+                        className="bg-slate-900 border border-slate-700 text-slate-200 rounded-lg px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 focus:outline-none disabled:opacity-50"
+                        title="Audio codec for the final video"
+                      >
+                        <option value="aac">Audio: AAC</option>
+                        <option value="opus">Audio: Opus</option>
+                      </select>
+
+                      <select
+                        value={gapFillMode}
+                        onChange={(e) => setGapFillMode(e.target.value as GapFillMode)}
+                        disabled={isVideoGenerating}
+                        className="bg-slate-900 border border-slate-700 text-slate-200 rounded-lg px-3 py-2 text-xs focus:ring-2 focus:ring-emerald-500 focus:outline-none disabled:opacity-50"
+                        title="What replaces failed shots in the final video"
+                      >
+                        <option value="still">Gaps: Storyboard still</option>
+                        <option value="black">Gaps: Black</option>
+                        <option value="hold">Gaps: Hold previous</option>
+                      </select>
+
                       {videoState.currentPhase === 'idle' && (
                         <button
                           onClick={handleGenerateVideos}
@@ -1528,9 +1725,14 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
                                   </span>
                                 </div>
                               ) : clip.status === 'error' ? (
-                                <div className="flex flex-col items-center gap-1 text-red-400 p-2 text-center">
+                                <div className="flex flex-col items-center gap-1 text-red-400 p-2 text-center" title={clip.error}>
                                   <AlertTriangle className="w-5 h-5" />
-                                  <span className="text-[10px]">Failed</span>
+                                  <span className="text-[10px] font-medium">
+                                    {clip.errorKind ? AI_ERROR_LABELS[clip.errorKind] : 'Processing failed'}
+                                  </span>
+                                  {clip.error && (
+                                    <span className="text-[9px] text-red-300/70 line-clamp-2">{clip.error}</span>
+                                  )}
                                 </div>
                               ) : (
                                 <span className="text-[10px] text-slate-600">Pending</span>
@@ -1602,6 +1804,23 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
                           <RefreshCw className="w-4 h-4" /> Re-stitch
                         </button>
                       </div>
+
+                      {/* Placeholder Report */}
+                      {placeholderReport.length > 0 && (
+                        <div className="mt-4 p-3 bg-amber-950/30 border border-amber-900/50 rounded-lg">
+                          <div className="text-xs font-semibold text-amber-400 flex items-center gap-2 mb-2">
+                            <AlertTriangle className="w-3 h-3" />
+                            {placeholderReport.length} placeholder shot{placeholderReport.length > 1 ? 's' : ''} in this cut
+                          </div>
+                          <ul className="space-y-1">
+                            {placeholderReport.map(p => (
+                              <li key={p.shotIndex} className="text-[10px] text-slate-400">
+                                <span className="font-mono text-amber-300">Shot {p.shotIndex + 1}</span> ({p.mode}): {p.reason}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
                     </div>
                   )}
 
@@ -1610,7 +1829,7 @@ const VideoPlanner: React.FC<VideoPlannerProps> = ({
                     <div className="text-center py-8 text-slate-500">
                       <Video className="w-12 h-12 mx-auto mb-3 opacity-30" />
                       <p className="text-sm">Click "Generate Videos" to create video clips from your storyboard frames.</p>
-                      <p className="text-xs mt-2 text-slate-600">Videos will be generated using Kling AI, then speed-ramped and stitched together.</p>
+                      <p className="text-xs mt-2 text-slate-600">Videos will be generated using {getVideoProvider().label}, then speed-ramped and stitched together.</p>
                     </div>
                   )}
                 </div>
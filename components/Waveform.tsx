@@ -1,64 +1,136 @@
 import React, { useEffect, useRef, useMemo } from 'react';
 import * as d3 from 'd3';
-import { Marker } from '../types';
+import { Marker, BeatGrid, SongSection, SongSectionLabel, LyricLine, DensityKeyframe, TimeRegion, AudioCurves } from '../types';
 
 interface WaveformProps {
   buffer: AudioBuffer;
   markers: Marker[];
   currentTime: number;
   onSeek: (time: number) => void;
+  beatGrid?: BeatGrid | null;
+  sections?: SongSection[];
+  lyricLines?: LyricLine[];
+  stereo?: boolean; // Left channel above the centre line, right below (stereo files only)
+  curves?: AudioCurves; // Loudness line and vocal presence band overlays
+
+  // Cutdown window: the rest of the song is dimmed; its edges can be dragged
+  region?: TimeRegion | null;
+  onRegionChange?: (region: TimeRegion) => void;
+
+  // Manual marker editing (only active when editable)
+  editable?: boolean;
+  onAddMarker?: (time: number) => void;
+  onMoveMarker?: (id: string, time: number) => void;
+  onDeleteMarker?: (id: string) => void;
+  onToggleMarkerType?: (id: string) => void;
+  onTogglePin?: (id: string) => void;
+
+  // Density automation (drawn when keyframes are given, edited when curveEditable)
+  densityCurve?: DensityKeyframe[];
+  curveEditable?: boolean;
+  onAddKeyframe?: (time: number, sensitivity: number) => void;
+  onMoveKeyframe?: (id: string, time: number, sensitivity: number) => void;
+  onDeleteKeyframe?: (id: string) => void;
 }
 
-const Waveform: React.FC<WaveformProps> = ({ buffer, markers, currentTime, onSeek }) => {
+const SECTION_COLORS: Record<SongSectionLabel, string> = {
+  intro: "#64748b",  // slate-500
+  verse: "#0ea5e9",  // sky-500
+  chorus: "#f97316", // orange-500
+  bridge: "#a855f7", // purple-500
+  outro: "#64748b"   // slate-500
+};
+
+// Draw order: static waveform, loudness / vocal overlays, cutdown region, markers, density curve, playhead
+const LAYERS = ["base-layer", "feature-layer", "region-layer", "marker-layer", "curve-layer", "playhead-layer"];
+
+const MIN_REGION_SECONDS = 1;
+
+// Loudness overlay spans this many dB below the loudest point; the vocal band is this tall at full presence
+const LOUDNESS_RANGE_DB = 30;
+const VOCAL_BAND_HEIGHT = 28;
+
+// Vertical padding so keyframes at 0 / 1 stay grabbable
+const CURVE_PADDING = 12;
+
+const ensureLayers = (svgElement: SVGSVGElement) => {
+  const svg = d3.select(svgElement);
+  LAYERS.forEach(name => {
+    if (svg.select(`g.${name}`).empty()) svg.append("g").attr("class", name);
+  });
+  return svg;
+};
+
+const Waveform: React.FC<WaveformProps> = ({
+  buffer, markers, currentTime, onSeek, beatGrid, sections, lyricLines, stereo = false, curves, region, onRegionChange,
+  editable = false, onAddMarker, onMoveMarker, onDeleteMarker, onToggleMarkerType, onTogglePin,
+  densityCurve, curveEditable = false, onAddKeyframe, onMoveKeyframe, onDeleteKeyframe
+}) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  // Downsample buffer for visualization performance
+  // Latest callbacks, so handlers bound inside effects never go stale
+  const callbacksRef = useRef({ onSeek, onAddMarker, onMoveMarker, onDeleteMarker, onToggleMarkerType, onTogglePin, editable, onAddKeyframe, onMoveKeyframe, onDeleteKeyframe, curveEditable, onRegionChange });
+  callbacksRef.current = { onSeek, onAddMarker, onMoveMarker, onDeleteMarker, onToggleMarkerType, onTogglePin, editable, onAddKeyframe, onMoveKeyframe, onDeleteKeyframe, curveEditable, onRegionChange };
+
+  // Downsample buffer for visualization performance: one series per displayed channel
+  // (mono view averages the channels)
   const waveformData = useMemo(() => {
-    const rawData = buffer.getChannelData(0);
+    const channels = Array.from({ length: Math.min(2, buffer.numberOfChannels) }, (_, c) => buffer.getChannelData(c));
     const samples = 1000; // Total points to render
-    const blockSize = Math.floor(rawData.length / samples);
-    const data = [];
-    
-    for (let i = 0; i < samples; i++) {
-      let sum = 0;
-      const start = i * blockSize;
-      for (let j = 0; j < blockSize; j++) {
-        sum += Math.abs(rawData[start + j]);
+    const blockSize = Math.floor(channels[0].length / samples);
+
+    const downsample = (channelData: Float32Array[]) => {
+      const data = [];
+      for (let i = 0; i < samples; i++) {
+        let sum = 0;
+        const start = i * blockSize;
+        for (let j = 0; j < blockSize; j++) {
+          let value = 0;
+          for (const channel of channelData) value += channel[start + j];
+          sum += Math.abs(value / channelData.length);
+        }
+        data.push({ x: i, y: sum / blockSize });
       }
-      data.push({ x: i, y: sum / blockSize });
-    }
-    return data;
-  }, [buffer]);
+      return data;
+    };
+
+    return stereo && channels.length > 1
+      ? channels.map(channel => downsample([channel]))
+      : [downsample(channels)];
+  }, [buffer, stereo]);
 
   useEffect(() => {
     if (!svgRef.current || !containerRef.current) return;
 
-    const svg = d3.select(svgRef.current);
+    const svg = ensureLayers(svgRef.current);
     const width = containerRef.current.clientWidth;
     const height = 200;
     
     svg.attr("width", width).attr("height", height);
-    svg.selectAll("*").remove();
+    const root = svg.select<SVGGElement>("g.base-layer");
+    root.selectAll("*").remove();
 
     // Scales
     const xScale = d3.scaleLinear()
-      .domain([0, waveformData.length - 1])
+      .domain([0, waveformData[0].length - 1])
       .range([0, width]);
 
-    const yScale = d3.scaleLinear()
-      .domain([0, d3.max(waveformData, d => d.y) || 1])
-      .range([height, 0]);
+    // Stereo: each channel gets half the height, mirrored around the centre line
+    const isStereo = waveformData.length > 1;
+    const peak = d3.max(waveformData.flat(), d => d.y) || 1;
+    const baseline = isStereo ? height / 2 : height;
+    const yExtent = d3.scaleLinear().domain([0, peak]).range([0, baseline]);
 
-    // Waveform Area
-    const area = d3.area<{x: number, y: number}>()
+    // Waveform Area (channel 0 grows up from the baseline, channel 1 down)
+    const areaFor = (direction: 1 | -1) => d3.area<{x: number, y: number}>()
       .x(d => xScale(d.x))
-      .y0(height)
-      .y1(d => yScale(d.y))
+      .y0(baseline)
+      .y1(d => baseline - direction * yExtent(d.y))
       .curve(d3.curveMonotoneX);
 
     // Gradient
-    const gradient = svg.append("defs")
+    const gradient = root.append("defs")
       .append("linearGradient")
       .attr("id", "wave-gradient")
       .attr("x1", "0%")
@@ -74,38 +146,279 @@ const Waveform: React.FC<WaveformProps> = ({ buffer, markers, currentTime, onSee
       .attr("offset", "100%")
       .attr("stop-color", "#3b82f6"); // blue-500
 
+    // Song sections: coloured bands behind the waveform
+    if (sections && sections.length > 0) {
+      const timeToX = (t: number) => (t / buffer.duration) * width;
+      const bands = root.append("g").attr("class", "sections").attr("pointer-events", "none");
+
+      bands.selectAll(".section-band")
+        .data(sections)
+        .enter()
+        .append("rect")
+        .attr("class", "section-band")
+        .attr("x", d => timeToX(d.start))
+        .attr("width", d => Math.max(0, timeToX(d.end) - timeToX(d.start)))
+        .attr("y", 0)
+        .attr("height", height)
+        .attr("fill", d => SECTION_COLORS[d.label])
+        .attr("fill-opacity", 0.12);
+
+      bands.selectAll(".section-label")
+        .data(sections)
+        .enter()
+        .append("text")
+        .attr("class", "section-label")
+        .attr("x", d => timeToX(d.start) + 4)
+        .attr("y", 24)
+        .attr("fill", d => SECTION_COLORS[d.label])
+        .attr("font-size", 10)
+        .attr("font-weight", 600)
+        .text(d => d.label.toUpperCase());
+    }
+
     // Draw Waveform
-    svg.append("path")
-      .datum(waveformData)
-      .attr("fill", "url(#wave-gradient)")
-      .attr("opacity", 0.6)
-      .attr("d", area);
+    waveformData.forEach((channelData, c) => {
+      root.append("path")
+        .datum(channelData)
+        .attr("fill", "url(#wave-gradient)")
+        .attr("opacity", 0.6)
+        .attr("d", areaFor(c === 0 ? 1 : -1));
+    });
+
+    if (isStereo) {
+      root.append("line")
+        .attr("x1", 0)
+        .attr("x2", width)
+        .attr("y1", baseline)
+        .attr("y2", baseline)
+        .attr("stroke", "#475569") // slate-600
+        .attr("stroke-width", 1)
+        .attr("pointer-events", "none");
+      root.append("text").attr("x", width - 12).attr("y", 12).attr("fill", "#64748b").attr("font-size", 10).attr("pointer-events", "none").text("L");
+      root.append("text").attr("x", width - 12).attr("y", height - 10).attr("fill", "#64748b").attr("font-size", 10).attr("pointer-events", "none").text("R");
+    }
+
+    // Beat Grid: ticks for beats, faint lines and numbers for bars
+    if (beatGrid) {
+      const timeToX = (t: number) => (t / buffer.duration) * width;
+      const grid = root.append("g").attr("class", "beat-grid").attr("pointer-events", "none");
+
+      grid.selectAll(".beat-tick")
+        .data(beatGrid.beats.filter((_, i) => beatGrid.beatPositions[i] !== 0))
+        .enter()
+        .append("line")
+        .attr("class", "beat-tick")
+        .attr("x1", d => timeToX(d))
+        .attr("x2", d => timeToX(d))
+        .attr("y1", height - 6)
+        .attr("y2", height)
+        .attr("stroke", "#64748b") // slate-500
+        .attr("stroke-width", 1);
+
+      grid.selectAll(".bar-line")
+        .data(beatGrid.downbeats)
+        .enter()
+        .append("line")
+        .attr("class", "bar-line")
+        .attr("x1", d => timeToX(d))
+        .attr("x2", d => timeToX(d))
+        .attr("y1", 0)
+        .attr("y2", height)
+        .attr("stroke", "#94a3b8") // slate-400
+        .attr("stroke-opacity", 0.25)
+        .attr("stroke-width", 1);
+
+      // Label every 4th bar to avoid clutter
+      grid.selectAll(".bar-label")
+        .data(beatGrid.downbeats.map((time, bar) => ({ time, bar })).filter(d => d.bar % 4 === 0))
+        .enter()
+        .append("text")
+        .attr("class", "bar-label")
+        .attr("x", d => timeToX(d.time) + 3)
+        .attr("y", 10)
+        .attr("fill", "#94a3b8")
+        .attr("font-size", 9)
+        .attr("font-family", "monospace")
+        .text(d => d.bar + 1);
+    }
+
+    // Lyric lane: one pill per timed line just above the beat ticks
+    if (lyricLines && lyricLines.length > 0) {
+      const timeToX = (t: number) => (t / buffer.duration) * width;
+      const laneY = height - 26;
+      const lane = root.append("g").attr("class", "lyric-lane").attr("pointer-events", "none");
 
-    // Click to seek
+      const lines = lane.selectAll(".lyric-line")
+        .data(lyricLines)
+        .enter()
+        .append("g")
+        .attr("class", "lyric-line");
+
+      lines.append("rect")
+        .attr("x", d => timeToX(d.start))
+        .attr("y", laneY)
+        .attr("width", d => Math.max(1, timeToX(d.end) - timeToX(d.start) - 1))
+        .attr("height", 14)
+        .attr("rx", 3)
+        .attr("fill", "#ec4899") // pink-500
+        .attr("fill-opacity", 0.25);
+
+      // Truncate text to the pill width (~5.5px per character at 9px)
+      lines.append("text")
+        .attr("x", d => timeToX(d.start) + 3)
+        .attr("y", laneY + 10)
+        .attr("fill", "#fbcfe8") // pink-200
+        .attr("font-size", 9)
+        .text(d => {
+          const maxChars = Math.floor((timeToX(d.end) - timeToX(d.start) - 6) / 5.5);
+          if (maxChars < 3) return "";
+          return d.text.length > maxChars ? d.text.slice(0, maxChars - 1) + "…" : d.text;
+        });
+    }
+
+    // Click to seek (or add a marker / keyframe while editing)
     svg.on("click", (event) => {
-      const [x] = d3.pointer(event);
-      const percent = x / width;
-      onSeek(percent * buffer.duration);
+      const [x, y] = d3.pointer(event);
+      const time = (x / width) * buffer.duration;
+      const { editable, onAddMarker, curveEditable, onAddKeyframe, onSeek } = callbacksRef.current;
+      if (curveEditable && onAddKeyframe) {
+        const sensitivity = 1 - (y - CURVE_PADDING) / (height - 2 * CURVE_PADDING);
+        onAddKeyframe(time, Math.max(0, Math.min(1, sensitivity)));
+      } else if (editable && onAddMarker) {
+        onAddMarker(time);
+      } else {
+        onSeek(time);
+      }
     });
 
-  }, [waveformData, buffer.duration, onSeek]);
+  }, [waveformData, buffer.duration, beatGrid, sections, lyricLines]);
 
-  // Marker and Playhead Rendering (Done separately to avoid full re-render of path)
+  // Loudness / Vocal Overlay Rendering
   useEffect(() => {
       if (!svgRef.current || !containerRef.current) return;
       const width = containerRef.current.clientWidth;
       const height = 200;
-      const svg = d3.select(svgRef.current);
+      const layer = ensureLayers(svgRef.current).select<SVGGElement>("g.feature-layer");
+      layer.selectAll("*").remove();
+      if (!curves || curves.loudness.length === 0) return;
 
-      // Remove old overlays
-      svg.selectAll(".marker-line").remove();
-      svg.selectAll(".playhead").remove();
+      const timeToX = (t: number) => (t / buffer.duration) * width;
+      const indices = d3.range(curves.loudness.length);
+
+      // Vocal presence: a band rising from the bottom edge
+      layer.append("path")
+          .datum(indices)
+          .attr("fill", "#ec4899") // pink-500
+          .attr("fill-opacity", 0.3)
+          .attr("pointer-events", "none")
+          .attr("d", d3.area<number>()
+              .x(i => timeToX(i * curves.hop))
+              .y0(height)
+              .y1(i => height - curves.vocal[i] * VOCAL_BAND_HEIGHT)
+              .curve(d3.curveMonotoneX));
+
+      // Short-term loudness: the loudest point at the top, LOUDNESS_RANGE_DB below it at the bottom
+      const maxLoudness = d3.max(curves.loudness) ?? 0;
+      const loudnessToY = (lufs: number) => {
+          const value = Math.max(0, 1 + (lufs - maxLoudness) / LOUDNESS_RANGE_DB);
+          return CURVE_PADDING + (1 - value) * (height - 2 * CURVE_PADDING);
+      };
+      layer.append("path")
+          .datum(indices)
+          .attr("fill", "none")
+          .attr("stroke", "#fcd34d") // amber-300
+          .attr("stroke-width", 1.5)
+          .attr("stroke-opacity", 0.7)
+          .attr("pointer-events", "none")
+          .attr("d", d3.line<number>()
+              .x(i => timeToX(i * curves.hop))
+              .y(i => loudnessToY(curves.loudness[i]))
+              .curve(d3.curveMonotoneX));
+
+      // Legend
+      [["Loudness", "#fcd34d"], ["Vocals", "#ec4899"]].forEach(([label, color], i) => {
+          layer.append("text")
+              .attr("x", 4)
+              .attr("y", height - VOCAL_BAND_HEIGHT - 6 - i * 11)
+              .attr("fill", color)
+              .attr("font-size", "9px")
+              .attr("pointer-events", "none")
+              .text(label);
+      });
+
+  }, [curves, buffer.duration]);
+
+  // Cutdown Region Rendering
+  useEffect(() => {
+      if (!svgRef.current || !containerRef.current) return;
+      const width = containerRef.current.clientWidth;
+      const height = 200;
+      const layer = ensureLayers(svgRef.current).select<SVGGElement>("g.region-layer");
+      layer.selectAll("*").remove();
+      if (!region) return;
 
       const timeToX = (t: number) => (t / buffer.duration) * width;
+      const xToTime = (x: number) => (Math.max(0, Math.min(width, x)) / width) * buffer.duration;
+      const edges = { start: region.start, end: region.end };
+
+      const before = layer.append("rect").attr("y", 0).attr("height", height).attr("x", 0)
+          .attr("fill", "#020617").attr("fill-opacity", 0.65).attr("pointer-events", "none");
+      const after = layer.append("rect").attr("y", 0).attr("height", height)
+          .attr("fill", "#020617").attr("fill-opacity", 0.65).attr("pointer-events", "none");
+      const placeShading = () => {
+          before.attr("width", timeToX(edges.start));
+          after.attr("x", timeToX(edges.end)).attr("width", Math.max(0, width - timeToX(edges.end)));
+      };
+      placeShading();
+
+      // Edge handles: drag to move the in / out point
+      const drag = d3.drag<SVGRectElement, 'start' | 'end'>()
+          .on("drag", function (event, edge) {
+              const time = xToTime(event.x);
+              edges[edge] = edge === 'start'
+                  ? Math.min(time, edges.end - MIN_REGION_SECONDS)
+                  : Math.max(time, edges.start + MIN_REGION_SECONDS);
+              edges[edge] = Math.max(0, Math.min(buffer.duration, edges[edge]));
+              d3.select(this).attr("x", timeToX(edges[edge]) - 4);
+              placeShading();
+          })
+          .on("end", () => {
+              if (edges.start !== region.start || edges.end !== region.end) {
+                  callbacksRef.current.onRegionChange?.({ start: edges.start, end: edges.end });
+              }
+          });
+
+      layer.selectAll<SVGRectElement, 'start' | 'end'>(".region-edge")
+          .data<'start' | 'end'>(['start', 'end'])
+          .enter()
+          .append("rect")
+          .attr("class", "region-edge")
+          .attr("x", d => timeToX(edges[d]) - 4)
+          .attr("y", 0)
+          .attr("width", 8)
+          .attr("height", height)
+          .attr("fill", "#22d3ee") // cyan-400
+          .attr("fill-opacity", 0.35)
+          .style("cursor", "ew-resize")
+          .on("click", (event) => event.stopPropagation())
+          .call(drag);
+
+  }, [region, buffer.duration]);
+
+  // Marker Rendering (Done separately to avoid full re-render of path)
+  useEffect(() => {
+      if (!svgRef.current || !containerRef.current) return;
+      const width = containerRef.current.clientWidth;
+      const height = 200;
+      const layer = ensureLayers(svgRef.current).select<SVGGElement>("g.marker-layer");
+      layer.selectAll("*").remove();
+
+      const timeToX = (t: number) => (t / buffer.duration) * width;
+      const xToTime = (x: number) => (Math.max(0, Math.min(width, x)) / width) * buffer.duration;
 
       // Draw Markers
-      svg.selectAll(".marker-line")
-          .data(markers)
+      layer.selectAll(".marker-line")
+          .data(markers, (d: any) => d.id)
           .enter()
           .append("line")
           .attr("class", "marker-line")
@@ -115,23 +428,196 @@ const Waveform: React.FC<WaveformProps> = ({ buffer, markers, currentTime, onSee
           .attr("y2", height)
           .attr("stroke", d => d.type === 'Safety' ? "#f43f5e" : "#fbbf24") // Rose for safety, Amber for cut
           .attr("stroke-width", 2)
-          .attr("stroke-dasharray", d => d.type === 'Safety' ? "4 2" : "none");
+          .attr("stroke-dasharray", d => d.type === 'Safety' ? "4 2" : "none")
+          .attr("pointer-events", "none");
+
+      // Pin heads on locked markers
+      layer.selectAll(".marker-pin")
+          .data(markers.filter(m => m.pinned), (d: any) => d.id)
+          .enter()
+          .append("circle")
+          .attr("class", "marker-pin")
+          .attr("cx", d => timeToX(d.time))
+          .attr("cy", 5)
+          .attr("r", 4)
+          .attr("fill", "#38bdf8") // sky-400
+          .attr("pointer-events", "none");
+
+      if (!editable) return;
+
+      // Wide invisible handles: drag to move, double-click to toggle Cut/Safety,
+      // shift-click to pin, right-click to delete
+      const moveLine = (id: string, x: number) => {
+          layer.selectAll<SVGLineElement, Marker>("line")
+              .filter(m => m.id === id)
+              .attr("x1", x)
+              .attr("x2", x);
+          layer.selectAll<SVGCircleElement, Marker>(".marker-pin")
+              .filter(m => m.id === id)
+              .attr("cx", x);
+      };
 
-      // Draw Playhead
-      svg.append("line")
+      const drag = d3.drag<SVGLineElement, Marker>()
+          .subject((_, d) => ({ x: timeToX(d.time), y: 0 }))
+          .on("drag", (event, d) => moveLine(d.id, Math.max(0, Math.min(width, event.x))))
+          .on("end", (event, d) => {
+              const time = xToTime(event.x);
+              if (Math.abs(time - d.time) > 0.001) {
+                  callbacksRef.current.onMoveMarker?.(d.id, time);
+              }
+          });
+
+      layer.selectAll<SVGLineElement, Marker>(".marker-handle")
+          .data(markers, (d: any) => d.id)
+          .enter()
+          .append("line")
+          .attr("class", "marker-handle")
+          .attr("x1", d => timeToX(d.time))
+          .attr("x2", d => timeToX(d.time))
+          .attr("y1", 0)
+          .attr("y2", height)
+          .attr("stroke", "transparent")
+          .attr("stroke-width", 10)
+          .style("cursor", "ew-resize")
+          .on("click", (event, d) => {
+              event.stopPropagation();
+              if (event.shiftKey) callbacksRef.current.onTogglePin?.(d.id);
+          })
+          .on("dblclick", (event, d) => {
+              event.stopPropagation();
+              callbacksRef.current.onToggleMarkerType?.(d.id);
+          })
+          .on("contextmenu", (event, d) => {
+              event.preventDefault();
+              event.stopPropagation();
+              callbacksRef.current.onDeleteMarker?.(d.id);
+          })
+          .call(drag);
+
+  }, [markers, buffer.duration, editable]);
+
+  // Density Curve Rendering
+  useEffect(() => {
+      if (!svgRef.current || !containerRef.current) return;
+      const width = containerRef.current.clientWidth;
+      const height = 200;
+      const layer = ensureLayers(svgRef.current).select<SVGGElement>("g.curve-layer");
+      layer.selectAll("*").remove();
+      if (!densityCurve || densityCurve.length === 0) return;
+
+      const timeToX = (t: number) => (t / buffer.duration) * width;
+      const xToTime = (x: number) => (Math.max(0, Math.min(width, x)) / width) * buffer.duration;
+      const valueToY = (v: number) => CURVE_PADDING + (1 - v) * (height - 2 * CURVE_PADDING);
+      const yToValue = (y: number) => Math.max(0, Math.min(1, 1 - (y - CURVE_PADDING) / (height - 2 * CURVE_PADDING)));
+
+      // Working copy so the line follows a keyframe while it is dragged
+      const points = densityCurve.map(k => ({ ...k }));
+
+      // Held flat before the first and after the last keyframe
+      const line = d3.line<{ time: number, sensitivity: number }>()
+          .x(d => timeToX(d.time))
+          .y(d => valueToY(d.sensitivity));
+      const linePoints = () => {
+          const sorted = [...points].sort((a, b) => a.time - b.time);
+          return [
+              { time: 0, sensitivity: sorted[0].sensitivity },
+              ...sorted,
+              { time: buffer.duration, sensitivity: sorted[sorted.length - 1].sensitivity }
+          ];
+      };
+
+      const path = layer.append("path")
+          .attr("fill", "none")
+          .attr("stroke", "#34d399") // emerald-400
+          .attr("stroke-width", 2)
+          .attr("opacity", curveEditable ? 0.9 : 0.5)
+          .attr("pointer-events", "none")
+          .attr("d", line(linePoints()));
+
+      // Regions with their own min/max
+      layer.selectAll(".curve-region-label")
+          .data(points.filter(k => k.minDuration !== undefined || k.maxDuration !== undefined))
+          .enter()
+          .append("text")
+          .attr("class", "curve-region-label")
+          .attr("x", d => timeToX(d.time) + 6)
+          .attr("y", d => valueToY(d.sensitivity) - 6)
+          .attr("fill", "#6ee7b7") // emerald-300
+          .attr("font-size", 9)
+          .attr("pointer-events", "none")
+          .text(d => `${d.minDuration ?? '–'}s / ${d.maxDuration ?? '–'}s`);
+
+      // Keyframes: drag to move, right-click to delete
+      const drag = d3.drag<SVGCircleElement, DensityKeyframe>()
+          .subject((_, d) => ({ x: timeToX(d.time), y: valueToY(d.sensitivity) }))
+          .on("drag", function (event, d) {
+              const x = Math.max(0, Math.min(width, event.x));
+              const y = Math.max(CURVE_PADDING, Math.min(height - CURVE_PADDING, event.y));
+              d3.select(this).attr("cx", x).attr("cy", y);
+              const point = points.find(p => p.id === d.id)!;
+              point.time = xToTime(x);
+              point.sensitivity = yToValue(y);
+              path.attr("d", line(linePoints()));
+          })
+          .on("end", (event, d) => {
+              const point = points.find(p => p.id === d.id)!;
+              if (Math.abs(point.time - d.time) > 0.001 || Math.abs(point.sensitivity - d.sensitivity) > 0.001) {
+                  callbacksRef.current.onMoveKeyframe?.(d.id, point.time, point.sensitivity);
+              }
+          });
+
+      const handles = layer.selectAll<SVGCircleElement, DensityKeyframe>(".curve-keyframe")
+          .data(densityCurve, (d: any) => d.id)
+          .enter()
+          .append("circle")
+          .attr("class", "curve-keyframe")
+          .attr("cx", d => timeToX(d.time))
+          .attr("cy", d => valueToY(d.sensitivity))
+          .attr("r", curveEditable ? 5 : 3)
+          .attr("fill", "#10b981") // emerald-500
+          .attr("stroke", "#022c22")
+          .attr("stroke-width", 1)
+          .attr("pointer-events", curveEditable ? "all" : "none");
+
+      if (!curveEditable) return;
+
+      handles
+          .style("cursor", "move")
+          .on("click", (event) => event.stopPropagation())
+          .on("contextmenu", (event, d) => {
+              event.preventDefault();
+              event.stopPropagation();
+              callbacksRef.current.onDeleteKeyframe?.(d.id);
+          })
+          .call(drag);
+
+  }, [densityCurve, curveEditable, buffer.duration]);
+
+  // Playhead Rendering
+  useEffect(() => {
+      if (!svgRef.current || !containerRef.current) return;
+      const width = containerRef.current.clientWidth;
+      const height = 200;
+      const layer = ensureLayers(svgRef.current).select<SVGGElement>("g.playhead-layer");
+      layer.selectAll("*").remove();
+
+      const timeToX = (t: number) => (t / buffer.duration) * width;
+
+      layer.append("line")
           .attr("class", "playhead")
           .attr("x1", timeToX(currentTime))
           .attr("x2", timeToX(currentTime))
           .attr("y1", 0)
           .attr("y2", height)
           .attr("stroke", "#ffffff")
-          .attr("stroke-width", 2);
+          .attr("stroke-width", 2)
+          .attr("pointer-events", "none");
 
-  }, [markers, currentTime, buffer.duration]);
+  }, [currentTime, buffer.duration]);
 
   return (
     <div ref={containerRef} className="w-full bg-slate-900 rounded-lg overflow-hidden shadow-inner border border-slate-800">
-      <svg ref={svgRef} className="w-full h-[200px] cursor-pointer"></svg>
+      <svg ref={svgRef} className={`w-full h-[200px] ${editable || curveEditable ? 'cursor-crosshair' : 'cursor-pointer'}`}></svg>
     </div>
   );
 };
@@ -0,0 +1,111 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { ClickEvent, ClickKind } from '../types';
+import { synthesizeClick } from '../services/clickTrackService';
+
+// Lookahead scheduling: every tick, clicks due within the next window are queued on the AudioContext clock
+const SCHEDULER_INTERVAL_MS = 25;
+const LOOKAHEAD_SECONDS = 0.1;
+
+// A jump in the song position larger than this (or any jump back) is a seek
+const SEEK_TOLERANCE_SECONDS = 0.25;
+
+interface UseClickTrackOptions {
+  audioRef: RefObject<HTMLAudioElement | null>;
+  isPlaying: boolean;
+  enabled: boolean;
+  events: ClickEvent[];
+  volume: number;
+}
+
+/**
+ * Plays clicks over the <audio> element's playback with Web Audio.
+ * The song position is read from the element each tick and mapped onto the AudioContext clock,
+ * so seeking, pausing and edits to the markers take effect within one lookahead window.
+ */
+export const useClickTrack = ({ audioRef, isPlaying, enabled, events, volume }: UseClickTrackOptions): void => {
+  const contextRef = useRef<AudioContext | null>(null);
+  const gainRef = useRef<GainNode | null>(null);
+  const buffersRef = useRef<Map<ClickKind, AudioBuffer>>(new Map());
+
+  // Refs so the running scheduler always sees the latest values without restarting
+  const eventsRef = useRef(events);
+  eventsRef.current = events;
+
+  useEffect(() => {
+    if (gainRef.current) gainRef.current.gain.value = volume;
+  }, [volume]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!enabled || !isPlaying || !audio) return;
+
+    if (!contextRef.current) {
+      const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const gain = context.createGain();
+      gain.connect(context.destination);
+      contextRef.current = context;
+      gainRef.current = gain;
+    }
+    const context = contextRef.current;
+    const gain = gainRef.current!;
+    gain.gain.value = volume;
+    context.resume();
+
+    const clickBuffer = (kind: ClickKind): AudioBuffer => {
+      let buffer = buffersRef.current.get(kind);
+      if (!buffer) {
+        const samples = synthesizeClick(kind, context.sampleRate);
+        buffer = context.createBuffer(1, samples.length, context.sampleRate);
+        buffer.getChannelData(0).set(samples);
+        buffersRef.current.set(kind, buffer);
+      }
+      return buffer;
+    };
+
+    const scheduled = new Set<AudioBufferSourceNode>();
+    const stopScheduled = () => {
+      scheduled.forEach(source => source.stop());
+      scheduled.clear();
+    };
+
+    // Song time up to which clicks have been queued
+    let scheduledUntil = audio.currentTime;
+    let lastSongTime = audio.currentTime;
+
+    const tick = () => {
+      const songTime = audio.currentTime;
+      if (songTime < lastSongTime || songTime > scheduledUntil + SEEK_TOLERANCE_SECONDS) {
+        stopScheduled();
+        scheduledUntil = songTime;
+      }
+      lastSongTime = songTime;
+
+      const rate = audio.playbackRate || 1;
+      const windowEnd = songTime + LOOKAHEAD_SECONDS * rate;
+      eventsRef.current.forEach(event => {
+        if (event.time < scheduledUntil || event.time >= windowEnd) return;
+        const source = context.createBufferSource();
+        source.buffer = clickBuffer(event.kind);
+        source.connect(gain);
+        source.onended = () => scheduled.delete(source);
+        source.start(context.currentTime + Math.max(0, (event.time - songTime) / rate));
+        scheduled.add(source);
+      });
+      scheduledUntil = Math.max(scheduledUntil, windowEnd);
+    };
+
+    tick();
+    const interval = window.setInterval(tick, SCHEDULER_INTERVAL_MS);
+    return () => {
+      window.clearInterval(interval);
+      stopScheduled();
+    };
+  }, [enabled, isPlaying, audioRef]);
+
+  // Release the context with the component
+  useEffect(() => () => {
+    contextRef.current?.close();
+    contextRef.current = null;
+    buffersRef.current.clear();
+  }, []);
+};
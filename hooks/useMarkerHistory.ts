@@ -0,0 +1,84 @@
+import { useCallback, useRef, useState } from 'react';
+import { Marker } from '../types';
+
+const MAX_HISTORY = 100;
+
+interface UseMarkerHistoryReturn {
+  applyEdit: (next: Marker[]) => void;
+  replaceGenerated: (next: Marker[]) => void;
+  undo: () => void;
+  redo: () => void;
+  clearHistory: (currentIsManual?: boolean) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Undo/redo for marker edits.
+ * Manual edits are always recorded. Regeneration (slider changes) is only recorded
+ * when it would overwrite manual edits, so dragging a slider doesn't flood the stack.
+ */
+export const useMarkerHistory = (
+  markers: Marker[],
+  setMarkers: (markers: Marker[]) => void
+): UseMarkerHistoryReturn => {
+  const [past, setPast] = useState<Marker[][]>([]);
+  const [future, setFuture] = useState<Marker[][]>([]);
+
+  // Refs so callbacks always see the latest values without re-subscribing
+  const markersRef = useRef(markers);
+  markersRef.current = markers;
+  const editedRef = useRef(false);
+
+  const pushPast = (snapshot: Marker[]) => {
+    setPast(prev => [...prev, snapshot].slice(-MAX_HISTORY));
+    setFuture([]);
+  };
+
+  const applyEdit = useCallback((next: Marker[]) => {
+    pushPast(markersRef.current);
+    editedRef.current = true;
+    setMarkers(next);
+  }, [setMarkers]);
+
+  const replaceGenerated = useCallback((next: Marker[]) => {
+    if (editedRef.current && markersRef.current.length > 0) {
+      pushPast(markersRef.current);
+    }
+    editedRef.current = false;
+    setMarkers(next);
+  }, [setMarkers]);
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+    setFuture(prev => [markersRef.current, ...prev]);
+    setPast(prev => prev.slice(0, -1));
+    editedRef.current = true;
+    setMarkers(past[past.length - 1]);
+  }, [past, setMarkers]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+    setPast(prev => [...prev, markersRef.current]);
+    setFuture(prev => prev.slice(1));
+    editedRef.current = true;
+    setMarkers(future[0]);
+  }, [future, setMarkers]);
+
+  // currentIsManual: the markers now on screen may hold manual edits (e.g. a loaded project)
+  const clearHistory = useCallback((currentIsManual: boolean = false) => {
+    setPast([]);
+    setFuture([]);
+    editedRef.current = currentIsManual;
+  }, []);
+
+  return {
+    applyEdit,
+    replaceGenerated,
+    undo,
+    redo,
+    clearHistory,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0
+  };
+};
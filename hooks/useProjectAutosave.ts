@@ -1,6 +1,6 @@
 import { useEffect, useRef, useCallback, useState, useMemo } from 'react';
 import { saveProject, loadProject, generateProjectName, renameProject as renameProjectService } from '../services/projectStorageService';
-import { AudioState, AudioAnalysis, Marker, OnsetData, AspectRatio, VideoPlan, StoryboardFrame, VideoClip, HierarchyTree } from '../types';
+import { AudioState, AudioAnalysis, Marker, OnsetData, BandWeights, ChannelMode, DensityCurve, TimeRegion, MarkerMode, GridMarkerOptions, SongSection, HarmonyAnalysis, LyricLine, LyricSource, AspectRatio, VideoPlan, StoryboardFrame, VideoClip, HierarchyTree, SoundtrackCodec, GapFillMode, ProviderSelection, UsageRecord } from '../types';
 
 interface UseProjectAutosaveOptions {
   enabled: boolean;
@@ -17,6 +17,16 @@ interface UseProjectAutosaveOptions {
   maxDuration: number;
   customCount: string;
   useCustomCount: boolean;
+  bandWeights?: BandWeights;
+  channelMode?: ChannelMode;
+  densityCurve?: DensityCurve;
+  region?: TimeRegion | null;
+  markerMode?: MarkerMode;
+  gridOptions?: GridMarkerOptions;
+  songSections?: SongSection[];
+  harmony?: HarmonyAnalysis | null;
+  lyricLines?: LyricLine[];
+  lyricSource?: LyricSource;
 
   // Phase 2 State
   aspectRatio?: AspectRatio;
@@ -30,6 +40,15 @@ interface UseProjectAutosaveOptions {
   // Phase 3 State
   videoClips?: VideoClip[];
   finalVideoBlob?: Blob | null;
+  soundtrackCodec?: SoundtrackCodec;
+  gapFillMode?: GapFillMode;
+
+  // AI Providers
+  providers?: ProviderSelection;
+
+  // Cost tracking
+  usage?: UsageRecord[];
+  budget?: number | null;
 }
 
 interface UseProjectAutosaveReturn {
@@ -91,6 +110,16 @@ export const useProjectAutosave = (options: UseProjectAutosaveOptions): UseProje
         maxDuration: opts.maxDuration,
         customCount: opts.customCount,
         useCustomCount: opts.useCustomCount,
+        bandWeights: opts.bandWeights,
+        channelMode: opts.channelMode,
+        densityCurve: opts.densityCurve,
+        region: opts.region,
+        markerMode: opts.markerMode,
+        gridOptions: opts.gridOptions,
+        songSections: opts.songSections,
+        harmony: opts.harmony || undefined,
+        lyricLines: opts.lyricLines,
+        lyricSource: opts.lyricSource,
 
         aspectRatio: opts.aspectRatio,
         visualStyle: opts.visualStyle,
@@ -102,6 +131,13 @@ export const useProjectAutosave = (options: UseProjectAutosaveOptions): UseProje
         // Phase 3 Data
         videoClips: opts.videoClips,
         finalVideoBlob: opts.finalVideoBlob || undefined,
+        soundtrackCodec: opts.soundtrackCodec,
+        gapFillMode: opts.gapFillMode,
+
+        providers: opts.providers,
+
+        usage: opts.usage,
+        budget: opts.budget,
       });
 
       setLastSaved(new Date());
@@ -143,6 +179,16 @@ export const useProjectAutosave = (options: UseProjectAutosaveOptions): UseProje
       maxDuration: options.maxDuration,
       customCount: options.customCount,
       useCustomCount: options.useCustomCount,
+      bandWeights: options.bandWeights,
+      channelMode: options.channelMode,
+      densityCurve: options.densityCurve,
+      region: options.region,
+      markerMode: options.markerMode,
+      gridOptions: options.gridOptions,
+      songSections: options.songSections,
+      harmony: options.harmony || undefined,
+      lyricLines: options.lyricLines,
+      lyricSource: options.lyricSource,
       aspectRatio: options.aspectRatio,
       visualStyle: options.visualStyle,
       useConceptualMode: options.useConceptualMode,
@@ -150,6 +196,11 @@ export const useProjectAutosave = (options: UseProjectAutosaveOptions): UseProje
       storyboardCount: options.storyboard?.length || 0,
       videoClipsCount: options.videoClips?.length || 0,
       hasFinalVideo: !!options.finalVideoBlob,
+      soundtrackCodec: options.soundtrackCodec,
+      gapFillMode: options.gapFillMode,
+      providers: options.providers,
+      usageCount: options.usage?.length || 0,
+      budget: options.budget,
     });
 
     // Skip if state hasn't changed
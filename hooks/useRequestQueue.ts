@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { SchedulerSnapshot, getSchedulerSnapshot, subscribeToScheduler } from '../services/requestScheduler';
+
+/**
+ * Live view of the request scheduler: lanes with their load and limits, and every queued or running job.
+ * Re-renders only when a job is queued, starts, finishes or is cancelled.
+ */
+export const useRequestQueue = (): SchedulerSnapshot =>
+  useSyncExternalStore(subscribeToScheduler, getSchedulerSnapshot);
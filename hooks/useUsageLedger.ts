@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { UsageSnapshot, getUsageSnapshot, subscribeToUsage } from '../services/usageService';
+
+/**
+ * The open project's usage records, budget and total spend; re-renders whenever a request is recorded
+ */
+export const useUsageLedger = (): UsageSnapshot =>
+  useSyncExternalStore(subscribeToUsage, getUsageSnapshot);
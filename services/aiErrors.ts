@@ -0,0 +1,164 @@
+import { AIErrorKind } from '../types';
+
+/**
+ * Base class for failed AI requests; `kind` decides how the retry policy treats it
+ */
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number; // Server-suggested wait, when the response carried one
+  readonly retryable?: boolean;   // Overrides the kind's retry policy for this one error
+
+  constructor(kind: AIErrorKind, message: string, provider: string, options: { status?: number; retryAfterMs?: number; retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.kind = kind;
+    this.provider = provider;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = options.retryable;
+  }
+}
+
+type AIErrorOptions = ConstructorParameters<typeof AIError>[3];
+
+export class SafetyBlockedError extends AIError {
+  constructor(message: string, provider: string, options?: AIErrorOptions) {
+    super('safety-blocked', message, provider, options);
+  }
+}
+
+export class RateLimitedError extends AIError {
+  constructor(message: string, provider: string, options?: AIErrorOptions) {
+    super('rate-limited', message, provider, options);
+  }
+}
+
+export class QuotaExceededError extends AIError {
+  constructor(message: string, provider: string, options?: AIErrorOptions) {
+    super('quota-exceeded', message, provider, options);
+  }
+}
+
+export class AuthError extends AIError {
+  constructor(message: string, provider: string, options?: AIErrorOptions) {
+    super('auth', message, provider, options);
+  }
+}
+
+export class NetworkError extends AIError {
+  constructor(message: string, provider: string, options?: AIErrorOptions) {
+    super('network', message, provider, options);
+  }
+}
+
+export class InvalidResponseError extends AIError {
+  constructor(message: string, provider: string, options?: AIErrorOptions) {
+    super('invalid-response', message, provider, options);
+  }
+}
+
+export class TimeoutError extends AIError {
+  constructor(message: string, provider: string, options?: AIErrorOptions) {
+    super('timeout', message, provider, options);
+  }
+}
+
+// Raised before a request would take the project past its budget; nothing was sent
+export class BudgetExceededError extends AIError {
+  constructor(message: string, provider: string, options?: AIErrorOptions) {
+    super('budget-exceeded', message, provider, options);
+  }
+}
+
+// Short cause shown on frame cards and clips
+export const AI_ERROR_LABELS: Record<AIErrorKind, string> = {
+  'safety-blocked': 'Blocked by safety filter',
+  'rate-limited': 'Rate limited',
+  'quota-exceeded': 'Quota exceeded',
+  'auth': 'Authentication failed',
+  'network': 'Network error',
+  'invalid-response': 'Invalid response',
+  'timeout': 'Timed out',
+  'budget-exceeded': 'Budget reached',
+  'unknown': 'Failed'
+};
+
+const SAFETY_PATTERN = /safety|blocked|prohibited|content[ _]policy|moderation|nsfw|harm_category/i;
+// Per-minute quota hits are rate limits; only per-day quota IDs and an empty balance mean the account is out of allowance
+// (Gemini's ordinary 429 body mentions "plan and billing details", so billing alone proves nothing)
+const HARD_QUOTA_PATTERN = /per[ _]?day|insufficient.*(credit|balance)|exhausted.*balance|locked.*balance/i;
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests|RESOURCE_EXHAUSTED|quota/i;
+const AUTH_PATTERN = /api[ _]?key|unauthori[sz]ed|permission denied|forbidden|credentials|not found in environment/i;
+const NETWORK_PATTERN = /failed to fetch|network|ECONNRESET|ECONNREFUSED|ENOTFOUND|socket hang up|load failed/i;
+const TIMEOUT_PATTERN = /timed? ?out|deadline/i;
+
+const readRetryAfter = (error: any): number | undefined => {
+  const header = error?.headers?.get?.('retry-after') ?? error?.response?.headers?.get?.('retry-after');
+  const seconds = header !== undefined && header !== null ? parseFloat(header) : NaN;
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  // Gemini puts the hint in the message body: "Please retry in 12.3s"
+  const match = String(error?.message ?? '').match(/retry in ([\d.]+)s/i);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+};
+
+/**
+ * Map anything a provider SDK, fetch or our own code threw onto the taxonomy
+ * Both the Gemini and fal clients expose the HTTP status as `status`; the message decides the rest
+ */
+export const classifyError = (error: unknown, provider: string): AIError => {
+  if (error instanceof AIError) return error;
+
+  const err = error as any;
+  const message = String(err?.message ?? error ?? 'Unknown error');
+  const body = err?.body ? JSON.stringify(err.body) : '';
+  const text = `${message} ${body}`;
+  const status: number | undefined = typeof err?.status === 'number' ? err.status : undefined;
+  const options = { status, retryAfterMs: readRetryAfter(err), cause: error };
+
+  if (err instanceof SyntaxError) return new InvalidResponseError(`Malformed response: ${message}`, provider, options);
+  if (err?.name === 'AbortError' || status === 408 || status === 504 || TIMEOUT_PATTERN.test(message)) {
+    return new TimeoutError(message, provider, options);
+  }
+  if (status === 402) return new QuotaExceededError(message, provider, options);
+  if (status === 429 || RATE_LIMIT_PATTERN.test(text)) {
+    return HARD_QUOTA_PATTERN.test(text)
+      ? new QuotaExceededError(message, provider, options)
+      : new RateLimitedError(message, provider, options);
+  }
+  // fal answers an exhausted balance with a 403, so this goes before the auth check
+  if (HARD_QUOTA_PATTERN.test(text)) return new QuotaExceededError(message, provider, options);
+  if (status === 401 || status === 403 || AUTH_PATTERN.test(message)) return new AuthError(message, provider, options);
+  if (SAFETY_PATTERN.test(text)) return new SafetyBlockedError(message, provider, options);
+  if ((status !== undefined && status >= 500) || NETWORK_PATTERN.test(message)) return new NetworkError(message, provider, options);
+  if (status === 400 || status === 422) return new InvalidResponseError(message, provider, options);
+
+  return new AIError('unknown', message, provider, options);
+};
+
+/**
+ * Reject with a TimeoutError if the request takes longer than `ms`
+ * (the underlying request keeps running; its result is ignored)
+ */
+export const withDeadline = async <T>(promise: Promise<T>, ms: number, provider: string, what: string): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(`${what} timed out after ${Math.round(ms / 1000)}s`, provider)), ms);
+  });
+  try {
+    return await Promise.race([promise, deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const errorKindOf = (error: unknown): AIErrorKind =>
+  error instanceof AIError ? error.kind : 'unknown';
+
+// "Rate limited: Resource has been exhausted ..." for frame cards, clips and alerts
+export const describeError = (error: unknown): string => {
+  const kind = errorKindOf(error);
+  const message = error instanceof Error ? error.message : String(error);
+  return kind === 'unknown' ? message : `${AI_ERROR_LABELS[kind]}: ${message}`;
+};
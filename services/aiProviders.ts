@@ -0,0 +1,113 @@
+import type { Schema } from "@google/genai";
+import { AspectRatio, ImageProviderId, ProviderSelection, TextProviderId, VideoProviderId } from "../types";
+import { geminiTextProvider, geminiImageProvider } from "./geminiProvider";
+import { klingVideoProvider } from "./klingService";
+import { mockTextProvider, mockImageProvider, mockVideoProvider } from "./mockProvider";
+
+// What a request is for; lets providers pick models and the mock provider shape its output
+export type TextTask =
+  | 'audio-analysis'
+  | 'narrative'
+  | 'shot-adjust'
+  | 'hierarchy'
+  | 'transformation'
+  | 'edit-instructions'
+  | 'sanitize'
+  | 'plan-repair'
+  | 'hierarchy-repair';
+
+export type ImageTask = 'character-sheet' | 'location' | 'first-frame' | 'next-frame' | 'frame-from-parent';
+
+// Base64 payload sent alongside a prompt (audio for analysis, JPEGs for vision and edits)
+export interface InlineMedia {
+  mimeType: string;
+  data: string;
+}
+
+export interface TextRequest {
+  task: TextTask;
+  prompt: string;
+  media?: InlineMedia[];
+  schema?: Schema;     // When set, the response is JSON matching this schema
+  thinking?: boolean;  // Ask for extended reasoning where the model supports it
+}
+
+export interface ImageRequest {
+  task: ImageTask;
+  prompt: string;
+  images: string[];    // Base64 JPEG references, in the order the prompt names them
+  aspectRatio: AspectRatio;
+}
+
+export interface VideoGenerationInput {
+  prompt: string;
+  firstFrameBase64: string;
+  lastFrameBase64?: string;
+  duration: '5' | '10';
+  negativePrompt?: string;
+  cfgScale?: number;
+}
+
+export interface VideoGenerationResult {
+  videoUrl: string;
+}
+
+export interface VideoQueueStatus {
+  status: 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
+  logs?: { message: string }[];
+}
+
+export interface TextProvider {
+  id: TextProviderId;
+  label: string;
+  generateText: (request: TextRequest) => Promise<string>;
+  // Estimated USD for a call of this size, for pre-run estimates
+  estimateCost: (inputTokens: number, outputTokens: number) => number;
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  // Base64 image, or null when the model returned no image
+  generateImage: (request: ImageRequest) => Promise<string | null>;
+  estimateCost: (images: number) => number;
+}
+
+export interface VideoProvider {
+  id: VideoProviderId;
+  label: string;
+  generateVideo: (input: VideoGenerationInput, onProgress?: (status: VideoQueueStatus) => void) => Promise<VideoGenerationResult>;
+  estimateCost: (duration: VideoGenerationInput['duration']) => number;
+}
+
+export const DEFAULT_PROVIDERS: ProviderSelection = { text: 'gemini', image: 'gemini', video: 'kling' };
+
+const TEXT_PROVIDERS: Record<TextProviderId, TextProvider> = {
+  gemini: geminiTextProvider,
+  mock: mockTextProvider
+};
+
+const IMAGE_PROVIDERS: Record<ImageProviderId, ImageProvider> = {
+  gemini: geminiImageProvider,
+  mock: mockImageProvider
+};
+
+const VIDEO_PROVIDERS: Record<VideoProviderId, VideoProvider> = {
+  kling: klingVideoProvider,
+  mock: mockVideoProvider
+};
+
+export const listTextProviders = (): TextProvider[] => Object.values(TEXT_PROVIDERS);
+export const listImageProviders = (): ImageProvider[] => Object.values(IMAGE_PROVIDERS);
+export const listVideoProviders = (): VideoProvider[] => Object.values(VIDEO_PROVIDERS);
+
+// The open project's choice; each request reads it when it starts
+let activeProviders: ProviderSelection = DEFAULT_PROVIDERS;
+
+export const setActiveProviders = (selection: ProviderSelection) => {
+  activeProviders = selection;
+};
+
+export const getTextProvider = (): TextProvider => TEXT_PROVIDERS[activeProviders.text];
+export const getImageProvider = (): ImageProvider => IMAGE_PROVIDERS[activeProviders.image];
+export const getVideoProvider = (): VideoProvider => VIDEO_PROVIDERS[activeProviders.video];
@@ -0,0 +1,272 @@
+import { AnalysisProgress, AudioCurves, BeatGrid, ChannelMode, HarmonyAnalysis, MarkerGenerationResult, MarkerSettings, OnsetData, PcmAudio, SongSection } from "../types";
+import { computeOnsetEnvelope, generateMarkersForSettings } from "./audioProcessingService";
+import { analyzeSongStructure } from "./structureAnalysisService";
+import { computeAudioCurves } from "./audioCurvesService";
+import { analyzeHarmony } from "./harmonyAnalysisService";
+
+// Shares of the progress bar spent on onset detection, the loudness / vocal curves and
+// structure analysis (the rest is harmony analysis)
+const ONSET_PROGRESS_SHARE = 0.5;
+const CURVES_PROGRESS_SHARE = 0.15;
+const STRUCTURE_PROGRESS_SHARE = 0.2;
+
+export interface AudioAnalysisResult {
+  onsetData: OnsetData;
+  sections: SongSection[];
+  harmony: HarmonyAnalysis;
+}
+
+// Messages to and from services/analysisWorker.ts
+export type AnalysisWorkerRequest =
+  | { type: 'analyze', id: number, audio: PcmAudio, channelMode: ChannelMode }
+  | { type: 'structure', id: number, audio: PcmAudio, beatGrid?: BeatGrid | null, channelMode: ChannelMode }
+  | { type: 'curves', id: number, audio: PcmAudio }
+  | { type: 'harmony', id: number, audio: PcmAudio, beatGrid?: BeatGrid | null, sections: SongSection[], channelMode: ChannelMode }
+  | { type: 'markers', id: number, onsetData?: OnsetData, settings: MarkerSettings, duration: number };
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress', id: number, progress: AnalysisProgress }
+  | { type: 'analysis', id: number, result: AudioAnalysisResult }
+  | { type: 'structure', id: number, sections: SongSection[] }
+  | { type: 'curves', id: number, curves: AudioCurves }
+  | { type: 'harmony', id: number, harmony: HarmonyAnalysis }
+  | { type: 'markers', id: number, result: MarkerGenerationResult }
+  | { type: 'error', id: number, message: string };
+
+/**
+ * Onset envelope, beat grid, loudness / vocal curves, song structure and harmony for a decoded track
+ * Runs inside the worker, or inline where workers aren't available (e.g. Node)
+ */
+export const runAudioAnalysis = (
+  audio: PcmAudio,
+  channelMode: ChannelMode,
+  onProgress?: (progress: AnalysisProgress) => void
+): AudioAnalysisResult => {
+  const onsetData = computeOnsetEnvelope(audio, channelMode, undefined, fraction =>
+    onProgress?.({ stage: 'onsets', fraction: fraction * ONSET_PROGRESS_SHARE })
+  );
+  const curves = computeAudioCurves(audio, fraction =>
+    onProgress?.({ stage: 'curves', fraction: ONSET_PROGRESS_SHARE + fraction * CURVES_PROGRESS_SHARE })
+  );
+  const structureStart = ONSET_PROGRESS_SHARE + CURVES_PROGRESS_SHARE;
+  const sections = analyzeSongStructure(audio, onsetData.beatGrid, channelMode, fraction =>
+    onProgress?.({ stage: 'structure', fraction: structureStart + fraction * STRUCTURE_PROGRESS_SHARE })
+  );
+  const harmonyStart = structureStart + STRUCTURE_PROGRESS_SHARE;
+  const harmony = analyzeHarmony(audio, onsetData.beatGrid, sections, channelMode, fraction =>
+    onProgress?.({ stage: 'harmony', fraction: harmonyStart + fraction * (1 - harmonyStart) })
+  );
+  return { onsetData: { ...onsetData, curves }, sections, harmony };
+};
+
+// --- WORKER CLIENT ---
+
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+let worker: Worker | null = null;
+let workerOnsetData: OnsetData | null = null; // Onset data the worker already holds for marker runs
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+// Latest-wins queue for marker runs: one in flight, at most one waiting
+// A worker reset starts a new generation, so a run that was in flight then can't touch the queue afterwards
+let markersInFlight = false;
+let markersGeneration = 0;
+let inFlightMarkers: ((result: MarkerGenerationResult | null) => void) | null = null;
+let queuedMarkers: { onsetData: OnsetData, settings: MarkerSettings, duration: number, resolve: (result: MarkerGenerationResult | null) => void } | null = null;
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+
+    if (message.type === 'progress') {
+      request.onProgress?.(message.progress);
+      return;
+    }
+
+    pending.delete(message.id);
+    if (message.type === 'error') request.reject(new Error(message.message));
+    else if (message.type === 'analysis') request.resolve(message.result);
+    else if (message.type === 'structure') request.resolve(message.sections);
+    else if (message.type === 'curves') request.resolve(message.curves);
+    else if (message.type === 'harmony') request.resolve(message.harmony);
+    else request.resolve(message.result);
+  };
+  worker.onerror = (event) => {
+    console.error("Analysis worker failed", event);
+    const error = new Error(event.message || 'Analysis worker failed');
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+    resetWorker();
+  };
+  return worker;
+};
+
+// Drop the worker; whatever it was computing resolves as superseded (null)
+const resetWorker = () => {
+  worker?.terminate();
+  worker = null;
+  workerOnsetData = null;
+  pending.forEach(request => request.resolve(null));
+  pending.clear();
+  markersGeneration++;
+  markersInFlight = false;
+  if (inFlightMarkers) {
+    inFlightMarkers(null);
+    inFlightMarkers = null;
+  }
+  if (queuedMarkers) {
+    queuedMarkers.resolve(null);
+    queuedMarkers = null;
+  }
+};
+
+const post = <T>(
+  request: AnalysisWorkerRequest,
+  transfer: Transferable[] = [],
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    pending.set(request.id, { resolve, reject, onProgress });
+    getWorker().postMessage(request, transfer);
+  });
+
+const hasWorker = () => typeof Worker !== 'undefined';
+
+// Abort any running analysis (its promise resolves to null)
+export const cancelAnalysis = () => {
+  if (worker && pending.size > 0) resetWorker();
+};
+
+/**
+ * Analyze a track off the main thread, reporting progress
+ * The channel buffers are transferred to the worker, so `audio` is unusable afterwards
+ * Starting a new analysis aborts the previous one, which resolves to null
+ */
+export const analyzeAudio = (
+  audio: PcmAudio,
+  channelMode: ChannelMode,
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<AudioAnalysisResult | null> => {
+  if (!hasWorker()) return Promise.resolve(runAudioAnalysis(audio, channelMode, onProgress));
+
+  cancelAnalysis();
+  return post<AudioAnalysisResult | null>(
+    { type: 'analyze', id: nextRequestId++, audio, channelMode },
+    audio.channels.map(channel => channel.buffer),
+    onProgress
+  );
+};
+
+// Structure analysis alone, for projects saved before it existed. Resolves to null if aborted
+export const analyzeStructure = (
+  audio: PcmAudio,
+  beatGrid: BeatGrid | null | undefined,
+  channelMode: ChannelMode
+): Promise<SongSection[] | null> => {
+  if (!hasWorker()) return Promise.resolve(analyzeSongStructure(audio, beatGrid, channelMode));
+
+  cancelAnalysis();
+  return post<SongSection[] | null>(
+    { type: 'structure', id: nextRequestId++, audio, beatGrid, channelMode },
+    audio.channels.map(channel => channel.buffer)
+  );
+};
+
+// Loudness / vocal curves alone, for projects saved before they existed. Resolves to null if aborted
+export const analyzeCurves = (audio: PcmAudio): Promise<AudioCurves | null> => {
+  if (!hasWorker()) return Promise.resolve(computeAudioCurves(audio));
+
+  cancelAnalysis();
+  return post<AudioCurves | null>(
+    { type: 'curves', id: nextRequestId++, audio },
+    audio.channels.map(channel => channel.buffer)
+  );
+};
+
+// Harmony alone, for projects saved before it existed. Resolves to null if aborted
+export const analyzeHarmonyAsync = (
+  audio: PcmAudio,
+  beatGrid: BeatGrid | null | undefined,
+  sections: SongSection[],
+  channelMode: ChannelMode
+): Promise<HarmonyAnalysis | null> => {
+  if (!hasWorker()) return Promise.resolve(analyzeHarmony(audio, beatGrid, sections, channelMode));
+
+  cancelAnalysis();
+  return post<HarmonyAnalysis | null>(
+    { type: 'harmony', id: nextRequestId++, audio, beatGrid, sections, channelMode },
+    audio.channels.map(channel => channel.buffer)
+  );
+};
+
+const sendMarkers = (
+  onsetData: OnsetData,
+  settings: MarkerSettings,
+  duration: number,
+  resolve: (result: MarkerGenerationResult | null) => void
+) => {
+  const generation = markersGeneration;
+  markersInFlight = true;
+  inFlightMarkers = resolve;
+  // Onset data is only posted when it changed since the last run
+  const request: AnalysisWorkerRequest = {
+    type: 'markers',
+    id: nextRequestId++,
+    onsetData: onsetData === workerOnsetData ? undefined : onsetData,
+    settings,
+    duration
+  };
+  workerOnsetData = onsetData;
+
+  post<MarkerGenerationResult | null>(request)
+    .catch(error => {
+      console.error("Marker generation failed", error);
+      return null;
+    })
+    .then(result => {
+      // Reset while running: the caller already got null and a newer run may own the queue
+      if (generation !== markersGeneration) return;
+      markersInFlight = false;
+      inFlightMarkers = null;
+      if (queuedMarkers) {
+        // A newer request arrived while this one ran: this result is stale
+        const next = queuedMarkers;
+        queuedMarkers = null;
+        resolve(null);
+        sendMarkers(next.onsetData, next.settings, next.duration, next.resolve);
+      } else {
+        resolve(result);
+      }
+    });
+};
+
+/**
+ * Generate markers in the worker. Requests made while one is running are coalesced:
+ * only the latest is computed, and every superseded request resolves to null
+ */
+export const generateMarkersAsync = (
+  onsetData: OnsetData,
+  settings: MarkerSettings,
+  duration: number
+): Promise<MarkerGenerationResult | null> => {
+  if (!hasWorker()) return Promise.resolve(generateMarkersForSettings(onsetData, settings, duration));
+
+  return new Promise(resolve => {
+    if (markersInFlight) {
+      queuedMarkers?.resolve(null);
+      queuedMarkers = { onsetData, settings, duration, resolve };
+      return;
+    }
+    sendMarkers(onsetData, settings, duration, resolve);
+  });
+};
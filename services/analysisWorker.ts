@@ -0,0 +1,55 @@
+/**
+ * Analysis worker: onset detection, loudness / vocal curves, structure and harmony analysis and marker generation off the main thread
+ * Protocol: see AnalysisWorkerRequest / AnalysisWorkerResponse in analysisService.ts
+ */
+import { OnsetData } from "../types";
+import { generateMarkersForSettings } from "./audioProcessingService";
+import { analyzeSongStructure } from "./structureAnalysisService";
+import { computeAudioCurves } from "./audioCurvesService";
+import { analyzeHarmony } from "./harmonyAnalysisService";
+import { runAudioAnalysis, AnalysisWorkerRequest, AnalysisWorkerResponse } from "./analysisService";
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<AnalysisWorkerRequest>) => void) | null;
+  postMessage: (message: AnalysisWorkerResponse) => void;
+};
+
+// Onset data from the last marker request; later requests omit it when unchanged
+let onsetData: OnsetData | null = null;
+
+ctx.onmessage = (event) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'analyze': {
+        const result = runAudioAnalysis(request.audio, request.channelMode, progress =>
+          ctx.postMessage({ type: 'progress', id: request.id, progress })
+        );
+        ctx.postMessage({ type: 'analysis', id: request.id, result });
+        break;
+      }
+      case 'structure':
+        ctx.postMessage({ type: 'structure', id: request.id, sections: analyzeSongStructure(request.audio, request.beatGrid, request.channelMode) });
+        break;
+      case 'curves':
+        ctx.postMessage({ type: 'curves', id: request.id, curves: computeAudioCurves(request.audio) });
+        break;
+      case 'harmony':
+        ctx.postMessage({
+          type: 'harmony',
+          id: request.id,
+          harmony: analyzeHarmony(request.audio, request.beatGrid, request.sections, request.channelMode)
+        });
+        break;
+      case 'markers': {
+        if (request.onsetData) onsetData = request.onsetData;
+        if (!onsetData) throw new Error("No onset data for marker generation");
+        const result = generateMarkersForSettings(onsetData, request.settings, request.duration);
+        ctx.postMessage({ type: 'markers', id: request.id, result });
+        break;
+      }
+    }
+  } catch (e) {
+    ctx.postMessage({ type: 'error', id: request.id, message: e instanceof Error ? e.message : String(e) });
+  }
+};
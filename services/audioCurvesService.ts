@@ -0,0 +1,200 @@
+import { AudioCurves, PcmAudio } from "../types";
+import { FFT_SIZE, forEachSpectra } from "./audioProcessingService";
+
+// Curve resolution; also the EBU R128 block length
+const CURVE_HOP_SECONDS = 0.1;
+
+// Short-term loudness averages 30 blocks (3s), centred on each sample
+const SHORT_TERM_BLOCKS = 30;
+const LOUDNESS_FLOOR_LUFS = -70;
+
+// Vocal presence heuristics
+const VOICE_BAND_HZ: [number, number] = [250, 4000];
+const F0_RANGE_HZ: [number, number] = [100, 700];
+const NUM_HARMONICS = 10;
+const HARMONIC_PEAK_RATIO = 4;       // A harmonic is present when its bin has this many times the band's mean power
+const VOCAL_SMOOTHING_CELLS = 5;     // 0.5s moving average
+const VOCAL_REFERENCE_PERCENTILE = 0.95;
+const MIN_VOCAL_REFERENCE = 0.15;    // Keeps instrumental tracks from being stretched up to full presence
+const SILENCE_LUFS = -50;            // Quieter passages have no vocals
+
+// K-weighting (ITU-R BS.1770) as two biquads, designed for any sample rate
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number]; // a1, a2 (a0 normalized to 1)
+}
+
+const kWeightingFilters = (sampleRate: number): Biquad[] => {
+  // Stage 1: high shelf modelling the head's acoustic effect
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  // Stage 2: RLB high-pass
+  const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const passQ = 0.5003270373238773;
+  const passA0 = 1 + passK / passQ + passK * passK;
+
+  return [
+    {
+      b: [
+        (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+        (2 * (shelfK * shelfK - vh)) / shelfA0,
+        (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0
+      ],
+      a: [(2 * (shelfK * shelfK - 1)) / shelfA0, (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0]
+    },
+    {
+      b: [1, -2, 1],
+      a: [(2 * (passK * passK - 1)) / passA0, (1 - passK / passQ + passK * passK) / passA0]
+    }
+  ];
+};
+
+/**
+ * Short-term loudness in LUFS, one value per CURVE_HOP_SECONDS block
+ * Uses the first two channels with unit weights, as BS.1770 does for L/R
+ */
+const computeLoudness = (audio: PcmAudio, numCells: number): number[] => {
+  const blockSize = Math.max(1, Math.round(CURVE_HOP_SECONDS * audio.sampleRate));
+  const blockPower = new Float64Array(numCells);
+  const filters = kWeightingFilters(audio.sampleRate);
+
+  audio.channels.slice(0, 2).forEach(channel => {
+    // Direct form I state per stage
+    const x1 = [0, 0], x2 = [0, 0], y1 = [0, 0], y2 = [0, 0];
+    for (let i = 0; i < channel.length; i++) {
+      let value = channel[i];
+      for (let s = 0; s < filters.length; s++) {
+        const { b, a } = filters[s];
+        const out = b[0] * value + b[1] * x1[s] + b[2] * x2[s] - a[0] * y1[s] - a[1] * y2[s];
+        x2[s] = x1[s];
+        x1[s] = value;
+        y2[s] = y1[s];
+        y1[s] = out;
+        value = out;
+      }
+      const cell = Math.floor(i / blockSize);
+      if (cell < numCells) blockPower[cell] += value * value;
+    }
+  });
+
+  const loudness: number[] = [];
+  for (let i = 0; i < numCells; i++) {
+    const from = Math.max(0, i - SHORT_TERM_BLOCKS / 2);
+    const to = Math.min(numCells, i + SHORT_TERM_BLOCKS / 2);
+    let sum = 0;
+    for (let j = from; j < to; j++) sum += blockPower[j];
+    const meanSquare = sum / ((to - from) * blockSize);
+    loudness.push(meanSquare > 0 ? Math.max(LOUDNESS_FLOOR_LUFS, -0.691 + 10 * Math.log10(meanSquare)) : LOUDNESS_FLOOR_LUFS);
+  }
+  return loudness;
+};
+
+/**
+ * Vocal presence from spectral heuristics on the mid (L+R) signal:
+ * share of power in the voice band, how much of it sits on one harmonic series with a sung f0
+ * (and how complete that series is, which separates a voice from a few chord tones),
+ * and for stereo files how centred the voice band is, since lead vocals are mixed to the middle
+ */
+const computeVocalPresence = (
+  audio: PcmAudio,
+  loudness: number[],
+  onProgress?: (fraction: number) => void
+): number[] => {
+  const numCells = loudness.length;
+  const [left, right] = audio.channels;
+  const mid = right ? left.map((v, i) => 0.5 * (v + right[i])) : left;
+  const side = right ? left.map((v, i) => 0.5 * (v - right[i])) : null;
+
+  const numBins = FFT_SIZE / 2 + 1;
+  const binHz = audio.sampleRate / FFT_SIZE;
+  const voiceLo = Math.ceil(VOICE_BAND_HZ[0] / binHz);
+  const voiceHi = Math.min(numBins - 2, Math.floor(VOICE_BAND_HZ[1] / binHz));
+  const harmonicLo = Math.max(1, Math.round(F0_RANGE_HZ[0] / binHz) - 1);
+  const f0Step = binHz / (2 * NUM_HARMONICS); // The top harmonic moves at most half a bin per step
+
+  const scoreSum = new Float64Array(numCells);
+  const scoreCount = new Float64Array(numCells);
+  const power = new Float64Array(numBins);
+  const hop = Math.max(1, Math.round((CURVE_HOP_SECONDS / 2) * audio.sampleRate));
+
+  forEachSpectra(side ? [mid, side] : [mid], hop, (spectra, start) => {
+    const { re, im } = spectra[0];
+    let total = 0;
+    let voice = 0;
+    let sideVoice = 0;
+    for (let k = 1; k < numBins; k++) {
+      power[k] = re[k] * re[k] + im[k] * im[k];
+      total += power[k];
+      if (k >= voiceLo && k <= voiceHi) {
+        voice += power[k];
+        if (spectra[1]) sideVoice += spectra[1].re[k] * spectra[1].re[k] + spectra[1].im[k] * spectra[1].im[k];
+      }
+    }
+    if (total <= 0) return;
+
+    // Best harmonic series: its share of the band's power times the share of its harmonics present
+    let bandPower = 0;
+    for (let k = harmonicLo; k <= voiceHi + 1; k++) bandPower += power[k];
+    const peakFloor = HARMONIC_PEAK_RATIO * bandPower / (voiceHi - harmonicLo + 2);
+
+    let voicedness = 0;
+    if (bandPower > 0) {
+      for (let f0 = F0_RANGE_HZ[0]; f0 <= F0_RANGE_HZ[1]; f0 += f0Step) {
+        let comb = 0;
+        let present = 0;
+        let harmonics = 0;
+        for (let h = 1; h <= NUM_HARMONICS; h++) {
+          const k = Math.round((h * f0) / binHz);
+          if (k > voiceHi) break;
+          comb += power[k - 1] + power[k] + power[k + 1];
+          if (Math.max(power[k - 1], power[k], power[k + 1]) > peakFloor) present++;
+          harmonics++;
+        }
+        if (harmonics > 0) voicedness = Math.max(voicedness, (comb / bandPower) * (present / harmonics));
+      }
+    }
+
+    const centred = side ? voice / (voice + sideVoice || 1) : 1;
+    const score = Math.sqrt(voice / total) * voicedness * centred;
+
+    const cell = Math.floor((start + FFT_SIZE / 2) / audio.sampleRate / CURVE_HOP_SECONDS);
+    if (cell < numCells) {
+      scoreSum[cell] += score;
+      scoreCount[cell]++;
+    }
+  }, onProgress);
+
+  const raw = Array.from(scoreSum, (sum, i) =>
+    scoreCount[i] > 0 && loudness[i] > SILENCE_LUFS ? sum / scoreCount[i] : 0
+  );
+
+  const smoothed = raw.map((_, i) => {
+    const from = Math.max(0, i - Math.floor(VOCAL_SMOOTHING_CELLS / 2));
+    const to = Math.min(raw.length, i + Math.floor(VOCAL_SMOOTHING_CELLS / 2) + 1);
+    let sum = 0;
+    for (let j = from; j < to; j++) sum += raw[j];
+    return sum / (to - from);
+  });
+
+  // Relative to the song's strongest vocal passages, but never below an absolute floor
+  const sorted = [...smoothed].sort((a, b) => a - b);
+  const reference = Math.max(MIN_VOCAL_REFERENCE, sorted[Math.floor((sorted.length - 1) * VOCAL_REFERENCE_PERCENTILE)] ?? 0);
+  return smoothed.map(v => Math.min(1, v / reference));
+};
+
+/**
+ * Loudness and vocal presence curves for a decoded track
+ */
+export const computeAudioCurves = (
+  audio: PcmAudio,
+  onProgress?: (fraction: number) => void
+): AudioCurves => {
+  const numCells = Math.max(1, Math.ceil(audio.duration / CURVE_HOP_SECONDS));
+  const loudness = computeLoudness(audio, numCells);
+  const vocal = computeVocalPresence(audio, loudness, onProgress);
+  return { hop: CURVE_HOP_SECONDS, loudness, vocal };
+};
@@ -1,7 +1,11 @@
-import { Marker, OnsetData } from "../types";
+import { Marker, OnsetData, OnsetBandName, BandRanges, BandWeights, GridMarkerOptions, ShotTiming, SongSection, LyricLine, MarkerSnapMode, MarkerCountResult, MarkerSettings, MarkerGenerationResult, PcmAudio, ChannelMode, DensityKeyframe, TimeRegion } from "../types";
+import { trackBeats } from "./beatTrackingService";
+import { BAND_NAMES, getWeightedEnvelope } from "./onsetEnvelopeService";
+import { lyricsInRange } from "./lyricsService";
+import { densityAt, sortKeyframes } from "./densityCurveService";
 
 // Constants for processing
-const FFT_SIZE = 2048;
+export const FFT_SIZE = 2048;
 const HOP_SIZE = 441; // ~10ms at 44.1kHz
 
 export const decodeAudio = async (file: File): Promise<AudioBuffer> => {
@@ -10,59 +14,246 @@ export const decodeAudio = async (file: File): Promise<AudioBuffer> => {
   return await audioContext.decodeAudioData(arrayBuffer);
 };
 
-// Calculate spectral flux / amplitude onset envelope
-export const computeOnsetEnvelope = (buffer: AudioBuffer): OnsetData => {
-  const channelData = buffer.getChannelData(0); // Use left channel for mono analysis
-  const sampleRate = buffer.sampleRate;
-  
-  const numWindows = Math.floor((channelData.length - FFT_SIZE) / HOP_SIZE);
-  const values: number[] = [];
-  const times: number[] = [];
+// Copy the channel data out of an AudioBuffer so it can be transferred to a worker
+export const toPcmAudio = (buffer: AudioBuffer): PcmAudio => {
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    channels.push(new Float32Array(buffer.getChannelData(c)));
+  }
+  return { channels, sampleRate: buffer.sampleRate, duration: buffer.duration };
+};
+
+// Default frequency bands for per-band onset envelopes
+// low: kick / bass, mid: snare / vocals, high: hi-hats / cymbals
+export const DEFAULT_BAND_RANGES: BandRanges = {
+  low: [20, 150],
+  mid: [150, 2500],
+  high: [2500, 16000]
+};
 
-  let prevRms = 0;
+const LOG_COMPRESSION = 100; // gamma in log(1 + gamma * |X|)
 
-  for (let i = 0; i < numWindows; i++) {
-    const start = i * HOP_SIZE;
-    let sumSq = 0;
-    for (let j = 0; j < FFT_SIZE; j++) {
-      const sample = channelData[start + j];
-      sumSq += sample * sample;
+// Hann window, computed once
+const hannWindow = (() => {
+  const w = new Float32Array(FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i++) {
+    w[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1)));
+  }
+  return w;
+})();
+
+// Bit-reversal permutation and twiddle factors for the radix-2 FFT
+const fftTables = (() => {
+  const bits = Math.log2(FFT_SIZE);
+  const reversed = new Uint32Array(FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i++) {
+    let r = 0;
+    for (let b = 0; b < bits; b++) {
+      r = (r << 1) | ((i >> b) & 1);
     }
-    const rms = Math.sqrt(sumSq / FFT_SIZE);
-    
-    // Spectral flux approximation
-    const val = Math.max(0, rms - prevRms); 
-    values.push(val);
-    times.push(start / sampleRate);
-    
-    prevRms = rms;
+    reversed[i] = r;
+  }
+  const cos = new Float64Array(FFT_SIZE / 2);
+  const sin = new Float64Array(FFT_SIZE / 2);
+  for (let i = 0; i < FFT_SIZE / 2; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / FFT_SIZE);
+    sin[i] = -Math.sin((2 * Math.PI * i) / FFT_SIZE);
+  }
+  return { reversed, cos, sin };
+})();
+
+// In-place iterative radix-2 FFT (length FFT_SIZE)
+const fft = (re: Float64Array, im: Float64Array) => {
+  const { reversed, cos, sin } = fftTables;
+
+  for (let i = 0; i < FFT_SIZE; i++) {
+    const j = reversed[i];
+    if (j > i) {
+      const tr = re[i]; re[i] = re[j]; re[j] = tr;
+      const ti = im[i]; im[i] = im[j]; im[j] = ti;
+    }
+  }
+
+  for (let size = 2; size <= FFT_SIZE; size <<= 1) {
+    const half = size >> 1;
+    const step = FFT_SIZE / size;
+    for (let start = 0; start < FFT_SIZE; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = cos[k * step];
+        const wi = sin[k * step];
+        const a = start + k;
+        const b = a + half;
+        const xr = re[b] * wr - im[b] * wi;
+        const xi = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - xr;
+        im[b] = im[a] - xi;
+        re[a] += xr;
+        im[a] += xi;
+      }
+    }
+  }
+};
+
+export interface Spectrum {
+  re: Float64Array;
+  im: Float64Array;
+}
+
+// Same-time spectra of several equal-length signals (e.g. left + right)
+export const forEachSpectra = (
+  signals: Float32Array[],
+  hop: number,
+  onFrame: (spectra: Spectrum[], start: number, index: number) => void,
+  onProgress?: (fraction: number) => void
+) => {
+  const numWindows = Math.floor((signals[0].length - FFT_SIZE) / hop);
+  const spectra: Spectrum[] = signals.map(() => ({ re: new Float64Array(FFT_SIZE), im: new Float64Array(FFT_SIZE) }));
+  const progressEvery = Math.max(1, Math.floor(numWindows / 100));
+
+  for (let i = 0; i < numWindows; i++) {
+    if (onProgress && i % progressEvery === 0) onProgress(i / numWindows);
+    const start = i * hop;
+    signals.forEach((signal, s) => {
+      const { re, im } = spectra[s];
+      for (let j = 0; j < FFT_SIZE; j++) {
+        re[j] = signal[start + j] * hannWindow[j];
+        im[j] = 0;
+      }
+      fft(re, im);
+    });
+    onFrame(spectra, start, i);
   }
+};
+
+// Run a Hann-windowed FFT over every FFT_SIZE window, hop samples apart.
+// The callback receives the (reused) real/imaginary buffers, the window's first sample and its index
+export const forEachSpectrum = (
+  channelData: Float32Array,
+  hop: number,
+  onFrame: (re: Float64Array, im: Float64Array, start: number, index: number) => void,
+  onProgress?: (fraction: number) => void
+) => {
+  forEachSpectra([channelData], hop, (spectra, start, i) => onFrame(spectra[0].re, spectra[0].im, start, i), onProgress);
+};
+
+// a * left + b * right
+const mixChannels = (left: Float32Array, right: Float32Array, a: number, b: number): Float32Array => {
+  const out = new Float32Array(left.length);
+  for (let i = 0; i < left.length; i++) out[i] = a * left[i] + b * right[i];
+  return out;
+};
 
-  // Normalize values 0-1
-  const maxVal = Math.max(...values, 0.00001);
-  const normalizedValues = values.map(v => v / maxVal);
-  
-  // Smoothing
-  const smoothedValues = new Array(normalizedValues.length).fill(0);
+// Signals the onset detector analyses for a channel mode (mono files always use their one channel)
+const analysisSignals = (audio: PcmAudio, mode: ChannelMode): Float32Array[] => {
+  const [left, right] = audio.channels;
+  if (!right || mode === 'left') return [left];
+  switch (mode) {
+    case 'sum': return [mixChannels(left, right, 0.5, 0.5)];
+    case 'max': return [left, right];
+    case 'midSide': return [mixChannels(left, right, 0.5, 0.5), mixChannels(left, right, 0.5, -0.5)];
+  }
+};
+
+// Single signal for features that need one (chroma, timbre): left for 'left', else the mono sum
+export const monoSignal = (audio: PcmAudio, mode: ChannelMode): Float32Array => {
+  const [left, right] = audio.channels;
+  return !right || mode === 'left' ? left : mixChannels(left, right, 0.5, 0.5);
+};
+
+// Apply a short moving average, then normalize values 0-1
+const normalizeAndSmooth = (values: number[]): number[] => {
+  const smoothedValues = new Array(values.length).fill(0);
   const windowSize = 5;
-  for(let i=0; i<normalizedValues.length; i++) {
+  for(let i=0; i<values.length; i++) {
       let sum = 0;
       let count = 0;
       for(let w=-Math.floor(windowSize/2); w<=Math.floor(windowSize/2); w++) {
-          if(i+w >=0 && i+w < normalizedValues.length) {
-              sum += normalizedValues[i+w];
+          if(i+w >=0 && i+w < values.length) {
+              sum += values[i+w];
               count++;
           }
       }
       smoothedValues[i] = sum/count;
   }
 
-  const detectedBpm = estimateBPM(smoothedValues, times);
+  const maxVal = Math.max(...smoothedValues, 0.00001);
+  return smoothedValues.map(v => v / maxVal);
+};
+
+// STFT spectral flux onset envelope on log-compressed magnitudes,
+// plus one envelope per frequency band.
+// 'max' takes the loudest channel per bin before the flux; 'midSide' adds the flux of mid and side,
+// so wide-panned percussion that cancels in the mono sum still registers
+export const computeOnsetEnvelope = (
+  audio: PcmAudio,
+  channelMode: ChannelMode = 'sum',
+  bandRanges: BandRanges = DEFAULT_BAND_RANGES,
+  onProgress?: (fraction: number) => void
+): OnsetData => {
+  const signals = analysisSignals(audio, channelMode);
+  const mergeSpectra = channelMode === 'max';
+  const sampleRate = audio.sampleRate;
+
+  const numBins = FFT_SIZE / 2 + 1;
+  const binHz = sampleRate / FFT_SIZE;
+
+  // Map each bin to its band index (-1 = outside every band)
+  const binBand = new Int8Array(numBins).fill(-1);
+  BAND_NAMES.forEach((name, bandIndex) => {
+    const [minHz, maxHz] = bandRanges[name];
+    const lo = Math.max(1, Math.ceil(minHz / binHz));
+    const hi = Math.min(numBins - 1, Math.floor(maxHz / binHz));
+    for (let k = lo; k <= hi; k++) binBand[k] = bandIndex;
+  });
+
+  const values: number[] = [];
+  const times: number[] = [];
+  const bandValues: number[][] = BAND_NAMES.map(() => []);
+
+  // One magnitude history per flux stream (merged spectra share one)
+  const prevMag = (mergeSpectra ? [signals[0]] : signals).map(() => new Float64Array(numBins));
+  const bandFlux = new Float64Array(BAND_NAMES.length);
+  const logMag = ({ re, im }: Spectrum, k: number) => Math.log1p(LOG_COMPRESSION * Math.sqrt(re[k] * re[k] + im[k] * im[k]));
+
+  forEachSpectra(signals, HOP_SIZE, (spectra, start, i) => {
+    // Half-wave rectified difference of log magnitudes
+    let flux = 0;
+    bandFlux.fill(0);
+    for (let k = 0; k < numBins; k++) {
+      for (let s = 0; s < prevMag.length; s++) {
+        let mag = logMag(spectra[s], k);
+        if (mergeSpectra) {
+          for (let c = 1; c < spectra.length; c++) mag = Math.max(mag, logMag(spectra[c], k));
+        }
+        const diff = mag - prevMag[s][k];
+        prevMag[s][k] = mag;
+        if (diff > 0 && i > 0) {
+          flux += diff;
+          const band = binBand[k];
+          if (band >= 0) bandFlux[band] += diff;
+        }
+      }
+    }
+
+    values.push(flux);
+    times.push((start + FFT_SIZE / 2) / sampleRate); // Window centre
+    BAND_NAMES.forEach((_, b) => bandValues[b].push(bandFlux[b]));
+  }, onProgress);
+
+  const smoothedValues = normalizeAndSmooth(values);
+  const bands = {} as Record<OnsetBandName, number[]>;
+  BAND_NAMES.forEach((name, b) => {
+    bands[name] = normalizeAndSmooth(bandValues[b]);
+  });
+
+  const onsetData: OnsetData = { times, values: smoothedValues, bands };
+  const beatGrid = trackBeats(onsetData, sampleRate / HOP_SIZE);
+  const detectedBpm = beatGrid ? Math.round(beatGrid.bpm) : estimateBPM(smoothedValues, times);
 
-  return { times, values: smoothedValues, detectedBpm };
+  return { ...onsetData, detectedBpm, beatGrid };
 };
 
-// Simple BPM Estimator using Interval Histogram
+// Simple BPM Estimator using Interval Histogram (fallback when beat tracking finds no pulse)
 const estimateBPM = (values: number[], times: number[]): number => {
     const peaks: number[] = [];
     for(let i=2; i<values.length-2; i++) {
@@ -103,6 +294,9 @@ interface GenOptions {
     minDuration: number;
     maxDuration: number;
     sensitivity: number; // 0.0 to 1.0
+    densityCurve?: DensityKeyframe[]; // Sensitivity / min / max automation, read at the cursor
+    bandWeights?: BandWeights; // Cut on a blend of band envelopes instead of the broadband one
+    pinned?: Marker[]; // Fixed anchors; cuts are only generated in the spans between them
 }
 
 export const generateMarkers = (
@@ -110,151 +304,683 @@ export const generateMarkers = (
   options: GenOptions,
   totalDuration: number
 ): Marker[] => {
-  const { times, values } = onsetData;
+  const { times } = onsetData;
+  const values = getWeightedEnvelope(onsetData, options.bandWeights);
   const markers: Marker[] = [];
-  
-  let cursor = 0.0; // Time pointer
   const noiseFloor = 0.05;
 
   // Pre-calculate indices to avoid scanning from 0 every time
   let currentIndex = 0;
 
-  while (cursor < totalDuration) {
-      const winStart = cursor + options.minDuration;
-      const winEnd = Math.min(cursor + options.maxDuration, totalDuration);
+  const keyframes = sortKeyframes(options.densityCurve || []);
+  const defaults = { sensitivity: options.sensitivity, minDuration: options.minDuration, maxDuration: options.maxDuration };
 
-      if (winStart >= totalDuration) break;
+  // Fill [spanStart, spanEnd) with cuts. Inner spans end on a pinned marker: no cut may land
+  // within minDuration of it, and once it is within maxDuration no further cut is forced.
+  const fillSpan = (spanStart: number, spanEnd: number, isFinal: boolean) => {
+    let cursor = spanStart; // Time pointer
 
-      // 1. Identification: Collect all valid peaks in the window [min, max]
-      const candidates: {index: number, time: number, strength: number}[] = [];
-      
-      // Advance index to winStart
-      while(currentIndex < times.length && times[currentIndex] < winStart) {
-          currentIndex++;
-      }
+    while (cursor < spanEnd) {
+        // Settings in effect at the cursor (constant unless a density curve is set)
+        const { sensitivity, minDuration, maxDuration } = densityAt(keyframes, cursor, defaults);
+        const latest = isFinal ? spanEnd : spanEnd - minDuration;
+        const winStart = cursor + minDuration;
+        const winEnd = Math.min(cursor + maxDuration, latest);
+        const anchorInReach = !isFinal && spanEnd - cursor <= maxDuration;
 
-      // Scan until winEnd
-      // We use a temp index so we don't mess up the main one for next iteration (though we usually jump forward)
-      let scanIndex = currentIndex;
-      
-      while(scanIndex < times.length && times[scanIndex] <= winEnd) {
-          const val = values[scanIndex];
-          // Local maxima check
-          if (scanIndex > 0 && scanIndex < values.length - 1) {
-              if (val >= values[scanIndex - 1] && val >= values[scanIndex + 1]) {
-                  if (val > noiseFloor) {
-                      candidates.push({
-                          index: scanIndex,
-                          time: times[scanIndex],
-                          strength: val
-                      });
-                  }
-              }
-          }
-          scanIndex++;
-      }
+        if (winStart >= latest) break;
 
-      let chosenCandidate = null;
-      let isSafety = false;
-
-      if (candidates.length === 0) {
-          // No peaks found at all?
-          // Force a cut at maxDuration
-          isSafety = true;
-          chosenCandidate = { time: winEnd, strength: 0, index: -1 };
-      } else {
-          // 2. Selection: Apply Desperation Threshold
-          // We iterate through candidates in time order.
-          
-          for (const cand of candidates) {
-              // Normalized progress through the window (0.0 to 1.0)
-              const progress = (cand.time - winStart) / (winEnd - winStart + 0.001);
-              
-              // Dynamic Threshold Calculation
-              // If Sensitivity = 1.0 -> (1 - 1) * ... = 0. Threshold is 0. First peak accepted.
-              // If Sensitivity = 0.0 -> (1 - 0) * (1 - progress). Starts at 1.0, decays linearly to 0.0.
-              // We use a power curve to make 'medium' sensitivity feel natural.
-              const curve = Math.pow(1.0 - progress, 1.5); 
-              const threshold = (1.0 - options.sensitivity) * curve;
-
-              if (cand.strength >= threshold) {
-                  chosenCandidate = cand;
-                  isSafety = false;
-                  break; // We found a beat that satisfies our current desperation level
-              }
-          }
+        // 1. Identification: Collect all valid peaks in the window [min, max]
+        const candidates: {index: number, time: number, strength: number}[] = [];
+        
+        // Advance index to winStart
+        while(currentIndex < times.length && times[currentIndex] < winStart) {
+            currentIndex++;
+        }
 
-          // 3. Fallback: Safety Net
-          // If NO candidate passed the threshold (because we were too picky/low sensitivity),
-          // we are now "desperate" at the end of the window.
-          // We MUST pick something. To minimize glitchiness, we pick the STRONGEST beat available in the window.
-          // (Even if it was early in the window and we skipped it, it's better than cutting on silence).
-          if (!chosenCandidate) {
-              isSafety = true;
-              // Find max strength in candidates
-              chosenCandidate = candidates.reduce((prev, current) => (prev.strength > current.strength) ? prev : current);
-          }
-      }
+        // Scan until winEnd
+        // We use a temp index so we don't mess up the main one for next iteration (though we usually jump forward)
+        let scanIndex = currentIndex;
+        
+        while(scanIndex < times.length && times[scanIndex] <= winEnd) {
+            const val = values[scanIndex];
+            // Local maxima check
+            if (scanIndex > 0 && scanIndex < values.length - 1) {
+                if (val >= values[scanIndex - 1] && val >= values[scanIndex + 1]) {
+                    if (val > noiseFloor) {
+                        candidates.push({
+                            index: scanIndex,
+                            time: times[scanIndex],
+                            strength: val
+                        });
+                    }
+                }
+            }
+            scanIndex++;
+        }
+
+        let chosenCandidate = null;
+        let isSafety = false;
 
-      // 4. Commit
-      markers.push({
-          id: crypto.randomUUID(),
-          time: chosenCandidate.time,
-          strength: chosenCandidate.strength,
-          type: isSafety ? 'Safety' : 'Cut'
-      });
+        if (candidates.length === 0) {
+            // The pinned marker ahead already closes this shot
+            if (anchorInReach) break;
+            // No peaks found at all?
+            // Force a cut at maxDuration
+            isSafety = true;
+            chosenCandidate = { time: winEnd, strength: 0, index: -1 };
+        } else {
+            // 2. Selection: Apply Desperation Threshold
+            // We iterate through candidates in time order.
+            
+            for (const cand of candidates) {
+                // Normalized progress through the window (0.0 to 1.0)
+                const progress = (cand.time - winStart) / (winEnd - winStart + 0.001);
+                
+                // Dynamic Threshold Calculation
+                // If Sensitivity = 1.0 -> (1 - 1) * ... = 0. Threshold is 0. First peak accepted.
+                // If Sensitivity = 0.0 -> (1 - 0) * (1 - progress). Starts at 1.0, decays linearly to 0.0.
+                // We use a power curve to make 'medium' sensitivity feel natural.
+                const curve = Math.pow(1.0 - progress, 1.5); 
+                const threshold = (1.0 - sensitivity) * curve;
+
+                if (cand.strength >= threshold) {
+                    chosenCandidate = cand;
+                    isSafety = false;
+                    break; // We found a beat that satisfies our current desperation level
+                }
+            }
+
+            // 3. Fallback: Safety Net
+            // If NO candidate passed the threshold (because we were too picky/low sensitivity),
+            // we are now "desperate" at the end of the window.
+            // We MUST pick something. To minimize glitchiness, we pick the STRONGEST beat available in the window.
+            // (Even if it was early in the window and we skipped it, it's better than cutting on silence).
+            // Not needed when the pinned marker ahead already closes this shot.
+            if (!chosenCandidate) {
+                if (anchorInReach) break;
+                isSafety = true;
+                // Find max strength in candidates
+                chosenCandidate = candidates.reduce((prev, current) => (prev.strength > current.strength) ? prev : current);
+            }
+        }
+
+        // 4. Commit
+        markers.push({
+            id: crypto.randomUUID(),
+            time: chosenCandidate.time,
+            strength: chosenCandidate.strength,
+            type: isSafety ? 'Safety' : 'Cut'
+        });
+
+        cursor = chosenCandidate.time;
+    }
+  };
 
-      cursor = chosenCandidate.time;
+  const anchors = [...(options.pinned || [])]
+    .filter(m => m.time >= 0 && m.time < totalDuration)
+    .sort((a, b) => a.time - b.time);
+
+  let spanStart = 0.0;
+  for (const anchor of anchors) {
+      fillSpan(spanStart, anchor.time, false);
+      markers.push(anchor);
+      spanStart = anchor.time;
   }
+  fillSpan(spanStart, totalDuration, true);
 
   // Cleanup: Remove last marker if it's too close to end
-  if (markers.length > 0 && Math.abs(markers[markers.length-1].time - totalDuration) < 0.5) {
+  const last = markers[markers.length - 1];
+  if (last && !last.pinned && Math.abs(last.time - totalDuration) < 0.5) {
       markers.pop();
   }
 
   return markers;
 };
 
-// --- BINARY SEARCH FOR TARGET COUNT ---
-// This ensures we respect the Min/Max constraints while trying to hit the target count.
+// --- EXACT COUNT: DYNAMIC PROGRAMMING OVER ONSET PEAKS ---
+// Picks exactly N cuts that maximise total onset strength while every shot stays within [min, max].
+// Zero-strength Safety candidates on a fine grid keep quiet passages feasible.
+
+const FILLER_SPACING = 0.25; // Seconds between Safety candidates
+const FILLER_CLEARANCE = 0.1; // No Safety candidate this close to a real peak
+
+interface CutCandidate {
+    time: number;
+    strength: number;
+    type: Marker['type'];
+    pinned?: Marker; // Anchor that must be kept as-is
+}
+
+const collectCutCandidates = (
+    times: number[],
+    values: number[],
+    totalDuration: number,
+    pinned: Marker[]
+): CutCandidate[] => {
+    const noiseFloor = 0.05;
+    const candidates: CutCandidate[] = [];
+
+    for (let i = 1; i < values.length - 1; i++) {
+        if (values[i] > noiseFloor && values[i] >= values[i - 1] && values[i] >= values[i + 1]) {
+            candidates.push({ time: times[i], strength: values[i], type: 'Cut' });
+        }
+    }
+
+    const peakTimes = candidates.map(c => c.time);
+    let p = 0;
+    for (let t = FILLER_SPACING; t < totalDuration; t += FILLER_SPACING) {
+        while (p < peakTimes.length && peakTimes[p] < t - FILLER_CLEARANCE) p++;
+        if (p < peakTimes.length && Math.abs(peakTimes[p] - t) < FILLER_CLEARANCE) continue;
+        candidates.push({ time: t, strength: 0, type: 'Safety' });
+    }
+
+    // Pinned markers replace any candidate at the same moment
+    const free = candidates.filter(c => pinned.every(m => Math.abs(m.time - c.time) > 0.001));
+    pinned.forEach(m => free.push({ time: m.time, strength: m.strength, type: m.type, pinned: m }));
+
+    return free.sort((a, b) => a.time - b.time);
+};
+
 export const generateMarkersByCount = (
     onsetData: OnsetData,
     targetCount: number,
     duration: number,
-    constraints: { minDuration: number, maxDuration: number }
+    constraints: { minDuration: number, maxDuration: number, bandWeights?: BandWeights, pinned?: Marker[] }
+): MarkerCountResult => {
+    const { minDuration, maxDuration } = constraints;
+    const tolerance = 0.001;
+    const lastShotMin = 0.5; // Matches the "too close to end" cleanup of generateMarkers
+
+    const pinned = (constraints.pinned || []).filter(m => m.time >= 0 && m.time < duration);
+    const values = getWeightedEnvelope(onsetData, constraints.bandWeights);
+    const candidates = collectCutCandidates(onsetData.times, values, duration, pinned);
+    const n = candidates.length;
+    const times = candidates.map(c => c.time);
+
+    // Index of the latest pinned candidate before j (-1 = none): transitions may not skip it
+    const prevPinned = new Int32Array(n);
+    let lastPinned = -1;
+    for (let j = 0; j < n; j++) {
+        prevPinned[j] = lastPinned;
+        if (candidates[j].pinned) lastPinned = j;
+    }
+
+    // Hand-placed spacing between two pins (or a pin and the start) is always accepted
+    const gapAllowed = (gap: number, bothPinned: boolean) =>
+        bothPinned || (gap >= minDuration - tolerance && gap <= maxDuration + tolerance);
+
+    // The last shot runs to the end of the track
+    const endAllowed = (j: number) => {
+        const gap = duration - times[j];
+        return j >= lastPinned && gap <= maxDuration + tolerance && (gap >= lastShotMin || !!candidates[j].pinned);
+    };
+
+    // Most cuts that could possibly fit
+    const maxCount = Math.min(n, Math.ceil(duration / Math.max(minDuration, 0.01)) + pinned.length + 1);
+
+    // score[j]: best total strength of a valid sequence of k cuts ending at candidate j
+    let score = new Float64Array(n).fill(-Infinity);
+    const backlinks: Int32Array[] = []; // backlinks[k - 1][j]: previous cut of the best k-cut sequence ending at j
+    const endIndex: number[] = [];      // endIndex[k]: last cut of the best complete k-cut sequence
+    const feasibleCounts: number[] = [];
+
+    if (pinned.length === 0 && duration <= maxDuration + tolerance) {
+        feasibleCounts.push(0);
+    }
+
+    // Counts past an achievable target aren't needed; the full range is only searched to explain a miss
+    const reachedTarget = () => feasibleCounts[feasibleCounts.length - 1] === targetCount;
+
+    // k = 1: first cut measured from the start of the track
+    const firstBack = new Int32Array(n).fill(-1);
+    for (let j = 0; j < n; j++) {
+        if (prevPinned[j] >= 0) break;
+        if (gapAllowed(times[j], !!candidates[j].pinned)) score[j] = candidates[j].strength;
+    }
+    backlinks.push(firstBack);
+
+    for (let k = 1; k <= maxCount && !reachedTarget(); k++) {
+        // Record whether k cuts can end the track
+        let bestEnd = -1;
+        for (let j = 0; j < n; j++) {
+            if (score[j] > -Infinity && endAllowed(j) && (bestEnd < 0 || score[j] > score[bestEnd])) bestEnd = j;
+        }
+        if (bestEnd >= 0) {
+            feasibleCounts.push(k);
+            endIndex[k] = bestEnd;
+        }
+        if (k === maxCount || reachedTarget()) break;
+
+        // Extend to k + 1 cuts
+        const next = new Float64Array(n).fill(-Infinity);
+        const back = new Int32Array(n).fill(-1);
+        let lo = 0;
+        let anyReachable = false;
+
+        for (let j = 0; j < n; j++) {
+            while (lo < j && times[j] - times[lo] > maxDuration + tolerance) lo++;
+            const from = Math.max(lo, prevPinned[j]);
+
+            for (let i = from; i < j; i++) {
+                if (score[i] === -Infinity) continue;
+                const bothPinned = !!candidates[i].pinned && !!candidates[j].pinned;
+                if (!gapAllowed(times[j] - times[i], bothPinned)) continue;
+                const total = score[i] + candidates[j].strength;
+                if (total > next[j]) {
+                    next[j] = total;
+                    back[j] = i;
+                }
+            }
+
+            // Consecutive pins may be further apart than maxDuration
+            const p = prevPinned[j];
+            if (candidates[j].pinned && p >= 0 && p < lo && score[p] > -Infinity) {
+                const total = score[p] + candidates[j].strength;
+                if (total > next[j]) {
+                    next[j] = total;
+                    back[j] = p;
+                }
+            }
+
+            if (next[j] > -Infinity) anyReachable = true;
+        }
+
+        backlinks.push(back);
+        score = next;
+        if (!anyReachable) break;
+    }
+
+    if (feasibleCounts.length === 0) {
+        return { markers: [...pinned].sort((a, b) => a.time - b.time), requested: targetCount, feasibleRange: null };
+    }
+
+    const feasibleRange: [number, number] = [feasibleCounts[0], feasibleCounts[feasibleCounts.length - 1]];
+    const count = feasibleCounts.reduce((best, k) =>
+        Math.abs(k - targetCount) < Math.abs(best - targetCount) ? k : best
+    );
+
+    // Walk the backlinks from the best final cut
+    const chosen: number[] = [];
+    for (let k = count, j = count > 0 ? endIndex[count] : -1; k > 0 && j >= 0; k--) {
+        chosen.push(j);
+        j = backlinks[k - 1][j];
+    }
+    chosen.reverse();
+
+    const markers: Marker[] = chosen.map(j => candidates[j].pinned || {
+        id: crypto.randomUUID(),
+        time: candidates[j].time,
+        strength: candidates[j].strength,
+        type: candidates[j].type
+    });
+
+    return { markers, requested: targetCount, feasibleRange };
+};
+
+// --- MUSICAL MODE: CUT EVERY N BEATS / BARS ---
+
+// Onset strength at the frame closest to a given time (binary search)
+export const strengthAt = (onsetData: OnsetData, time: number): number => {
+    const { times, values } = onsetData;
+    if (times.length === 0) return 0;
+    let lo = 0;
+    let hi = times.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (times[mid] < time) lo = mid + 1; else hi = mid;
+    }
+    if (lo > 0 && Math.abs(times[lo - 1] - time) < Math.abs(times[lo] - time)) lo--;
+    return values[lo];
+};
+
+// Places cuts on the beat grid instead of on onset peaks.
+// Min/Max still win: cuts that come too soon are skipped, and gaps longer than
+// maxDuration get a Safety cut on the latest grid point that fits (or at maxDuration).
+// Returns an empty list when the track has no beat grid.
+export const generateGridMarkers = (
+    onsetData: OnsetData,
+    grid: GridMarkerOptions,
+    constraints: { minDuration: number, maxDuration: number, pinned?: Marker[] },
+    totalDuration: number
 ): Marker[] => {
-    
-    let low = 0.0;
-    let high = 1.0;
-    let bestMarkers: Marker[] = [];
-    let minDiff = Infinity;
-
-    // 8 iterations gives us precision ~0.004 on sensitivity, which is plenty.
-    for(let i=0; i<8; i++) {
-        const mid = (low + high) / 2;
-        const result = generateMarkers(onsetData, {
-            minDuration: constraints.minDuration,
-            maxDuration: constraints.maxDuration,
-            sensitivity: mid
-        }, duration);
-
-        const diff = Math.abs(result.length - targetCount);
-        
-        if (diff < minDiff) {
-            minDiff = diff;
-            bestMarkers = result;
+    const beatGrid = onsetData.beatGrid;
+    if (!beatGrid) return [];
+
+    const points = grid.unit === 'bar' ? beatGrid.downbeats : beatGrid.beats;
+    const gridType: Marker['type'] = grid.unit === 'bar' ? 'Bar' : 'Beat';
+    const { minDuration, maxDuration } = constraints;
+    const tolerance = 0.001; // Grid times are frame-quantized, don't let float error force Safety cuts
+    const markers: Marker[] = [];
+
+    const everyAt = (time: number): number => {
+        const segment = grid.segments?.find(s => time >= s.start && time < s.end);
+        return Math.max(1, Math.round(segment ? segment.every : grid.every));
+    };
+
+    let cursor = 0.0;
+    const commit = (time: number, type: Marker['type']) => {
+        markers.push({
+            id: crypto.randomUUID(),
+            time,
+            strength: type === 'Safety' && !points.includes(time) ? 0 : strengthAt(onsetData, time),
+            type
+        });
+        cursor = time;
+    };
+
+    let index = Math.max(0, Math.round(grid.offset));
+
+    while (index < points.length) {
+        const time = points[index];
+        if (time >= totalDuration) break;
+
+        const gap = time - cursor;
+
+        // Too soon after the previous cut: wait for a later grid point
+        if (gap < minDuration - tolerance) {
+            index++;
+            continue;
         }
 
-        if (result.length === targetCount) break;
+        // Too long: force a cut on the latest grid point that fits, else at maxDuration
+        if (gap > maxDuration + tolerance) {
+            let forced = -1;
+            for (let j = index - 1; j >= 0 && points[j] > cursor; j--) {
+                if (points[j] - cursor >= minDuration - tolerance && points[j] - cursor <= maxDuration + tolerance) {
+                    forced = j;
+                    break;
+                }
+            }
+            commit(forced >= 0 ? points[forced] : cursor + maxDuration, 'Safety');
+            continue;
+        }
 
-        if (result.length < targetCount) {
-            // Too few cuts? We need higher sensitivity (more density).
-            low = mid;
-        } else {
-            // Too many cuts? We need lower sensitivity.
-            high = mid;
+        commit(time, gridType);
+        index += everyAt(time);
+    }
+
+    // Past the last grid point: keep shots within maxDuration
+    while (totalDuration - cursor > maxDuration + tolerance) {
+        commit(cursor + maxDuration, 'Safety');
+    }
+
+    // Cleanup: Remove last marker if it's too close to end
+    if (markers.length > 0 && Math.abs(markers[markers.length-1].time - totalDuration) < 0.5) {
+        markers.pop();
+    }
+
+    // Pinned markers win: drop grid cuts that would leave a shot shorter than minDuration next to one
+    const pinned = constraints.pinned || [];
+    if (pinned.length > 0) {
+        const kept = markers.filter(m => pinned.every(p => Math.abs(p.time - m.time) >= minDuration - tolerance));
+        return [...kept, ...pinned].sort((a, b) => a.time - b.time);
+    }
+
+    return markers;
+};
+
+// Pick the generator for the current settings: grid (when the track has a beat grid),
+// exact count, or the sensitivity-driven onset algorithm
+const generateForTrack = (
+    onsetData: OnsetData,
+    settings: MarkerSettings,
+    totalDuration: number
+): MarkerGenerationResult => {
+    const { minDuration, maxDuration, bandWeights, pinned } = settings;
+
+    if (settings.mode === 'grid' && settings.gridOptions && onsetData.beatGrid) {
+        return {
+            markers: generateGridMarkers(onsetData, settings.gridOptions, { minDuration, maxDuration, pinned }, totalDuration),
+            countReport: null
+        };
+    }
+
+    if (settings.targetCount !== undefined) {
+        const { markers, ...countReport } = generateMarkersByCount(
+            onsetData,
+            settings.targetCount,
+            totalDuration,
+            { minDuration, maxDuration, bandWeights, pinned }
+        );
+        return { markers, countReport };
+    }
+
+    return {
+        markers: generateMarkers(onsetData, {
+            minDuration,
+            maxDuration,
+            sensitivity: settings.sensitivity,
+            densityCurve: settings.densityCurve,
+            bandWeights,
+            pinned
+        }, totalDuration),
+        countReport: null
+    };
+};
+
+// --- REGION OF INTEREST ---
+
+// Onset data for [start, end), shifted so the window starts at 0. Strengths keep their
+// whole-song normalization so a quiet region doesn't get boosted
+const windowOnsetData = (onsetData: OnsetData, start: number, end: number): OnsetData => {
+    const inWindow = (t: number) => t >= start && t < end;
+    const shift = (t: number) => t - start;
+
+    const indices: number[] = [];
+    onsetData.times.forEach((t, i) => { if (inWindow(t)) indices.push(i); });
+    const pick = (values: number[]) => indices.map(i => values[i]);
+
+    let bands: OnsetData['bands'];
+    if (onsetData.bands) {
+        bands = {} as Record<OnsetBandName, number[]>;
+        BAND_NAMES.forEach(name => { bands![name] = pick(onsetData.bands![name]); });
+    }
+
+    const grid = onsetData.beatGrid;
+    const beatIndices = grid ? grid.beats.map((t, i) => inWindow(t) ? i : -1).filter(i => i >= 0) : [];
+    const beatGrid = grid ? {
+        ...grid,
+        beats: beatIndices.map(i => shift(grid.beats[i])),
+        beatPositions: beatIndices.map(i => grid.beatPositions[i]),
+        downbeats: grid.downbeats.filter(inWindow).map(shift),
+        tempoCurve: grid.tempoCurve.filter(p => inWindow(p.time)).map(p => ({ ...p, time: shift(p.time) }))
+    } : grid;
+
+    return {
+        ...onsetData,
+        times: pick(onsetData.times).map(shift),
+        values: pick(onsetData.values),
+        bands,
+        beatGrid,
+        curves: undefined // Not used for marker generation
+    };
+};
+
+const REGION_EDGE = 0.005; // Generated cuts this close to the region start merge into the opening cut
+
+/**
+ * Generate markers for the current settings. With a region, cuts are only placed inside it and
+ * the first cut sits on the region start (shots run from each marker to the next, and the last
+ * one to the region end). A target count includes that opening cut.
+ * Pinned markers outside the region are kept as they are, so widening the region brings them back
+ */
+export const generateMarkersForSettings = (
+    onsetData: OnsetData,
+    settings: MarkerSettings,
+    totalDuration: number
+): MarkerGenerationResult => {
+    if (!settings.region) return generateForTrack(onsetData, settings, totalDuration);
+
+    const start = Math.max(0, Math.min(settings.region.start, totalDuration));
+    const end = Math.max(start, Math.min(settings.region.end, totalDuration));
+    const edge = REGION_EDGE;
+
+    const toLocal = <T extends { time: number }>(item: T): T => ({ ...item, time: item.time - start });
+    const local: MarkerSettings = {
+        ...settings,
+        region: null,
+        targetCount: settings.targetCount !== undefined ? Math.max(0, settings.targetCount - 1) : undefined,
+        pinned: settings.pinned?.filter(m => m.time > start + edge && m.time < end).map(toLocal),
+        densityCurve: settings.densityCurve?.map(toLocal),
+        gridOptions: settings.gridOptions && {
+            ...settings.gridOptions,
+            segments: settings.gridOptions.segments?.map(s => ({ ...s, start: s.start - start, end: s.end - start }))
         }
+    };
+
+    const result = generateForTrack(windowOnsetData(onsetData, start, end), local, end - start);
+
+    const opening: Marker = settings.pinned?.find(m => Math.abs(m.time - start) <= edge) ?? {
+        id: crypto.randomUUID(),
+        time: start,
+        strength: strengthAt(onsetData, start),
+        type: 'Cut'
+    };
+    const outside = settings.pinned?.filter(m => m.time < start - edge || m.time >= end) ?? [];
+    const markers = [
+        opening,
+        ...result.markers.filter(m => m.time > edge).map(m => ({ ...m, time: m.time + start })),
+        ...outside
+    ].sort((a, b) => a.time - b.time);
+
+    const report = result.countReport;
+    const countReport = report && {
+        requested: settings.targetCount!,
+        feasibleRange: report.feasibleRange && [report.feasibleRange[0] + 1, report.feasibleRange[1] + 1] as [number, number]
+    };
+
+    return { markers, countReport };
+};
+
+// The cuts that make up the shots of a region (the marker list also keeps pinned markers outside it)
+export const markersInRegion = (markers: Marker[], region: TimeRegion | null | undefined): Marker[] =>
+    region
+        ? markers.filter(m => m.time >= region.start - REGION_EDGE && m.time < region.end)
+        : markers;
+
+// Clip sections (and their labels) to a region, dropping the ones outside it
+export const sectionsInRegion = (sections: SongSection[], region: TimeRegion | null | undefined): SongSection[] =>
+    region
+        ? sections
+            .filter(s => s.end > region.start && s.start < region.end)
+            .map(s => ({ ...s, start: Math.max(s.start, region.start), end: Math.min(s.end, region.end) }))
+        : sections;
+
+// --- MANUAL EDITING ---
+
+// Regenerated markers get fresh ids. Carry ids over from the previous markers wherever a
+// new marker lands on the same time, so storyboard scenes linked to unchanged cuts stay linked
+export const reconcileMarkerIds = (previous: Marker[], next: Marker[]): Marker[] => {
+    const tolerance = 0.005;
+    const used = new Set(next.filter(m => m.pinned).map(m => m.id));
+    return next.map(marker => {
+        if (marker.pinned) return marker;
+        const match = previous.find(p => !used.has(p.id) && Math.abs(p.time - marker.time) < tolerance);
+        if (!match) return marker;
+        used.add(match.id);
+        return { ...marker, id: match.id };
+    });
+};
+
+// How far (in seconds) a manual edit looks for an onset peak to snap to
+const SNAP_WINDOW = 0.15;
+
+// Snap a manually placed marker to the strongest nearby onset or the nearest beat
+export const snapMarkerTime = (
+    time: number,
+    mode: MarkerSnapMode,
+    onsetData: OnsetData | null,
+    totalDuration: number
+): number => {
+    const clamped = Math.max(0, Math.min(time, totalDuration));
+    if (!onsetData || mode === 'off') return clamped;
+
+    if (mode === 'grid') {
+        const beats = onsetData.beatGrid?.beats;
+        if (!beats || beats.length === 0) return clamped;
+        return beats.reduce((best, b) => Math.abs(b - clamped) < Math.abs(best - clamped) ? b : best);
     }
 
-    return bestMarkers;
-}
+    let bestTime = clamped;
+    let bestValue = -1;
+    for (let i = 0; i < onsetData.times.length; i++) {
+        const t = onsetData.times[i];
+        if (t < clamped - SNAP_WINDOW) continue;
+        if (t > clamped + SNAP_WINDOW) break;
+        if (onsetData.values[i] > bestValue) {
+            bestValue = onsetData.values[i];
+            bestTime = t;
+        }
+    }
+    return bestTime;
+};
+
+// Shots this far below the loudest one have loudness 0
+const LOUDNESS_RANGE_DB = 24;
+
+// Mean of a curve over [start, end); the nearest sample when the range is shorter than one hop
+const curveMean = (values: number[], hop: number, start: number, end: number): number => {
+    const from = Math.max(0, Math.floor(start / hop));
+    const to = Math.min(values.length, Math.ceil(end / hop));
+    if (to <= from) return values[Math.min(values.length - 1, Math.max(0, Math.round(start / hop)))] ?? 0;
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += values[i];
+    return sum / (to - from);
+};
+
+// Per-shot timing context for the planner: each marker starts a shot that runs to the next one
+export const buildShotTimings = (
+    markers: Marker[],
+    totalDuration: number,
+    onsetData?: OnsetData | null,
+    sections?: SongSection[],
+    lyricLines?: LyricLine[]
+): ShotTiming[] => {
+    const shots = markers.map((marker, i) => {
+        const end = i < markers.length - 1 ? markers[i + 1].time : totalDuration;
+
+        // Mean onset strength over the shot
+        let energy = 0;
+        if (onsetData) {
+            let sum = 0;
+            let count = 0;
+            for (let j = 0; j < onsetData.times.length && onsetData.times[j] < end; j++) {
+                if (onsetData.times[j] >= marker.time) {
+                    sum += onsetData.values[j];
+                    count++;
+                }
+            }
+            energy = count > 0 ? sum / count : marker.strength;
+        }
+
+        // Section the shot mostly sits in (its midpoint)
+        const mid = (marker.time + end) / 2;
+        const section = sections?.find(s => mid >= s.start && mid < s.end);
+        const lyric = lyricLines ? lyricsInRange(lyricLines, marker.time, end).map(l => l.text).join(' / ') : '';
+
+        // Vocal presence and loudness (LUFS until normalized below)
+        const curves = onsetData?.curves;
+
+        return {
+            markerId: marker.id,
+            startTime: marker.time,
+            duration: Math.max(0, end - marker.time),
+            type: marker.type,
+            energy,
+            section: section?.label,
+            lyric: lyric || undefined,
+            vocal: curves ? curveMean(curves.vocal, curves.hop, marker.time, end) : undefined,
+            loudness: curves ? curveMean(curves.loudness, curves.hop, marker.time, end) : undefined
+        };
+    });
+
+    const maxEnergy = Math.max(...shots.map(s => s.energy), 0.00001);
+    // Loudness relative to the loudest shot: LOUDNESS_RANGE_DB quieter reads as 0
+    const maxLoudness = Math.max(...shots.map(s => s.loudness ?? -Infinity));
+    return shots.map(s => ({
+        ...s,
+        energy: s.energy / maxEnergy,
+        loudness: s.loudness !== undefined ? Math.max(0, 1 + (s.loudness - maxLoudness) / LOUDNESS_RANGE_DB) : undefined
+    }));
+};
@@ -0,0 +1,259 @@
+import { BeatGrid, OnsetData, TempoPoint, BandWeights } from "../types";
+import { getWeightedEnvelope } from "./onsetEnvelopeService";
+
+// Tempo search range and prior
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PRIOR_BPM = 120;
+const PRIOR_OCTAVE_WIDTH = 1.0;
+
+// Local tempo is estimated on sliding windows so tempo changes are followed
+const TEMPO_WINDOW_SECONDS = 8;
+const TEMPO_HOP_SECONDS = 2;
+
+// Keep the previous window's tempo octave unless the new one is clearly stronger
+// (stops half-time sections from halving the grid)
+const OCTAVE_SWITCH_RATIO = 0.7;
+
+// How strongly the DP penalises beat intervals that deviate from the local period
+const TIGHTNESS = 100;
+
+const BEATS_PER_BAR = 4;
+
+// Track on a band-balanced envelope so broadband hi-hats don't outvote kicks and snares
+const TRACKING_BAND_WEIGHTS: BandWeights = { low: 1, mid: 1, high: 0.5 };
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Log-Gaussian tempo prior centred on PRIOR_BPM
+const tempoPrior = (lag: number, frameRate: number): number => {
+  const bpm = (60 * frameRate) / lag;
+  const octaves = Math.log2(bpm / PRIOR_BPM) / PRIOR_OCTAVE_WIDTH;
+  return Math.exp(-0.5 * octaves * octaves);
+};
+
+// Mean-removed autocorrelation of envelope[start, end) for every lag in range
+const windowAutocorrelation = (
+  envelope: number[],
+  start: number,
+  end: number,
+  minLag: number,
+  maxLag: number
+): Float64Array => {
+  let mean = 0;
+  for (let i = start; i < end; i++) mean += envelope[i];
+  mean /= Math.max(1, end - start);
+
+  const ac = new Float64Array(maxLag + 1);
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = start; i + lag < end; i++) {
+      sum += (envelope[i] - mean) * (envelope[i + lag] - mean);
+    }
+    ac[lag] = sum;
+  }
+  return ac;
+};
+
+/**
+ * Estimate the beat period (in frames) on sliding windows
+ * Returns one period per window plus the frame index of each window centre
+ */
+const estimateLocalPeriods = (
+  envelope: number[],
+  frameRate: number
+): { centres: number[], periods: number[] } => {
+  const minLag = Math.max(1, Math.floor((60 * frameRate) / MAX_BPM));
+  const maxLag = Math.ceil((60 * frameRate) / MIN_BPM);
+  const windowFrames = Math.max(maxLag * 4, Math.round(TEMPO_WINDOW_SECONDS * frameRate));
+  const hopFrames = Math.round(TEMPO_HOP_SECONDS * frameRate);
+
+  const centres: number[] = [];
+  const periods: number[] = [];
+  let previousLag = 0;
+
+  for (let start = 0; start < envelope.length; start += hopFrames) {
+    const end = Math.min(envelope.length, start + windowFrames);
+    if (end - start < maxLag * 2) break;
+
+    const ac = windowAutocorrelation(envelope, start, end, minLag, maxLag);
+    const weighted = (lag: number) => ac[lag] * tempoPrior(lag, frameRate);
+
+    let bestLag = minLag;
+    for (let lag = minLag + 1; lag <= maxLag; lag++) {
+      if (weighted(lag) > weighted(bestLag)) bestLag = lag;
+    }
+    if (weighted(bestLag) <= 0) continue; // No periodicity (silence / ambient)
+
+    // Octave consistency with the previous window
+    let chosenLag = bestLag;
+    if (previousLag > 0) {
+      const candidates = [bestLag, bestLag * 2, Math.round(bestLag / 2)]
+        .filter(lag => lag >= minLag && lag <= maxLag && weighted(lag) >= OCTAVE_SWITCH_RATIO * weighted(bestLag));
+      chosenLag = candidates.reduce((best, lag) =>
+        Math.abs(Math.log2(lag / previousLag)) < Math.abs(Math.log2(best / previousLag)) ? lag : best
+      );
+    }
+
+    centres.push(Math.round((start + end) / 2));
+    periods.push(chosenLag);
+    previousLag = chosenLag;
+  }
+
+  // Median filter over 3 windows to remove single-window glitches
+  const smoothed = periods.map((_, i) => median(periods.slice(Math.max(0, i - 1), i + 2)));
+  return { centres, periods: smoothed };
+};
+
+// Linear interpolation of the local period at every frame
+const periodAtFrames = (length: number, centres: number[], periods: number[]): Float64Array => {
+  const result = new Float64Array(length);
+  let w = 0;
+  for (let t = 0; t < length; t++) {
+    while (w < centres.length - 1 && centres[w + 1] <= t) w++;
+    if (t <= centres[0]) {
+      result[t] = periods[0];
+    } else if (w >= centres.length - 1) {
+      result[t] = periods[periods.length - 1];
+    } else {
+      const frac = (t - centres[w]) / (centres[w + 1] - centres[w]);
+      result[t] = periods[w] + frac * (periods[w + 1] - periods[w]);
+    }
+  }
+  return result;
+};
+
+/**
+ * Dynamic-programming beat tracker (Ellis 2007) with a time-varying period
+ * Each frame's score is its onset strength plus the best predecessor score,
+ * penalised by how far the interval deviates from the local beat period
+ */
+const trackBeatFrames = (envelope: number[], period: Float64Array): number[] => {
+  const n = envelope.length;
+  const score = new Float64Array(n);
+  const backlink = new Int32Array(n).fill(-1);
+
+  // Normalise by standard deviation so TIGHTNESS is scale independent
+  const mean = envelope.reduce((a, b) => a + b, 0) / n;
+  const std = Math.sqrt(envelope.reduce((a, b) => a + (b - mean) * (b - mean), 0) / n) || 1;
+
+  for (let t = 0; t < n; t++) {
+    const local = envelope[t] / std;
+    const p = period[t];
+    const from = Math.max(0, t - Math.round(2 * p));
+    const to = t - Math.round(p / 2);
+
+    let best = -Infinity;
+    let bestPrev = -1;
+    for (let prev = from; prev <= to; prev++) {
+      const deviation = Math.log((t - prev) / p);
+      const candidate = score[prev] - TIGHTNESS * deviation * deviation;
+      if (candidate > best) {
+        best = candidate;
+        bestPrev = prev;
+      }
+    }
+
+    if (bestPrev >= 0 && best > 0) {
+      score[t] = local + best;
+      backlink[t] = bestPrev;
+    } else {
+      score[t] = local;
+    }
+  }
+
+  // Start backtracking from the best-scoring frame within the last beat period
+  const tailStart = Math.max(0, n - Math.round(period[n - 1]));
+  let end = tailStart;
+  for (let t = tailStart + 1; t < n; t++) {
+    if (score[t] > score[end]) end = t;
+  }
+
+  const frames: number[] = [];
+  for (let t = end; t >= 0; t = backlink[t]) {
+    frames.push(t);
+  }
+  frames.reverse();
+
+  // Trim beats in leading / trailing silence
+  const beatStrengths = frames.map(f => envelope[f]);
+  const threshold = 0.5 * median(beatStrengths);
+  while (frames.length > 0 && envelope[frames[0]] < threshold) frames.shift();
+  while (frames.length > 0 && envelope[frames[frames.length - 1]] < threshold) frames.pop();
+
+  return frames;
+};
+
+/**
+ * Pick the bar phase whose beats carry the most (preferably low-band) energy
+ * Kicks tend to land on downbeats in most popular music
+ */
+const findDownbeatPhase = (beatFrames: number[], accentEnvelope: number[]): number => {
+  let bestPhase = 0;
+  let bestScore = -Infinity;
+  for (let phase = 0; phase < BEATS_PER_BAR; phase++) {
+    let sum = 0;
+    let count = 0;
+    for (let i = phase; i < beatFrames.length; i += BEATS_PER_BAR) {
+      sum += accentEnvelope[beatFrames[i]];
+      count++;
+    }
+    const avg = count > 0 ? sum / count : 0;
+    if (avg > bestScore) {
+      bestScore = avg;
+      bestPhase = phase;
+    }
+  }
+  return bestPhase;
+};
+
+/**
+ * Track beats, downbeats and a tempo curve over the onset envelope
+ * Returns null when the track has no usable pulse
+ */
+export const trackBeats = (onsetData: OnsetData, frameRate: number): BeatGrid | null => {
+  const envelope = getWeightedEnvelope(onsetData, TRACKING_BAND_WEIGHTS);
+  if (envelope.length < frameRate * 4) return null;
+
+  const { centres, periods } = estimateLocalPeriods(envelope, frameRate);
+  if (periods.length === 0) return null;
+
+  const period = periodAtFrames(envelope.length, centres, periods);
+  const beatFrames = trackBeatFrames(envelope, period);
+  if (beatFrames.length < BEATS_PER_BAR * 2) return null;
+
+  const beats = beatFrames.map(f => onsetData.times[f]);
+
+  // Bar positions
+  const phase = findDownbeatPhase(beatFrames, onsetData.bands?.low || envelope);
+  const beatPositions = beats.map((_, i) => (((i - phase) % BEATS_PER_BAR) + BEATS_PER_BAR) % BEATS_PER_BAR);
+  const downbeats = beats.filter((_, i) => beatPositions[i] === 0);
+
+  // Tempo curve from a running median of beat intervals
+  const intervals = beats.slice(1).map((t, i) => t - beats[i]);
+  const tempoCurve: TempoPoint[] = intervals.map((_, i) => ({
+    time: beats[i + 1],
+    bpm: 60 / median(intervals.slice(Math.max(0, i - 2), i + 3))
+  }));
+
+  // Confidence: how much stronger the envelope is on beats than halfway between them
+  const onBeat = beatFrames.reduce((sum, f) => sum + envelope[f], 0) / beatFrames.length;
+  const offBeatFrames = beatFrames.slice(1).map((f, i) => Math.round((f + beatFrames[i]) / 2));
+  const offBeat = offBeatFrames.reduce((sum, f) => sum + envelope[f], 0) / Math.max(1, offBeatFrames.length);
+  const confidence = Math.max(0, Math.min(1, (onBeat - offBeat) / (onBeat + 0.00001)));
+
+  return {
+    beats,
+    downbeats,
+    beatPositions,
+    beatsPerBar: BEATS_PER_BAR,
+    tempoCurve,
+    bpm: 60 / median(intervals),
+    confidence
+  };
+};
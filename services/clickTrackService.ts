@@ -0,0 +1,119 @@
+import { BeatGrid, ClickEvent, ClickKind, ClickTrackSettings, Marker, PcmAudio, TimeRegion } from "../types";
+
+// Short decaying sine bursts; cuts sit above the metronome in pitch so the two stay distinguishable
+const CLICK_SOUNDS: Record<ClickKind, { hz: number, seconds: number, gain: number }> = {
+  accent: { hz: 2500, seconds: 0.05, gain: 0.9 },
+  cut: { hz: 1600, seconds: 0.035, gain: 0.6 },
+  downbeat: { hz: 1000, seconds: 0.04, gain: 0.45 },
+  beat: { hz: 800, seconds: 0.03, gain: 0.25 }
+};
+
+const CLICK_ATTACK_SECONDS = 0.001;
+
+/**
+ * Click times for the preview and the export: one per marker (Safety markers accented)
+ * and, with the metronome on, one per beat of the grid; limited to the cutdown region
+ */
+export const buildClickEvents = (
+  markers: Marker[],
+  beatGrid: BeatGrid | null | undefined,
+  settings: ClickTrackSettings,
+  region?: TimeRegion | null
+): ClickEvent[] => {
+  const events: ClickEvent[] = [];
+  if (settings.cuts) {
+    markers.forEach(m => events.push({ time: m.time, kind: m.type === 'Safety' ? 'accent' : 'cut' }));
+  }
+  if (settings.metronome && beatGrid) {
+    beatGrid.beats.forEach((time, i) => events.push({ time, kind: beatGrid.beatPositions[i] === 0 ? 'downbeat' : 'beat' }));
+  }
+  return events
+    .filter(e => !region || (e.time >= region.start && e.time < region.end))
+    .sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Mono samples of one click at full volume
+ */
+export const synthesizeClick = (kind: ClickKind, sampleRate: number): Float32Array => {
+  const { hz, seconds, gain } = CLICK_SOUNDS[kind];
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  const attack = Math.max(1, Math.round(CLICK_ATTACK_SECONDS * sampleRate));
+  const decay = samples.length / 5; // ~-43dB by the end of the burst
+  for (let i = 0; i < samples.length; i++) {
+    const envelope = i < attack ? i / attack : Math.exp(-(i - attack) / decay);
+    samples[i] = gain * envelope * Math.sin((2 * Math.PI * hz * i) / sampleRate);
+  }
+  return samples;
+};
+
+/**
+ * The song with the clicks mixed in, trimmed to the cutdown region if there is one
+ * Peaks are scaled down rather than clipped when the clicks push the mix over full scale
+ */
+export const mixClickTrack = (
+  audio: PcmAudio,
+  events: ClickEvent[],
+  volume: number,
+  region?: TimeRegion | null
+): PcmAudio => {
+  const { sampleRate } = audio;
+  const from = region ? Math.floor(region.start * sampleRate) : 0;
+  const to = region ? Math.min(audio.channels[0].length, Math.ceil(region.end * sampleRate)) : audio.channels[0].length;
+  const channels = audio.channels.map(channel => channel.slice(from, to));
+
+  const clicks = new Map<ClickKind, Float32Array>();
+  events.forEach(event => {
+    if (!clicks.has(event.kind)) clicks.set(event.kind, synthesizeClick(event.kind, sampleRate));
+    const click = clicks.get(event.kind)!;
+    const start = Math.round(event.time * sampleRate) - from;
+    channels.forEach(channel => {
+      for (let i = Math.max(0, -start); i < click.length && start + i < channel.length; i++) {
+        channel[start + i] += volume * click[i];
+      }
+    });
+  });
+
+  let peak = 0;
+  channels.forEach(channel => { for (let i = 0; i < channel.length; i++) peak = Math.max(peak, Math.abs(channel[i])); });
+  if (peak > 1) channels.forEach(channel => { for (let i = 0; i < channel.length; i++) channel[i] /= peak; });
+
+  return { channels, sampleRate, duration: (to - from) / sampleRate };
+};
+
+/**
+ * 16-bit PCM WAV file
+ */
+export const encodeWav = (audio: PcmAudio): Blob => {
+  const numChannels = audio.channels.length;
+  const numFrames = audio.channels[0]?.length ?? 0;
+  const dataBytes = numFrames * numChannels * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataBytes));
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);                                // fmt chunk size
+  view.setUint16(20, 1, true);                                 // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, audio.sampleRate, true);
+  view.setUint32(28, audio.sampleRate * numChannels * 2, true); // Byte rate
+  view.setUint16(32, numChannels * 2, true);                   // Block align
+  view.setUint16(34, 16, true);                                // Bits per sample
+  writeText(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  let offset = 44;
+  for (let i = 0; i < numFrames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = Math.max(-1, Math.min(1, audio.channels[c][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return new Blob([view.buffer], { type: 'audio/wav' });
+};
@@ -0,0 +1,136 @@
+import { DensityKeyframe, DensityPreset, OnsetData, SongSection, SongSectionLabel } from "../types";
+
+export interface DensitySettings {
+  sensitivity: number;
+  minDuration: number;
+  maxDuration: number;
+}
+
+// "Follow energy": average the onset envelope over a window around each keyframe
+const ENERGY_WINDOW_SECONDS = 8;
+const ENERGY_STEP_SECONDS = 4;
+const ENERGY_SENSITIVITY_RANGE: [number, number] = [0.1, 0.9];
+const MIN_SENSITIVITY_CHANGE = 0.05; // Keyframes closer than this to the previous value are dropped
+
+// Section plateaus end just before the next section starts
+const SECTION_EDGE_SECONDS = 0.05;
+
+const SECTION_SENSITIVITY: Record<SongSectionLabel, number> = {
+  intro: 0.2,
+  verse: 0.45,
+  chorus: 0.85,
+  bridge: 0.5,
+  outro: 0.2
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const keyframe = (time: number, sensitivity: number): DensityKeyframe => ({
+  id: crypto.randomUUID(),
+  time,
+  sensitivity: clamp01(sensitivity)
+});
+
+export const sortKeyframes = (keyframes: DensityKeyframe[]): DensityKeyframe[] =>
+  [...keyframes].sort((a, b) => a.time - b.time);
+
+/**
+ * Density settings at a time. Sensitivity is linear between keyframes and held before the
+ * first / after the last; min/max overrides hold from their keyframe until the next one.
+ * Keyframes must be sorted by time
+ */
+export const densityAt = (keyframes: DensityKeyframe[], time: number, defaults: DensitySettings): DensitySettings => {
+  if (keyframes.length === 0) return defaults;
+
+  let index = -1; // Last keyframe at or before time
+  while (index + 1 < keyframes.length && keyframes[index + 1].time <= time) index++;
+
+  let sensitivity: number;
+  if (index < 0) {
+    sensitivity = keyframes[0].sensitivity;
+  } else if (index === keyframes.length - 1) {
+    sensitivity = keyframes[index].sensitivity;
+  } else {
+    const a = keyframes[index];
+    const b = keyframes[index + 1];
+    const t = b.time > a.time ? (time - a.time) / (b.time - a.time) : 0;
+    sensitivity = a.sensitivity + (b.sensitivity - a.sensitivity) * t;
+  }
+
+  const region = index >= 0 ? keyframes[index] : undefined;
+  const minDuration = region?.minDuration ?? defaults.minDuration;
+  const maxDuration = Math.max(minDuration, region?.maxDuration ?? defaults.maxDuration);
+  return { sensitivity, minDuration, maxDuration };
+};
+
+// Sensitivity from the average onset strength around each step: busy passages get fast cuts
+const followEnergy = (onsetData: OnsetData, duration: number): DensityKeyframe[] => {
+  const { times, values } = onsetData;
+  const samples: { time: number, energy: number }[] = [];
+
+  let lo = 0;
+  let hi = 0;
+  let sum = 0;
+  for (let time = 0; time <= duration; time += ENERGY_STEP_SECONDS) {
+    // Sliding window [time - w/2, time + w/2]
+    while (hi < times.length && times[hi] <= time + ENERGY_WINDOW_SECONDS / 2) sum += values[hi++];
+    while (lo < hi && times[lo] < time - ENERGY_WINDOW_SECONDS / 2) sum -= values[lo++];
+    samples.push({ time, energy: hi > lo ? sum / (hi - lo) : 0 });
+  }
+  if (samples.length === 0) return [];
+
+  const minEnergy = Math.min(...samples.map(s => s.energy));
+  const maxEnergy = Math.max(...samples.map(s => s.energy));
+  const [low, high] = ENERGY_SENSITIVITY_RANGE;
+  const points = samples.map(s => keyframe(
+    s.time,
+    low + (high - low) * (maxEnergy > minEnergy ? (s.energy - minEnergy) / (maxEnergy - minEnergy) : 0.5)
+  ));
+
+  // Thin out keyframes that barely change the curve. A point is kept when it moved away from
+  // the last kept one, together with the point before it so plateaus keep their edges
+  const kept: DensityKeyframe[] = [points[0]];
+  points.slice(1).forEach((point, i) => {
+    const isLast = i === points.length - 2;
+    if (!isLast && Math.abs(point.sensitivity - kept[kept.length - 1].sensitivity) < MIN_SENSITIVITY_CHANGE) return;
+    const prev = points[i];
+    if (prev !== kept[kept.length - 1] && Math.abs(prev.sensitivity - point.sensitivity) >= MIN_SENSITIVITY_CHANGE) {
+      kept.push(prev);
+    }
+    kept.push(point);
+  });
+  return kept;
+};
+
+// Plateaus per section: slow intros/outros, fast choruses
+const followSections = (sections: SongSection[]): DensityKeyframe[] =>
+  sections.flatMap(section => {
+    const sensitivity = SECTION_SENSITIVITY[section.label];
+    const end = section.end - SECTION_EDGE_SECONDS;
+    return end > section.start
+      ? [keyframe(section.start, sensitivity), keyframe(end, sensitivity)]
+      : [keyframe(section.start, sensitivity)];
+  });
+
+/**
+ * Build a starting curve. 'flat' holds the current sensitivity, 'build' ramps up over the song,
+ * 'energy' follows the onset envelope and 'sections' uses the detected song structure
+ * (falling back to 'energy' when there are no sections)
+ */
+export const buildDensityPreset = (
+  preset: DensityPreset,
+  context: { onsetData: OnsetData | null, sections: SongSection[], duration: number, sensitivity: number }
+): DensityKeyframe[] => {
+  const { onsetData, sections, duration, sensitivity } = context;
+  switch (preset) {
+    case 'flat':
+      return [keyframe(0, sensitivity)];
+    case 'build':
+      return [keyframe(0, 0.15), keyframe(duration, 0.9)];
+    case 'sections':
+      if (sections.length > 0) return followSections(sections);
+      return onsetData ? followEnergy(onsetData, duration) : [keyframe(0, sensitivity)];
+    case 'energy':
+      return onsetData ? followEnergy(onsetData, duration) : [keyframe(0, sensitivity)];
+  }
+};
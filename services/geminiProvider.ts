@@ -0,0 +1,168 @@
+import { GenerateContentResponse, GoogleGenAI, ThinkingLevel } from "@google/genai";
+import { AspectRatio, UsageRecord } from "../types";
+import type { ImageProvider, ImageRequest, TextProvider, TextRequest, TextTask } from "./aiProviders";
+import { AuthError, SafetyBlockedError, classifyError, withDeadline } from "./aiErrors";
+import { recordUsage, reserveBudget } from "./usageService";
+
+const TEXT_MODEL = "gemini-3-flash-preview";
+const LIGHT_TEXT_MODEL = "gemini-2.5-flash"; // Quick rewrites that don't need reasoning
+const IMAGE_MODEL = "gemini-3-pro-image-preview";
+const IMAGE_SIZE = "2K";
+
+const LIGHT_TASKS: TextTask[] = ['sanitize'];
+
+// USD per million tokens (thinking tokens bill as output); images are priced per 1K/2K image
+const TEXT_PRICING: Record<string, { input: number; output: number }> = {
+  [TEXT_MODEL]: { input: 0.5, output: 3 },
+  [LIGHT_TEXT_MODEL]: { input: 0.3, output: 2.5 }
+};
+const IMAGE_INPUT_PRICE = 2;
+const IMAGE_OUTPUT_PRICE = 0.134;
+
+const tokenCost = (tokens: number, perMillion: number) => tokens * perMillion / 1000000;
+
+const textCost = (model: string, inputTokens: number, outputTokens: number) =>
+  tokenCost(inputTokens, TEXT_PRICING[model].input) + tokenCost(outputTokens, TEXT_PRICING[model].output);
+
+const imageCost = (inputTokens: number, images: number) =>
+  tokenCost(inputTokens, IMAGE_INPUT_PRICE) + images * IMAGE_OUTPUT_PRICE;
+
+const TEXT_DEADLINE_MS = 180000;
+const IMAGE_DEADLINE_MS = 180000;
+
+// Reasons the API gives when it refuses a prompt or withholds the output
+const SAFETY_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const getApiKey = () => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw new AuthError("API Key not found in environment variables", 'gemini');
+  }
+  return apiKey;
+};
+
+// Blocked prompts come back as a normal response, so check before reading the output
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockedError(`Prompt blocked (${blockReason})`, 'gemini');
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_REASONS.includes(finishReason)) {
+    throw new SafetyBlockedError(`Output withheld (${finishReason})`, 'gemini');
+  }
+};
+
+/**
+ * One generateContent call: held against the budget while it runs, and recorded once a response
+ * arrives (blocked prompts still bill their input tokens)
+ * A call that passes its deadline may still be billed, so it is charged the estimate provisionally
+ */
+const callGemini = async (
+  ai: GoogleGenAI,
+  params: Parameters<GoogleGenAI['models']['generateContent']>[0],
+  deadlineMs: number,
+  what: string,
+  usage: Pick<UsageRecord, 'kind' | 'task'> & { estimate: number },
+  record: (response: GenerateContentResponse) => void
+): Promise<GenerateContentResponse> => {
+  const release = reserveBudget(usage.estimate, 'gemini', what);
+  try {
+    const response = await withDeadline(ai.models.generateContent(params), deadlineMs, 'gemini', what);
+    record(response);
+    assertNotBlocked(response);
+    return response;
+  } catch (e) {
+    const error = classifyError(e, 'gemini');
+    if (error.kind === 'timeout') {
+      recordUsage({
+        kind: usage.kind, provider: 'gemini', model: params.model, task: usage.task,
+        cost: usage.estimate,
+        provisional: true
+      });
+    }
+    throw error;
+  } finally {
+    release();
+  }
+};
+
+const outputTokens = (response: GenerateContentResponse) =>
+  (response.usageMetadata?.candidatesTokenCount ?? 0) + (response.usageMetadata?.thoughtsTokenCount ?? 0);
+
+// Helper to map app aspect ratios to supported API ratios
+// Supported: '1:1', '3:4', '4:3', '9:16', '16:9'
+const getSupportedAspectRatio = (ratio: AspectRatio): string => {
+  const supported = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+  return supported.includes(ratio) ? ratio : '16:9';
+};
+
+export const geminiTextProvider: TextProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  generateText: async (request: TextRequest): Promise<string> => {
+    const ai = new GoogleGenAI({ apiKey: getApiKey() });
+    const lightTask = LIGHT_TASKS.includes(request.task);
+    const model = lightTask ? LIGHT_TEXT_MODEL : TEXT_MODEL;
+
+    const response = await callGemini(ai, {
+      model,
+      contents: request.media?.length
+        ? { parts: [...request.media.map(media => ({ inlineData: media })), { text: request.prompt }] }
+        : request.prompt,
+      config: {
+        ...(request.schema ? { responseMimeType: "application/json", responseSchema: request.schema } : {}),
+        ...(request.thinking && !lightTask ? { thinkingConfig: { thinkingLevel: ThinkingLevel.HIGH } } : {})
+      }
+    }, TEXT_DEADLINE_MS, `Text request (${request.task})`, { kind: 'text', task: request.task, estimate: 0 }, response => {
+      const inputTokens = response.usageMetadata?.promptTokenCount ?? 0;
+      recordUsage({
+        kind: 'text', provider: 'gemini', model, task: request.task,
+        inputTokens, outputTokens: outputTokens(response),
+        cost: textCost(model, inputTokens, outputTokens(response))
+      });
+    });
+
+    return response.text?.trim() ?? '';
+  },
+  estimateCost: (inputTokens, outputTokens) => textCost(TEXT_MODEL, inputTokens, outputTokens)
+};
+
+export const geminiImageProvider: ImageProvider = {
+  id: 'gemini',
+  label: 'Gemini Image',
+  generateImage: async (request: ImageRequest): Promise<string | null> => {
+    const ai = new GoogleGenAI({ apiKey: getApiKey() });
+
+    const response = await callGemini(ai, {
+      model: IMAGE_MODEL,
+      contents: {
+        parts: [
+          ...request.images.map(data => ({ inlineData: { mimeType: "image/jpeg", data } })),
+          { text: request.prompt }
+        ]
+      },
+      config: {
+        imageConfig: {
+          aspectRatio: getSupportedAspectRatio(request.aspectRatio),
+          imageSize: IMAGE_SIZE,
+          output_mime_type: "image/jpeg"
+        } as any
+      }
+    }, IMAGE_DEADLINE_MS, `Image request (${request.task})`, { kind: 'image', task: request.task, estimate: imageCost(0, 1) }, response => {
+      const inputTokens = response.usageMetadata?.promptTokenCount ?? 0;
+      const images = (response.candidates?.[0]?.content?.parts || []).filter(part => part.inlineData?.data).length;
+      recordUsage({
+        kind: 'image', provider: 'gemini', model: IMAGE_MODEL, task: request.task,
+        inputTokens, images,
+        cost: imageCost(inputTokens, images)
+      });
+    });
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData?.data) return part.inlineData.data;
+    }
+    return null;
+  },
+  estimateCost: (images) => imageCost(0, images)
+};
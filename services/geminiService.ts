@@ -1,5 +1,43 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AudioAnalysis, Character, Location, VideoPlan, AspectRatio, HierarchyTree, HierarchyNode, TransformationDelta } from "../types";
+import { Type, Schema } from "@google/genai";
+import { AudioAnalysis, Character, Location, VideoPlan, AspectRatio, HierarchyTree, HierarchyNode, TransformationDelta, SongSection, ShotTiming, PlanIssue, VideoPlanResult, HierarchyPlanResult } from "../types";
+import { getTextProvider, getImageProvider, TextRequest, ImageRequest } from "./aiProviders";
+import { InvalidResponseError, describeError } from "./aiErrors";
+import { withRetry } from "./retryPolicy";
+import { CancellationToken, CancelledError } from "./requestScheduler";
+import { inspectVideoPlan, inspectHierarchy, scenesToRepair, framesToReparent, reconcileIssues, mergeAdjustedIssues, PlanDraft, PlanInspection, DraftScene, HierarchyOutput, HierarchyRelationship } from "./planValidationService";
+
+// Text requests are queued in the text lane and retry transient failures (429s, network, timeouts) here;
+// frame and clip loops queue and retry whole generations in the planner, where prompts can be sanitized
+// after safety blocks
+const requestText = async (request: TextRequest, what: string, token?: CancellationToken): Promise<string> => {
+  const provider = getTextProvider();
+  return withRetry(async () => {
+    const text = await provider.generateText(request);
+    if (!text) throw new InvalidResponseError(`No ${what} in the response`, provider.id);
+    return text;
+  }, { label: `Text: ${request.task}`, token, schedule: { kind: 'text', provider: provider.id } });
+};
+
+// Unparseable JSON is an invalid response too, and retried as one
+const requestJson = async <T = any>(request: TextRequest, what: string): Promise<T> => {
+  const provider = getTextProvider();
+  return withRetry(async () => {
+    const text = await provider.generateText(request);
+    if (!text) throw new InvalidResponseError(`No ${what} in the response`, provider.id);
+    try {
+      return JSON.parse(text) as T;
+    } catch (e) {
+      throw new InvalidResponseError(`Malformed ${what}: ${(e as Error).message}`, provider.id, { cause: e });
+    }
+  }, { label: `Text: ${request.task}`, schedule: { kind: 'text', provider: provider.id } });
+};
+
+const requestImage = async (request: ImageRequest, what: string): Promise<string> => {
+  const provider = getImageProvider();
+  const image = await provider.generateImage(request);
+  if (!image) throw new InvalidResponseError(`No image generated for ${what}`, provider.id);
+  return image;
+};
 
 const parseAudioToBase64 = async (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -15,14 +53,6 @@ const parseAudioToBase64 = async (file: File): Promise<string> => {
   });
 };
 
-const getApiKey = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key not found in environment variables");
-  }
-  return apiKey;
-};
-
 /**
  * Compress base64 image to JPEG at specified quality
  * This ensures true JPEG compression and smaller file sizes
@@ -108,15 +138,7 @@ const addTextLabelToImage = async (
   });
 };
 
-// Helper to map app aspect ratios to supported API ratios
-// Supported: '1:1', '3:4', '4:3', '9:16', '16:9'
-const getSupportedAspectRatio = (ratio: AspectRatio): string => {
-    const supported = ['1:1', '3:4', '4:3', '9:16', '16:9'];
-    return supported.includes(ratio) ? ratio : '16:9';
-};
-
 export const analyzeAudioCreatively = async (file: File): Promise<AudioAnalysis> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
   const base64Audio = await parseAudioToBase64(file);
 
   const schema: Schema = {
@@ -130,61 +152,226 @@ export const analyzeAudioCreatively = async (file: File): Promise<AudioAnalysis>
         description: "List of 3 main instruments present or simulated"
       },
       bpm: { type: Type.INTEGER, description: "Estimated BPM of the track" },
-      lyrics: { type: Type.STRING, description: "If there are vocals, provide the lyrics (or a summary of spoken word). If instrumental, say 'Instrumental'. Format lyrics properly" }
+      lyrics: { type: Type.STRING, description: "If there are vocals, provide the lyrics (or a summary of spoken word). If instrumental, say 'Instrumental'. Format lyrics properly" },
+      lyricLines: {
+        type: Type.ARRAY,
+        description: "Each sung lyric line with the time it starts and ends in the audio, in seconds. Empty if instrumental.",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            start: { type: Type.NUMBER },
+            end: { type: Type.NUMBER },
+            text: { type: Type.STRING }
+          },
+          required: ["start", "end", "text"]
+        }
+      }
     },
     required: ["genre", "theme", "instruments", "lyrics"]
   };
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview", 
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: file.type || "audio/mp3",
-              data: base64Audio
-            }
+  return requestJson<AudioAnalysis>({
+    task: 'audio-analysis',
+    prompt: "Analyze this audio file. Return the Genre, Theme (Include the gender of the singer in the theme), Instruments, estimated BPM, and Lyrics (if any with proper formatting). Also list each sung line in lyricLines with its start and end time in seconds. Double check and ensure that the JSON is valid. Pay extra close attention to the lyrics section.",
+    media: [{ mimeType: file.type || "audio/mp3", data: base64Audio }],
+    schema,
+    thinking: true
+  }, 'audio analysis');
+};
+
+// Shown when the creative analysis failed, so cutting and planning can go on
+export const UNAVAILABLE_ANALYSIS: AudioAnalysis = {
+  genre: "Unknown",
+  theme: "Analysis unavailable",
+  instruments: ["Unknown"],
+  lyrics: "Could not retrieve lyrics."
+};
+
+// --- PHASE 2: VIDEO PLANNER SERVICES ---
+
+const formatTimestamp = (seconds: number): string => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Describe the detected song structure for the planner prompt
+ * Returns an empty string when no sections were detected
+ */
+const formatSongStructure = (sections?: SongSection[]): string => {
+  if (!sections || sections.length === 0) return '';
+  const lines = sections.map(section =>
+    `- ${formatTimestamp(section.start)}-${formatTimestamp(section.end)} ${section.label.toUpperCase()} (energy ${Math.round(section.energy * 100)}%)`
+  );
+  return `\n\nSong Structure (detected from the audio):\n${lines.join('\n')}\nUse this timing: build toward each chorus and make chorus shots the visual peaks; keep intros/outros and bridges distinct.`;
+};
+
+// Shots with at least this mean vocal presence are marked as sung
+const VOCAL_SHOT_THRESHOLD = 0.5;
+
+/**
+ * One line per shot with its timing, cut type, energy, loudness, vocals, section and lyric,
+ * followed by guidance on sizing the action to the shot length
+ */
+const formatShotList = (shots: ShotTiming[]): string => {
+  const lines = shots.map((shot, i) => {
+    const parts = [
+      `${i + 1}. ${formatTimestamp(shot.startTime)} for ${shot.duration.toFixed(1)}s`,
+      shot.type === 'Safety' ? 'SAFETY cut (no strong beat)' : `${shot.type.toUpperCase()} cut`,
+      `energy ${Math.round(shot.energy * 100)}%`
+    ];
+    if (shot.loudness !== undefined) parts.push(`loudness ${Math.round(shot.loudness * 100)}%`);
+    if (shot.vocal !== undefined) parts.push(shot.vocal >= VOCAL_SHOT_THRESHOLD ? 'VOCALS' : 'INSTRUMENTAL');
+    if (shot.section) parts.push(shot.section.toUpperCase());
+    if (shot.lyric) parts.push(`lyric: "${shot.lyric}"`);
+    return parts.join(', ');
+  });
+  const vocalGuidance = shots.some(shot => shot.vocal !== undefined)
+    ? `\n- VOCALS shots suit performance shots and close-ups of the singer; INSTRUMENTAL shots suit wide, atmospheric shots`
+    : '';
+  return `Shot List (timings are fixed; write each shot to fit its length):
+${lines.join('\n')}
+
+Shot Length Guidance:
+- Under 1.5s: one striking, instantly readable image; no multi-step action
+- 1.5s to 5s: a single clear action or camera move
+- Over 5s: room for continuous action, a slow camera move or an environmental change
+- High-energy shots get dynamic framing and motion; low-energy shots calmer compositions
+- Safety cuts fall between beats; keep continuity across them${vocalGuidance}`;
+};
+
+/**
+ * Bind scenes to the shots they were planned for
+ * Scenes past the last shot have no cut to play at and are dropped; the scene-count issue says so
+ */
+const bindScenesToShots = (checked: PlanInspection<PlanDraft>, shots: ShotTiming[]): VideoPlanResult => {
+  const surplus = checked.value.scenes.length - shots.length;
+  const scenes = checked.value.scenes.slice(0, shots.length).map((s, index) => ({
+    ...s,
+    id: `scene-${index}`,
+    markerId: shots[index].markerId,
+    startTime: shots[index].startTime
+  }));
+  const issues = surplus > 0
+    ? checked.issues.map(issue => issue.code === 'scene-count'
+      ? { ...issue, message: `${issue.message}; dropped the last ${surplus}`, resolution: 'auto-fixed' as const }
+      : issue)
+    : checked.issues;
+  return { plan: { ...checked.value, scenes }, issues };
+};
+
+const formatSceneRefs = (scene: DraftScene): string =>
+  `[CharacterIDs: ${JSON.stringify(scene.characterIds || [])}, LocationIDs: ${JSON.stringify(scene.locationIds || [])}]`;
+
+/**
+ * Ask the model to rewrite only the shots that failed validation
+ * Returns the rewritten scenes by index; entries for other shots are ignored
+ */
+const repairPlanScenes = async (
+  draft: PlanDraft,
+  sceneIndices: number[],
+  issues: PlanIssue[],
+  shots: ShotTiming[]
+): Promise<Map<number, DraftScene>> => {
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      scenes: {
+        type: Type.ARRAY,
+        minItems: String(sceneIndices.length),
+        maxItems: String(sceneIndices.length),
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            index: { type: Type.INTEGER, minimum: 0, maximum: draft.scenes.length - 1 },
+            description: { type: Type.STRING },
+            interpolationPrompt: { type: Type.STRING },
+            characterIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+            locationIds: { type: Type.ARRAY, items: { type: Type.STRING } }
           },
-          {
-            text: "Analyze this audio file. Return the Genre, Theme (Include the gender of the singer in the theme), Instruments, estimated BPM, and Lyrics (if any with proper formatting). Double check and ensure that the JSON is valid. Pay extra close attention to the lyrics section."
-          }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-		thinkingConfig: {
-			thinkingLevel: 'HIGH',
+          required: ["index", "description", "interpolationPrompt", "characterIds", "locationIds"]
+        }
       }
-    }
+    },
+    required: ["scenes"]
+  };
+
+  const describeShot = (i: number) => {
+    const problems = issues.filter(issue => issue.sceneIndex === i).map(issue => issue.message).join('; ');
+    const timing = shots[i] ? ` (${shots[i].duration.toFixed(1)}s)` : '';
+    const neighbours = [
+      i > 0 ? `  Previous shot: ${draft.scenes[i - 1].description}` : '',
+      i < draft.scenes.length - 1 ? `  Next shot: ${draft.scenes[i + 1].description}` : ''
+    ].filter(Boolean).join('\n');
+    return `[${i}]${timing} Problems: ${problems}
+  Current: ${draft.scenes[i].description} ${formatSceneRefs(draft.scenes[i])}
+${neighbours}`;
+  };
+
+  const prompt = `
+Some shots in this music video storyboard failed validation. Rewrite ONLY the shots listed below; every other shot stays as it is.
+
+Narrative: ${draft.narrativeSummary}
+
+Characters (use these exact IDs):
+${draft.characters.map(c => `- ID: "${c.id}", Name: ${c.name}, Description: ${c.description}`).join('\n')}
+
+Locations (use these exact IDs):
+${draft.locations.map(loc => `- ID: "${loc.id}", Name: ${loc.name}, Description: ${loc.description}`).join('\n')}
+
+Shots to fix:
+${sceneIndices.map(describeShot).join('\n\n')}
+
+Rules:
+- Return one entry per listed shot, with "index" set to the number in brackets
+- Keep what is usable in each shot and fix only the problems named
+- Each shot needs a description, an interpolationPrompt to the next shot, and characterIds and locationIds arrays
+- Use ONLY the character/location IDs listed above; use [] when none appear
+`;
+
+  const result = await requestJson({ task: 'plan-repair', prompt, schema }, 'plan repair');
+  const wanted = new Set(sceneIndices);
+  const repaired = new Map<number, DraftScene>();
+  (Array.isArray(result.scenes) ? result.scenes : []).forEach(({ index, ...scene }: any) => {
+    if (wanted.has(index) && !repaired.has(index)) repaired.set(index, scene);
   });
+  return repaired;
+};
 
-    const text = response.text;
-    if (!text) throw new Error("No response from Gemini");
-
-    return JSON.parse(text) as AudioAnalysis;
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    return {
-      genre: "Unknown",
-      theme: "Analysis Failed",
-      instruments: ["Unknown"],
-      lyrics: "Could not retrieve lyrics."
-    };
+/**
+ * Validate a planned narrative, send only the broken shots back for repair,
+ * and patch whatever is still wrong locally
+ */
+const checkVideoPlan = async (raw: any, shots: ShotTiming[]): Promise<PlanInspection<PlanDraft>> => {
+  const found = inspectVideoPlan(raw, shots.length);
+  let inspected = found;
+  let issues = reconcileIssues(found.issues, found.issues);
+
+  const broken = scenesToRepair(found.issues);
+  if (broken.length > 0) {
+    try {
+      const repaired = await repairPlanScenes(found.value, broken, found.issues, shots);
+      const scenes = raw.scenes.map((scene: any, i: number) => repaired.get(i) ?? scene);
+      inspected = inspectVideoPlan({ ...raw, scenes }, shots.length);
+      issues = reconcileIssues(found.issues, inspected.issues);
+    } catch (e) {
+      console.warn("Plan repair failed; keeping local fixes:", e);
+    }
   }
-};
 
-// --- PHASE 2: VIDEO PLANNER SERVICES ---
+  return { value: inspected.value, issues };
+};
 
 export const generateVideoNarrative = async (
   analysis: AudioAnalysis,
-  cutCount: number,
+  shots: ShotTiming[],
   aspectRatio: AspectRatio,
   conceptualMode: boolean = false,
-  userFeedback?: string
-): Promise<VideoPlan> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
+  userFeedback?: string,
+  songSections?: SongSection[]
+): Promise<VideoPlanResult> => {
+  const cutCount = shots.length;
 
   const schema: Schema = {
     type: Type.OBJECT,
@@ -220,6 +407,8 @@ export const generateVideoNarrative = async (
       scenes: {
         type: Type.ARRAY,
         description: `Must generate exactly ${cutCount} shots. This is critical - the number must match exactly.`,
+        minItems: String(cutCount),
+        maxItems: String(cutCount),
         items: {
           type: Type.OBJECT,
           properties: {
@@ -247,11 +436,14 @@ export const generateVideoNarrative = async (
     ? `\n\nUser Feedback/Direction: ${userFeedback}\nPlease incorporate this feedback into the narrative plan.`
     : '';
 
+  const structureSection = formatSongStructure(songSections);
+  const shotSection = `\n\n${formatShotList(shots)}`;
+
   const literalPrompt = `Plan a music video for a song with exactly ${cutCount} shots.
 
 Theme: ${analysis.theme}
 Genre: ${analysis.genre}
-Lyrics/Context: ${analysis.lyrics}
+Lyrics/Context: ${analysis.lyrics}${structureSection}${shotSection}
 
 Requirements:
 1. Exactly ${cutCount} shots - CRITICAL: Generate exactly ${cutCount} shots, no more, no less
@@ -260,14 +452,15 @@ Requirements:
 4. For each shot: list characterIds AND locationIds (both arrays)
 5. No dialogue, pure visual storytelling
 6. Flow smoothly, designed for morphing/interpolation between shots
-7. Output JSON.${feedbackSection}`;
+7. When a shot lists a lyric, illustrate the line being sung during that shot
+8. Output JSON.${feedbackSection}`;
 
   const conceptualPrompt = `You are an award-winning music video director known for creating visually stunning, conceptually rich music videos. Your work embodies the emotional and thematic essence of songs through symbolic imagery, atmosphere, and visual poetry.
 
 SONG ANALYSIS:
 Theme: ${analysis.theme}
 Genre: ${analysis.genre}
-Lyrics: ${analysis.lyrics}
+Lyrics: ${analysis.lyrics}${structureSection}${shotSection}
 
 CREATIVE DIRECTION - Think in Steps:
 
@@ -331,43 +524,44 @@ CRITICAL REQUIREMENTS:
 
   const prompt = conceptualMode ? conceptualPrompt : literalPrompt;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: schema,
-      thinkingConfig: {
-        thinkingLevel: 'HIGH'  // High-level thinking for better reasoning
-      }
-    } as any
-  });
-
-  const text = response.text;
-  if (!text) throw new Error("Failed to generate narrative");
-  
-  // Map result to ensure IDs align with markers if needed, though we just need the list order
-  const result = JSON.parse(text);
+  const result = await requestJson({ task: 'narrative', prompt, schema, thinking: true }, 'narrative plan');
   
-  // We need to inject IDs into scenes to match later
-  const mappedScenes = result.scenes.map((s: any, index: number) => ({
-      ...s,
-      id: `scene-${index}`,
-      markerId: index.toString(), // placeholder
-      startTime: 0 // placeholder
-  }));
+  // Scenes are returned in shot order
+  let checked = await checkVideoPlan(result, shots);
+
+  // Wrong shot count: ask for an adjusted plan. Extra scenes can still be dropped when binding,
+  // but cuts without a scene would leave the storyboard (and the stitched video) short
+  if (checked.value.scenes.length !== shots.length) {
+    console.warn(`Shot count mismatch: ${checked.value.scenes.length} shots vs ${shots.length} cuts. Auto-fixing...`);
+    let failure: unknown = null;
+    try {
+      const adjusted = await adjustShotCount(checked.value, shots);
+      checked = { value: adjusted.value, issues: mergeAdjustedIssues(checked.issues, adjusted.issues) };
+    } catch (e) {
+      console.warn("Failed to adjust shot count:", e);
+      failure = e;
+    }
+    if (checked.value.scenes.length < shots.length) {
+      throw new InvalidResponseError(
+        `Planned ${checked.value.scenes.length} shots for ${shots.length} cuts` +
+          (failure ? ` and the shot-count fix failed (${describeError(failure)})` : ' even after the shot-count fix'),
+        getTextProvider().id,
+        { cause: failure ?? undefined }
+      );
+    }
+  }
 
-  return { ...result, scenes: mappedScenes };
+  return bindScenesToShots(checked, shots);
 };
 
 /**
  * Fix shot count mismatch by asking Gemini to adjust the existing plan
  */
-export const adjustShotCount = async (
-  videoPlan: VideoPlan,
-  targetCount: number
-): Promise<VideoPlan> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
+const adjustShotCount = async (
+  videoPlan: PlanDraft,
+  shots: ShotTiming[]
+): Promise<PlanInspection<PlanDraft>> => {
+  const targetCount = shots.length;
   const currentCount = videoPlan.scenes.length;
   const diff = targetCount - currentCount;
 
@@ -377,6 +571,8 @@ export const adjustShotCount = async (
       scenes: {
         type: Type.ARRAY,
         description: `Adjusted shots array with exactly ${targetCount} shots`,
+        minItems: String(targetCount),
+        maxItems: String(targetCount),
         items: {
           type: Type.OBJECT,
           properties: {
@@ -413,13 +609,16 @@ Locations (use these exact IDs when assigning to shots):
 ${videoPlan.locations.map(loc => `- ID: "${loc.id}", Name: ${loc.name}, Description: ${loc.description}`).join('\n')}
 
 Current shots:
-${videoPlan.scenes.map((s, i) => `${i + 1}. ${s.description} [CharacterIDs: ${JSON.stringify(s.characterIds || [])}, LocationIDs: ${JSON.stringify(s.locationIds || [])}]`).join('\n')}
+${videoPlan.scenes.map((s, i) => `${i + 1}. ${s.description} ${formatSceneRefs(s)}`).join('\n')}
 
 TASK: Add ${diff} more shot(s) to make it exactly ${targetCount} shots total. The new shots should:
 1. Fit naturally into the narrative flow
 2. Be inserted at logical points (not just at the end)
 3. Maintain character consistency
 4. Keep the story coherent
+5. Match the target shot list below: shot N of your output plays for shot N's duration
+
+${formatShotList(shots)}
 
 IMPORTANT - Attribution:
 - Each shot MUST have a characterIds array AND a locationIds array
@@ -444,13 +643,16 @@ Locations (use these exact IDs when assigning to shots):
 ${videoPlan.locations.map(loc => `- ID: "${loc.id}", Name: ${loc.name}, Description: ${loc.description}`).join('\n')}
 
 Current shots:
-${videoPlan.scenes.map((s, i) => `${i + 1}. ${s.description} [CharacterIDs: ${JSON.stringify(s.characterIds || [])}, LocationIDs: ${JSON.stringify(s.locationIds || [])}]`).join('\n')}
+${videoPlan.scenes.map((s, i) => `${i + 1}. ${s.description} ${formatSceneRefs(s)}`).join('\n')}
 
 TASK: Remove or merge ${toRemove} shot(s) to make it exactly ${targetCount} shots total. When removing:
 1. Keep the most important/impactful shots
 2. Merge similar consecutive shots if possible
 3. Maintain narrative flow
 4. Keep character consistency
+5. Match the target shot list below: shot N of your output plays for shot N's duration
+
+${formatShotList(shots)}
 
 IMPORTANT - Attribution:
 - Each shot MUST have a characterIds array AND a locationIds array
@@ -462,43 +664,15 @@ Return exactly ${targetCount} shots in the correct order.
 `;
   }
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: schema,
-      thinkingConfig: {
-        thinkingLevel: 'HIGH'  // High-level thinking for better reasoning
-      }
-    } as any
-  });
-
-  const text = response.text;
-  if (!text) throw new Error("Failed to adjust shot count");
-
-  const result = JSON.parse(text);
-
-  // Map result with IDs
-  const adjustedScenes = result.scenes.map((s: any, index: number) => ({
-    ...s,
-    id: `scene-${index}`,
-    markerId: index.toString(),
-    startTime: 0
-  }));
+  const result = await requestJson({ task: 'shot-adjust', prompt, schema, thinking: true }, 'adjusted shot list');
 
-  return {
-    ...videoPlan,
-    scenes: adjustedScenes
-  };
+  return checkVideoPlan({ ...videoPlan, scenes: result.scenes }, shots);
 };
 
 export const generateCharacterSheet = async (
   char: Character,
   style: string
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-
   const prompt = `Create a 2x2 grid character reference sheet with 4 views of the same character.
 
 Character: ${char.description}
@@ -514,32 +688,12 @@ CRITICAL REQUIREMENTS:
 - No text or labels in the generated image
 - Maintain exact same visual identity across all 4 views`;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-image-preview",
-    contents: {
-      parts: [
-        { text: prompt }
-      ]
-    },
-    config: {
-      imageConfig: {
-        aspectRatio: "1:1",
-		imageSize: "2K",
-		output_mime_type: "image/jpeg"
-      } as any
-    }
-  });
+  const image = await requestImage({ task: 'character-sheet', prompt, images: [], aspectRatio: '1:1' }, 'character');
 
-  // Extract image
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      // Compress to true JPEG at 85% quality
-      const compressedBase64 = await compressToJPEG(part.inlineData.data, 0.85);
-      // Add character name label at top
-      return await addTextLabelToImage(compressedBase64, char.name);
-    }
-  }
-  throw new Error("No image generated for character");
+  // Compress to true JPEG at 85% quality
+  const compressedBase64 = await compressToJPEG(image, 0.85);
+  // Add character name label at top
+  return await addTextLabelToImage(compressedBase64, char.name);
 };
 
 /**
@@ -549,8 +703,6 @@ export const generateLocationReference = async (
   location: Location,
   style: string
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-
   const prompt = `Create a wide-angle establishing shot of this location:
 
 Location: ${location.description}
@@ -565,27 +717,10 @@ CRITICAL REQUIREMENTS:
 - No text or labels in the generated image
 - Cinematographic quality appropriate for music video`;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-image-preview",
-    contents: {
-      parts: [{ text: prompt }]
-    },
-    config: {
-      imageConfig: {
-        aspectRatio: "16:9",
-        imageSize: "2K",
-        output_mime_type: "image/jpeg"
-      } as any
-    }
-  });
+  const image = await requestImage({ task: 'location', prompt, images: [], aspectRatio: '16:9' }, 'location');
 
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      const compressedBase64 = await compressToJPEG(part.inlineData.data, 0.85);
-      return await addTextLabelToImage(compressedBase64, location.name);
-    }
-  }
-  throw new Error("No image generated for location");
+  const compressedBase64 = await compressToJPEG(image, 0.85);
+  return await addTextLabelToImage(compressedBase64, location.name);
 };
 
 export const generateFirstFrame = async (
@@ -596,9 +731,8 @@ export const generateFirstFrame = async (
   style: string,
   promptModifier: string = ""
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-
-  const parts: any[] = [];
+  const images: string[] = [];
+  let prompt: string;
 
   // Use the characters and locations passed in arguments. Do not filter by text description.
   // The caller (VideoPlanner) determines what's in the shot based on the Plan.
@@ -609,24 +743,14 @@ export const generateFirstFrame = async (
       // Add all character sheets as input images
       validChars.forEach(c => {
           if (c.imageUrl) {
-            parts.push({
-                inlineData: {
-                    mimeType: "image/jpeg",
-                    data: c.imageUrl
-                }
-            });
+            images.push(c.imageUrl);
           }
       });
 
       // Add location references
       validLocs.forEach(loc => {
           if (loc.imageUrl) {
-            parts.push({
-                inlineData: {
-                    mimeType: "image/jpeg",
-                    data: loc.imageUrl
-                }
-            });
+            images.push(loc.imageUrl);
           }
       });
 
@@ -644,41 +768,22 @@ export const generateFirstFrame = async (
           });
       }
 
-      parts.push({
-          text: `Generate a scene matching the following description: "${description} ${promptModifier}".
+      prompt = `Generate a scene matching the following description: "${description} ${promptModifier}".
 
 ${charRefText}
 ${locRefText}
 
 You MUST match the visual identity of characters and the environment/architecture of locations from their reference images.
-Style: ${style}. Aspect Ratio: ${aspectRatio}.`
-      });
+Style: ${style}. Aspect Ratio: ${aspectRatio}.`;
   } else {
       // Standard generation
-      parts.push({
-          text: `Cinematic shot, ${aspectRatio}, high resolution. Style: ${style}. ${description} ${promptModifier}`
-      });
+      prompt = `Cinematic shot, ${aspectRatio}, high resolution. Style: ${style}. ${description} ${promptModifier}`;
   }
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-image-preview",
-    contents: { parts },
-    config: {
-      imageConfig: {
-        aspectRatio: getSupportedAspectRatio(aspectRatio),
-        imageSize: "2K",
-		output_mime_type: "image/jpeg"
-      } as any
-    }
-  });
+  const image = await requestImage({ task: 'first-frame', prompt, images, aspectRatio }, 'first frame');
 
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      // Compress to true JPEG at 85% quality
-      return await compressToJPEG(part.inlineData.data, 0.85);
-    }
-  }
-  throw new Error("No image generated for first frame");
+  // Compress to true JPEG at 85% quality
+  return await compressToJPEG(image, 0.85);
 };
 
 /**
@@ -687,10 +792,9 @@ Style: ${style}. Aspect Ratio: ${aspectRatio}.`
  */
 export const sanitizePrompt = async (
   originalPrompt: string,
-  safetyLevel: 'moderate' | 'strict'
+  safetyLevel: 'moderate' | 'strict',
+  token?: CancellationToken
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-
   const instruction = safetyLevel === 'moderate'
     ? `Rewrite this prompt to be safe for work while keeping the same narrative intent and emotional tone.
        Remove any explicit violence, sexual content, or controversial themes.
@@ -710,21 +814,10 @@ export const sanitizePrompt = async (
        Respond with ONLY the rewritten prompt, nothing else.`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: instruction
-    });
-
-    const rewritten = response.text?.trim();
-    if (!rewritten) {
-      console.warn("Failed to sanitize prompt, using fallback");
-      return safetyLevel === 'moderate'
-        ? `Artistic interpretation: ${originalPrompt}`
-        : `Abstract, minimalist visual representation`;
-    }
-
-    return rewritten;
+    return await requestText({ task: 'sanitize', prompt: instruction }, 'rewritten prompt', token);
   } catch (e) {
+    // A stopped run must not fall through to the fallback prompt and generate anyway
+    if (e instanceof CancelledError) throw e;
     console.error("Prompt sanitization failed:", e);
     // Fallback to original with safety note
     return safetyLevel === 'moderate'
@@ -742,8 +835,6 @@ export const generateEditInstructions = async (
   activeCharacters: Character[],
   activeLocations: Location[]
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-
   let characterContext = "";
   if (activeCharacters.length > 0) {
     const names = activeCharacters.map(c => c.name).join(", ");
@@ -781,32 +872,12 @@ BAD EXAMPLE:
 
 Generate complete edit prompt following these best practices:`;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            mimeType: "image/jpeg",
-            data: parentImageBase64
-          }
-        },
-        { text: prompt }
-      ]
-    },
-    config: {
-      thinkingConfig: {
-        thinkingLevel: 'HIGH'
-      }
-    }
-  });
-
-  const editInstructions = response.text?.trim();
-  if (!editInstructions) {
-    throw new Error("No edit instructions generated");
-  }
-
-  return editInstructions;
+  return requestText({
+    task: 'edit-instructions',
+    prompt,
+    media: [{ mimeType: "image/jpeg", data: parentImageBase64 }],
+    thinking: true
+  }, 'edit instructions');
 };
 
 export const generateNextFrame = async (
@@ -818,8 +889,6 @@ export const generateNextFrame = async (
   style: string,
   promptModifier: string = ""
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-
   // Generate vision-based edit instructions
   const editInstructions = await generateEditInstructions(
     prevFrameBase64,
@@ -829,25 +898,13 @@ export const generateNextFrame = async (
   );
 
   // Start with previous frame (Input 1)
-  const parts: any[] = [
-    {
-      inlineData: {
-        mimeType: "image/jpeg",
-        data: prevFrameBase64
-      }
-    }
-  ];
+  const images: string[] = [prevFrameBase64];
 
   // Add character sheets
   const validChars = activeCharacters.filter(c => c.imageUrl);
   validChars.forEach(c => {
     if (c.imageUrl) {
-      parts.push({
-        inlineData: {
-          mimeType: "image/jpeg",
-          data: c.imageUrl
-        }
-      });
+      images.push(c.imageUrl);
     }
   });
 
@@ -855,12 +912,7 @@ export const generateNextFrame = async (
   const validLocs = activeLocations.filter(loc => loc.imageUrl);
   validLocs.forEach(loc => {
     if (loc.imageUrl) {
-      parts.push({
-        inlineData: {
-          mimeType: "image/jpeg",
-          data: loc.imageUrl
-        }
-      });
+      images.push(loc.imageUrl);
     }
   });
 
@@ -878,8 +930,7 @@ export const generateNextFrame = async (
     imageIndex++;
   });
 
-  parts.push({
-    text: `${editInstructions}
+  const prompt = `${editInstructions}
 
 ${referenceText ? `REFERENCES:\n${referenceText}\n` : ''}
 Match references exactly for character identity and location environment.
@@ -890,35 +941,19 @@ CRITICAL CONSTRAINTS:
 - DO NOT duplicate characters
 - DO NOT change background style unless edit instructions specify
 - DO NOT add new people beyond specified count
-- DO NOT alter character count`
-  });
+- DO NOT alter character count`;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-image-preview",
-    contents: { parts },
-    config: {
-      imageConfig: {
-          aspectRatio: getSupportedAspectRatio(aspectRatio),
-		  imageSize: "2K",
-		  output_mime_type: "image/jpeg"
-      } as any
-    }
-  });
+  const image = await requestImage({ task: 'next-frame', prompt, images, aspectRatio }, 'next frame');
 
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      // Compress to true JPEG at 85% quality
-      return await compressToJPEG(part.inlineData.data, 0.85);
-    }
-  }
-  throw new Error("No image generated for next frame");
+  // Compress to true JPEG at 85% quality
+  return await compressToJPEG(image, 0.85);
 };
 
 /**
  * Helper function to build HierarchyTree from Gemini's response
  */
 const buildHierarchyTree = (
-  geminiResult: any,
+  geminiResult: HierarchyOutput,
   sceneCount: number
 ): HierarchyTree => {
   const nodes: HierarchyNode[] = new Array(sceneCount);
@@ -939,14 +974,14 @@ const buildHierarchyTree = (
   }
 
   // Set scores for parents
-  geminiResult.anchorScores.forEach((scoreData: any) => {
+  geminiResult.anchorScores.forEach(scoreData => {
     if (nodes[scoreData.frameIndex]) {
       nodes[scoreData.frameIndex].score = scoreData.score;
     }
   });
 
   // Build relationships
-  geminiResult.relationships.forEach((rel: any) => {
+  geminiResult.relationships.forEach(rel => {
     const childIdx = rel.childIndex;
     const parentIdx = rel.parentIndex;
 
@@ -1042,20 +1077,77 @@ const buildHierarchyTree = (
   };
 };
 
+/**
+ * Ask the model for new parents for the frames whose links failed validation
+ * Returns relationships for those frames only
+ */
+const repairHierarchyLinks = async (
+  videoPlan: VideoPlan,
+  hierarchy: HierarchyOutput,
+  frameIndices: number[],
+  issues: PlanIssue[]
+): Promise<HierarchyRelationship[]> => {
+  const frameIndex: Schema = { type: Type.INTEGER, minimum: 0, maximum: videoPlan.scenes.length - 1 };
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      relationships: {
+        type: Type.ARRAY,
+        minItems: String(frameIndices.length),
+        maxItems: String(frameIndices.length),
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            childIndex: frameIndex,
+            parentIndex: frameIndex,
+            reason: { type: Type.STRING, description: "Why this parent was chosen" }
+          },
+          required: ["childIndex", "parentIndex", "reason"]
+        }
+      }
+    },
+    required: ["relationships"]
+  };
+
+  const problems = (i: number) => issues.filter(issue => issue.sceneIndex === i).map(issue => issue.message).join('; ');
+
+  const prompt = `
+Some shots in this parent-child generation hierarchy have no valid parent. Choose a parent for ONLY the shots listed under "Shots needing a parent".
+
+## Shots:
+${videoPlan.scenes.map((s, i) => `[${i}] ${s.description}`).join('\n')}
+
+## Anchor (parent) frames: ${hierarchy.parentIndices.join(', ')}
+
+## Shots needing a parent:
+${frameIndices.map(i => `[${i}] ${problems(i)}`).join('\n')}
+
+Rules:
+- The parent must contain equal or greater visual context than the child (same location and characters, wider framing)
+- The parent must be an anchor, or a shot that already descends from an anchor; never the shot itself or one of its own descendants
+- When unsure, pick the anchor that best matches the child's location and characters
+`;
+
+  const result = await requestJson({ task: 'hierarchy-repair', prompt, schema }, 'hierarchy repair');
+  return (Array.isArray(result.relationships) ? result.relationships : [])
+    .filter((rel: any) => frameIndices.includes(rel?.childIndex));
+};
+
 /**
  * Generate hierarchical plan by analyzing narrative and identifying anchor frames
  */
 export const generateHierarchicalPlan = async (
   videoPlan: VideoPlan
-): Promise<HierarchyTree> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
+): Promise<HierarchyPlanResult> => {
+  const frameIndex: Schema = { type: Type.INTEGER, minimum: 0, maximum: videoPlan.scenes.length - 1 };
 
   const schema: Schema = {
     type: Type.OBJECT,
     properties: {
       parentIndices: {
         type: Type.ARRAY,
-        items: { type: Type.INTEGER },
+        items: frameIndex,
         description: "Array of frame indices that should be anchor/parent frames (0-indexed)"
       },
       relationships: {
@@ -1064,8 +1156,8 @@ export const generateHierarchicalPlan = async (
         items: {
           type: Type.OBJECT,
           properties: {
-            childIndex: { type: Type.INTEGER },
-            parentIndex: { type: Type.INTEGER },
+            childIndex: frameIndex,
+            parentIndex: frameIndex,
             reason: { type: Type.STRING, description: "Why this parent was chosen" }
           },
           required: ["childIndex", "parentIndex", "reason"]
@@ -1077,8 +1169,8 @@ export const generateHierarchicalPlan = async (
         items: {
           type: Type.OBJECT,
           properties: {
-            frameIndex: { type: Type.INTEGER },
-            score: { type: Type.INTEGER }
+            frameIndex,
+            score: { type: Type.INTEGER, minimum: 0, maximum: 100 }
           },
           required: ["frameIndex", "score"]
         }
@@ -1141,32 +1233,38 @@ For each non-parent shot:
 Prefer FEWER parents with DEEPER hierarchies over MANY parents with shallow hierarchies.
 `;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: schema,
-      thinkingConfig: {
-        thinkingLevel: 'HIGH'  // High-level thinking for better reasoning
-      }
-    } as any
-  });
-
-  const text = response.text;
-  if (!text) throw new Error("No response from Gemini for hierarchical plan");
-
-  const result = JSON.parse(text);
+  const result = await requestJson({ task: 'hierarchy', prompt, schema, thinking: true }, 'hierarchical plan');
+  const sceneCount = videoPlan.scenes.length;
+
+  // Validate links; re-ask only for frames without a valid parent, then patch the rest locally
+  const found = inspectHierarchy(result, sceneCount);
+  let inspected = found;
+  let issues = reconcileIssues(found.issues, found.issues);
+
+  const frames = framesToReparent(found.issues);
+  if (frames.length > 0) {
+    try {
+      const repaired = await repairHierarchyLinks(videoPlan, found.value, frames, found.issues);
+      const kept = Array.isArray(result.relationships)
+        ? result.relationships.filter((rel: any) => !frames.includes(rel?.childIndex))
+        : [];
+      inspected = inspectHierarchy({ ...result, relationships: [...kept, ...repaired] }, sceneCount);
+      issues = reconcileIssues(found.issues, inspected.issues);
+    } catch (e) {
+      console.warn("Hierarchy repair failed; keeping local fixes:", e);
+    }
+  }
 
   // Debug logging
   console.log("Hierarchy generation result:", {
-    parentIndices: result.parentIndices,
-    relationshipCount: result.relationships.length,
-    sceneCount: videoPlan.scenes.length
+    parentIndices: inspected.value.parentIndices,
+    relationshipCount: inspected.value.relationships.length,
+    sceneCount,
+    issueCount: issues.length
   });
 
-  // Build HierarchyTree from Gemini's response
-  const tree = buildHierarchyTree(result, videoPlan.scenes.length);
+  // Build HierarchyTree from the validated response
+  const tree = buildHierarchyTree(inspected.value, sceneCount);
 
   console.log("Built hierarchy tree:", {
     parentCount: tree.parentIndices.length,
@@ -1174,7 +1272,7 @@ Prefer FEWER parents with DEEPER hierarchies over MANY parents with shallow hier
     depths: tree.nodes.map(n => n.depth)
   });
 
-  return tree;
+  return { tree, issues };
 };
 
 /**
@@ -1185,8 +1283,6 @@ export const generateTransformationDelta = async (
   childDescription: string,
   parentImageBase64: string
 ): Promise<TransformationDelta> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-
   const schema: Schema = {
     type: Type.OBJECT,
     properties: {
@@ -1232,32 +1328,13 @@ GOOD: "Dolly forward 3 meters, character face fills 80% of frame"
 Provide complete literal instructions that a compositor could execute.
 `;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            mimeType: "image/jpeg",
-            data: parentImageBase64
-          }
-        },
-        { text: prompt }
-      ]
-    },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: schema,
-      thinkingConfig: {
-        thinkingLevel: 'HIGH'
-      }
-    }
-  });
-
-  const text = response.text;
-  if (!text) throw new Error("No response from Gemini for transformation delta");
-
-  return JSON.parse(text) as TransformationDelta;
+  return requestJson<TransformationDelta>({
+    task: 'transformation',
+    prompt,
+    media: [{ mimeType: "image/jpeg", data: parentImageBase64 }],
+    schema,
+    thinking: true
+  }, 'transformation delta');
 };
 
 /**
@@ -1273,27 +1350,13 @@ export const generateFrameFromParent = async (
   style: string,
   promptModifier: string = ""
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-
-  const parts: any[] = [
-    {
-      inlineData: {
-        mimeType: "image/jpeg",
-        data: parentFrameBase64
-      }
-    }
-  ];
+  const images: string[] = [parentFrameBase64];
 
   // Add character sheets if present
   const validChars = activeCharacters.filter(c => c.imageUrl);
   validChars.forEach(c => {
     if (c.imageUrl) {
-      parts.push({
-        inlineData: {
-          mimeType: "image/jpeg",
-          data: c.imageUrl
-        }
-      });
+      images.push(c.imageUrl);
     }
   });
 
@@ -1301,12 +1364,7 @@ export const generateFrameFromParent = async (
   const validLocs = activeLocations.filter(loc => loc.imageUrl);
   validLocs.forEach(loc => {
     if (loc.imageUrl) {
-      parts.push({
-        inlineData: {
-          mimeType: "image/jpeg",
-          data: loc.imageUrl
-        }
-      });
+      images.push(loc.imageUrl);
     }
   });
 
@@ -1324,8 +1382,7 @@ export const generateFrameFromParent = async (
     imageIndex++;
   });
 
-  parts.push({
-    text: `Edit Image 1 (parent frame) using these LITERAL transformation instructions:
+  const prompt = `Edit Image 1 (parent frame) using these LITERAL transformation instructions:
 
 ${transformationDelta.literalInstructions}
 
@@ -1335,25 +1392,9 @@ ${referenceText ? `REFERENCES:\n${referenceText}\n` : ''}
 Ensure all characters maintain visual identity and locations match environment from reference images.
 Style: ${style}.
 
-IMPORTANT: Follow the transformation instructions PRECISELY. Do not deviate from the specified camera operations and framing changes.`
-  });
+IMPORTANT: Follow the transformation instructions PRECISELY. Do not deviate from the specified camera operations and framing changes.`;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-image-preview",
-    contents: { parts },
-    config: {
-      imageConfig: {
-        aspectRatio: getSupportedAspectRatio(aspectRatio),
-        imageSize: "2K",
-        output_mime_type: "image/jpeg"
-      } as any
-    }
-  });
+  const image = await requestImage({ task: 'frame-from-parent', prompt, images, aspectRatio }, 'parent transformation');
 
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return await compressToJPEG(part.inlineData.data, 0.85);
-    }
-  }
-  throw new Error("No image generated from parent transformation");
+  return await compressToJPEG(image, 0.85);
 };
\ No newline at end of file
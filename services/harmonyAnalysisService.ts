@@ -0,0 +1,233 @@
+import { BeatGrid, ChannelMode, ChordSpan, HarmonyAnalysis, KeyMode, MusicalKey, PcmAudio, SectionHarmony, SongSection } from "../types";
+import { FFT_SIZE, forEachSpectrum, monoSignal } from "./audioProcessingService";
+
+export const PITCH_CLASS_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const FRAME_SECONDS = 0.1;
+
+// Above ~2kHz the partials mostly blur the pitch classes
+const CHROMA_MIN_HZ = 65;
+const CHROMA_MAX_HZ = 2100;
+
+// Chords are estimated per beat, or per fixed slot when there is no beat grid
+const FALLBACK_CHORD_SECONDS = 0.5;
+const CHORD_CHANGE_PENALTY = 0.15; // Cosine similarity a new chord must gain to replace the current one
+
+// Krumhansl-Kessler key profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// Correlation margin over the runner-up key that counts as full confidence
+const FULL_KEY_CONFIDENCE_MARGIN = 0.2;
+
+// Pitch classes that belong to a key (minor includes the raised 7th of its dominant chord)
+const KEY_SCALES: Record<KeyMode, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10, 11]
+};
+
+// Tension: share of chroma outside the key, from leakage-level to fully chromatic,
+// blended with the share of time on dominant-function chords (V, vii)
+const BASE_CHROMATIC_SHARE = 0.1;
+const FULL_CHROMATIC_SHARE = 0.35;
+const CHROMATIC_TENSION_WEIGHT = 0.6;
+
+interface ChromaFrames {
+  times: number[];
+  chroma: Float64Array[];
+}
+
+const computeChroma = (
+  channelData: Float32Array,
+  sampleRate: number,
+  onProgress?: (fraction: number) => void
+): ChromaFrames => {
+  const numBins = FFT_SIZE / 2 + 1;
+  const binHz = sampleRate / FFT_SIZE;
+  const binPitchClass = new Int8Array(numBins).fill(-1);
+  for (let k = 1; k < numBins; k++) {
+    const hz = k * binHz;
+    if (hz >= CHROMA_MIN_HZ && hz <= CHROMA_MAX_HZ) {
+      const midi = Math.round(69 + 12 * Math.log2(hz / 440));
+      binPitchClass[k] = ((midi % 12) + 12) % 12;
+    }
+  }
+
+  const frames: ChromaFrames = { times: [], chroma: [] };
+  const hop = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+  forEachSpectrum(channelData, hop, (re, im, start) => {
+    const chroma = new Float64Array(12);
+    for (let k = 1; k < numBins; k++) {
+      if (binPitchClass[k] >= 0) chroma[binPitchClass[k]] += Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+    }
+    frames.times.push((start + FFT_SIZE / 2) / sampleRate);
+    frames.chroma.push(chroma);
+  }, onProgress);
+  return frames;
+};
+
+// Summed chroma of the frames in [start, end)
+const chromaInRange = (frames: ChromaFrames, start: number, end: number): Float64Array => {
+  const sum = new Float64Array(12);
+  frames.times.forEach((t, i) => {
+    if (t < start || t >= end) return;
+    for (let p = 0; p < 12; p++) sum[p] += frames.chroma[i][p];
+  });
+  return sum;
+};
+
+const pearson = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  const n = a.length;
+  let meanA = 0, meanB = 0;
+  for (let i = 0; i < n; i++) { meanA += a[i]; meanB += b[i]; }
+  meanA /= n;
+  meanB /= n;
+  let cov = 0, varA = 0, varB = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (a[i] - meanA) * (b[i] - meanB);
+    varA += (a[i] - meanA) ** 2;
+    varB += (b[i] - meanB) ** 2;
+  }
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : 0;
+};
+
+/**
+ * Krumhansl-Schmuckler key finding: correlate the chroma with all 24 rotated key profiles
+ */
+const estimateKey = (chroma: Float64Array): MusicalKey => {
+  const scores: { tonic: number, mode: KeyMode, score: number }[] = [];
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = Array.from({ length: 12 }, (_, p) => chroma[(p + tonic) % 12]);
+    scores.push({ tonic, mode: 'major', score: pearson(rotated, MAJOR_PROFILE) });
+    scores.push({ tonic, mode: 'minor', score: pearson(rotated, MINOR_PROFILE) });
+  }
+  scores.sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+  return {
+    tonic: best.tonic,
+    mode: best.mode,
+    confidence: Math.max(0, Math.min(1, (best.score - runnerUp.score) / FULL_KEY_CONFIDENCE_MARGIN))
+  };
+};
+
+// Unit-length triad templates: index = root * 2 + (minor ? 1 : 0)
+const CHORD_TEMPLATES: Float64Array[] = Array.from({ length: 24 }, (_, i) => {
+  const root = Math.floor(i / 2);
+  const third = i % 2 === 0 ? 4 : 3;
+  const template = new Float64Array(12);
+  [0, third, 7].forEach(interval => { template[(root + interval) % 12] = 1 / Math.sqrt(3); });
+  return template;
+});
+
+const cosine = (chroma: Float64Array, template: Float64Array): number => {
+  let dot = 0, norm = 0;
+  for (let p = 0; p < 12; p++) {
+    dot += chroma[p] * template[p];
+    norm += chroma[p] * chroma[p];
+  }
+  return norm > 0 ? dot / Math.sqrt(norm) : 0;
+};
+
+/**
+ * Major/minor triad per beat by template matching, smoothed with a Viterbi pass
+ * that charges CHORD_CHANGE_PENALTY per change, then merged into spans
+ */
+const estimateChords = (frames: ChromaFrames, duration: number, beatGrid?: BeatGrid | null): ChordSpan[] => {
+  const inner = beatGrid && beatGrid.beats.length >= 8
+    ? beatGrid.beats.filter(t => t > 0 && t < duration)
+    : Array.from({ length: Math.ceil(duration / FALLBACK_CHORD_SECONDS) - 1 }, (_, i) => (i + 1) * FALLBACK_CHORD_SECONDS);
+  const boundaries = [0, ...inner, duration];
+  const numSlots = boundaries.length - 1;
+  if (numSlots <= 0) return [];
+
+  const similarity = boundaries.slice(1).map((end, s) => {
+    const chroma = chromaInRange(frames, boundaries[s], end);
+    return CHORD_TEMPLATES.map(template => cosine(chroma, template));
+  });
+
+  // Viterbi: best path score ending in each chord, with back-pointers
+  let score = similarity[0].slice();
+  const back: Int8Array[] = [];
+  for (let s = 1; s < numSlots; s++) {
+    const previous = score;
+    const bestPrevious = previous.indexOf(Math.max(...previous));
+    const pointers = new Int8Array(24);
+    score = similarity[s].map((sim, c) => {
+      const stay = previous[c];
+      const change = previous[bestPrevious] - CHORD_CHANGE_PENALTY;
+      pointers[c] = stay >= change ? c : bestPrevious;
+      return sim + Math.max(stay, change);
+    });
+    back.push(pointers);
+  }
+
+  const path = new Array<number>(numSlots);
+  path[numSlots - 1] = score.indexOf(Math.max(...score));
+  for (let s = numSlots - 1; s > 0; s--) path[s - 1] = back[s - 1][path[s]];
+
+  const spans: ChordSpan[] = [];
+  path.forEach((chord, s) => {
+    const previous = spans[spans.length - 1];
+    const root = Math.floor(chord / 2);
+    const quality: KeyMode = chord % 2 === 0 ? 'major' : 'minor';
+    if (previous && previous.root === root && previous.quality === quality) {
+      previous.end = boundaries[s + 1];
+    } else {
+      spans.push({ start: boundaries[s], end: boundaries[s + 1], root, quality });
+    }
+  });
+  return spans;
+};
+
+/**
+ * Mode of the section's own best-fitting key, and tension from its out-of-key chroma
+ * and the time it spends on dominant-function chords of the song's key
+ */
+const sectionHarmony = (frames: ChromaFrames, chords: ChordSpan[], key: MusicalKey, section: SongSection): SectionHarmony => {
+  const chroma = chromaInRange(frames, section.start, section.end);
+  const total = chroma.reduce((sum, v) => sum + v, 0);
+  const inKey = new Set(KEY_SCALES[key.mode].map(interval => (key.tonic + interval) % 12));
+  const outOfKey = total > 0 ? chroma.reduce((sum, v, p) => sum + (inKey.has(p) ? 0 : v), 0) / total : 0;
+  const chromatic = Math.max(0, Math.min(1, (outOfKey - BASE_CHROMATIC_SHARE) / (FULL_CHROMATIC_SHARE - BASE_CHROMATIC_SHARE)));
+
+  const dominantRoots = [(key.tonic + 7) % 12, (key.tonic + 11) % 12];
+  let dominantTime = 0;
+  chords.forEach(chord => {
+    const overlap = Math.min(chord.end, section.end) - Math.max(chord.start, section.start);
+    if (overlap > 0 && dominantRoots.includes(chord.root)) dominantTime += overlap;
+  });
+  const dominant = dominantTime / Math.max(0.001, section.end - section.start);
+
+  return {
+    sectionId: section.id,
+    mode: total > 0 ? estimateKey(chroma).mode : key.mode,
+    tension: CHROMATIC_TENSION_WEIGHT * chromatic + (1 - CHROMATIC_TENSION_WEIGHT) * dominant
+  };
+};
+
+/**
+ * Key, chord changes and per-section mode / tension from chroma
+ */
+export const analyzeHarmony = (
+  audio: PcmAudio,
+  beatGrid: BeatGrid | null | undefined,
+  sections: SongSection[],
+  channelMode: ChannelMode = 'sum',
+  onProgress?: (fraction: number) => void
+): HarmonyAnalysis => {
+  const frames = computeChroma(monoSignal(audio, channelMode), audio.sampleRate, onProgress);
+  const key = estimateKey(chromaInRange(frames, 0, audio.duration));
+  const chords = estimateChords(frames, audio.duration, beatGrid);
+  return {
+    key,
+    chords,
+    sections: sections.map(section => sectionHarmony(frames, chords, key, section))
+  };
+};
+
+// e.g. "A minor"
+export const formatKey = (key: MusicalKey): string => `${PITCH_CLASS_NAMES[key.tonic]} ${key.mode}`;
+
+// e.g. "F", "Am"
+export const formatChord = (chord: ChordSpan): string =>
+  `${PITCH_CLASS_NAMES[chord.root]}${chord.quality === 'minor' ? 'm' : ''}`;
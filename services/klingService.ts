@@ -1,10 +1,25 @@
 import { fal } from "@fal-ai/client";
+import type { VideoGenerationInput, VideoGenerationResult, VideoProvider, VideoQueueStatus } from "./aiProviders";
+import { AIError, AuthError, InvalidResponseError, classifyError, withDeadline } from "./aiErrors";
+import { recordUsage, reserveBudget } from "./usageService";
+
+const KLING_ENDPOINT = "fal-ai/kling-video/v2.5-turbo/pro/image-to-video";
+const KLING_DEADLINE_MS = 600000; // Queue wait plus render; 10s clips can take several minutes
+const KLING_CANCEL_DEADLINE_MS = 15000;
+
+// fal.ai price: the first 5 seconds, then per extra second
+const KLING_BASE_PRICE = 0.35;
+const KLING_BASE_SECONDS = 5;
+const KLING_PRICE_PER_EXTRA_SECOND = 0.07;
+
+const klingCost = (duration: VideoGenerationInput['duration']): number =>
+  KLING_BASE_PRICE + Math.max(0, Number(duration) - KLING_BASE_SECONDS) * KLING_PRICE_PER_EXTRA_SECOND;
 
 // Get FAL API Key from environment
 const getFalKey = (): string => {
   const key = process.env.FAL_KEY;
   if (!key) {
-    throw new Error("FAL_KEY not found in environment variables");
+    throw new AuthError("FAL_KEY not found in environment variables", 'kling');
   }
   return key;
 };
@@ -18,35 +33,16 @@ const configureFal = () => {
   }
 };
 
-export interface KlingGenerationInput {
-  prompt: string;
-  firstFrameBase64: string;
-  lastFrameBase64?: string;
-  duration: '5' | '10';
-  negativePrompt?: string;
-  cfgScale?: number;
-}
-
-export interface KlingGenerationResult {
-  videoUrl: string;
-}
-
-export interface KlingQueueStatus {
-  status: 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
-  logs?: { message: string }[];
-}
-
 /**
  * Generate a video clip using Kling 2.5 Turbo Pro via fal.ai
  * Uses image-to-video with first frame and optional last frame (tail image)
  */
-export const generateVideoClip = async (
-  input: KlingGenerationInput,
-  onProgress?: (status: KlingQueueStatus) => void
-): Promise<KlingGenerationResult> => {
-  configureFal();
-
-  const result = await fal.subscribe("fal-ai/kling-video/v2.5-turbo/pro/image-to-video", {
+const generateKlingClip = async (
+  input: VideoGenerationInput,
+  onProgress?: (status: VideoQueueStatus) => void
+): Promise<VideoGenerationResult> => {
+  let requestId: string | undefined;
+  const request = () => fal.subscribe(KLING_ENDPOINT, {
     input: {
       prompt: input.prompt,
       image_url: `data:image/jpeg;base64,${input.firstFrameBase64}`,
@@ -58,24 +54,65 @@ export const generateVideoClip = async (
       cfg_scale: input.cfgScale ?? 0.5
     } as any,
     logs: true,
+    onEnqueue: (id) => { requestId = id; },
     onQueueUpdate: (update) => {
       if (onProgress) {
         onProgress({
-          status: update.status as KlingQueueStatus['status'],
+          status: update.status as VideoQueueStatus['status'],
           logs: update.status === 'IN_PROGRESS' ? update.logs : undefined
         });
       }
     }
   });
 
+  let result: Awaited<ReturnType<typeof request>>;
+  const release = reserveBudget(klingCost(input.duration), 'kling', `${input.duration}s Kling clip`);
+  try {
+    configureFal();
+    result = await withDeadline(request(), KLING_DEADLINE_MS, 'kling', 'Kling clip');
+  } catch (e) {
+    const error = classifyError(e, 'kling');
+    if (!requestId || (error.kind !== 'timeout' && error.kind !== 'network')) throw error;
+
+    // fal has the job and keeps rendering after we stop waiting, so a retry would start (and pay for)
+    // a second clip; cancel it instead, and charge it provisionally if that fails
+    try {
+      await withDeadline(fal.queue.cancel(KLING_ENDPOINT, { requestId }), KLING_CANCEL_DEADLINE_MS, 'kling', 'Kling cancel');
+    } catch (cancelError) {
+      console.warn('Could not cancel Kling request:', cancelError);
+      recordUsage({
+        kind: 'video', provider: 'kling', model: KLING_ENDPOINT, task: 'clip',
+        videoSeconds: Number(input.duration),
+        cost: klingCost(input.duration),
+        provisional: true
+      });
+    }
+    throw new AIError(error.kind, error.message, 'kling', { status: error.status, cause: e, retryable: false });
+  } finally {
+    release();
+  }
+
   const videoUrl = (result.data as any)?.video?.url;
   if (!videoUrl) {
-    throw new Error("No video URL in Kling response");
+    throw new InvalidResponseError("No video URL in Kling response", 'kling');
   }
 
+  recordUsage({
+    kind: 'video', provider: 'kling', model: KLING_ENDPOINT, task: 'clip',
+    videoSeconds: Number(input.duration),
+    cost: klingCost(input.duration)
+  });
+
   return { videoUrl };
 };
 
+export const klingVideoProvider: VideoProvider = {
+  id: 'kling',
+  label: 'Kling 2.5 Turbo Pro (fal.ai)',
+  generateVideo: generateKlingClip,
+  estimateCost: klingCost
+};
+
 /**
  * Determine video duration based on shot timing
  * If shot is less than 5 seconds, generate 5s video (will be sped up)
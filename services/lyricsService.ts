@@ -0,0 +1,100 @@
+import { LyricLine } from "../types";
+
+// Lines without an explicit end (LRC) are capped at this length
+const MAX_LINE_SECONDS = 10;
+
+const LRC_TIME_TAG = /\[(\d+):(\d{1,2}(?:[.:]\d{1,3})?)\]/g;
+const LRC_OFFSET_TAG = /^\[offset:\s*([+-]?\d+)\s*\]/i;
+// WebVTT may leave out the hours: mm:ss.mmm
+const SRT_TIMING = /(?:(\d{1,2}):)?(\d{2}):(\d{2})[,.](\d{1,3})\s*-->\s*(?:(\d{1,2}):)?(\d{2}):(\d{2})[,.](\d{1,3})/;
+
+const toSeconds = (h: string | undefined, m: string, s: string, ms: string) =>
+  parseInt(h ?? '0') * 3600 + parseInt(m) * 60 + parseInt(s) + parseInt(ms.padEnd(3, '0')) / 1000;
+
+/**
+ * Parse an LRC file. Lines may carry several time tags; a line ends where the next one starts
+ * (empty lines mark instrumental breaks and only end the previous line); lines past the track end are dropped
+ */
+export const parseLrc = (text: string, duration: number): LyricLine[] => {
+  let offset = 0;
+  const stamped: { time: number, text: string }[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    const offsetMatch = line.match(LRC_OFFSET_TAG);
+    if (offsetMatch) {
+      // Positive offset shifts lyrics earlier
+      offset = parseInt(offsetMatch[1]) / 1000;
+      continue;
+    }
+
+    const times = [...line.matchAll(LRC_TIME_TAG)].map(m => {
+      const [sec, frac = '0'] = m[2].split(/[.:]/);
+      return parseInt(m[1]) * 60 + parseInt(sec) + parseInt(frac.padEnd(3, '0').slice(0, 3)) / 1000;
+    });
+    if (times.length === 0) continue; // Metadata tags ([ar:], [ti:], ...) and plain text
+
+    const lyric = line.replace(LRC_TIME_TAG, '').replace(/<\d+:\d+(?:\.\d+)?>/g, '').trim();
+    times.forEach(time => stamped.push({ time: Math.max(0, time - offset), text: lyric }));
+  }
+
+  stamped.sort((a, b) => a.time - b.time);
+
+  const lines: LyricLine[] = [];
+  stamped.forEach((entry, i) => {
+    if (!entry.text) return;
+    const next = stamped[i + 1]?.time ?? duration;
+    lines.push({
+      start: entry.time,
+      end: Math.min(next, entry.time + MAX_LINE_SECONDS, duration),
+      text: entry.text
+    });
+  });
+  return sanitizeLyricLines(lines, duration);
+};
+
+// Parse SRT (or WebVTT) cues; multi-line cues are joined with a space and kept inside the track
+export const parseSrt = (text: string, duration: number): LyricLine[] => {
+  const lines: LyricLine[] = [];
+  for (const block of text.replace(/\r/g, '').split(/\n\s*\n/)) {
+    const rows = block.split('\n').map(r => r.trim()).filter(Boolean);
+    const timingIndex = rows.findIndex(r => SRT_TIMING.test(r));
+    if (timingIndex < 0) continue;
+
+    const m = rows[timingIndex].match(SRT_TIMING)!;
+    const cueText = rows.slice(timingIndex + 1).join(' ').replace(/<[^>]+>/g, '').trim();
+    if (!cueText) continue;
+
+    lines.push({
+      start: toSeconds(m[1], m[2], m[3], m[4]),
+      end: toSeconds(m[5], m[6], m[7], m[8]),
+      text: cueText
+    });
+  }
+  return sanitizeLyricLines(lines, duration);
+};
+
+// Pick the parser from the file extension
+export const parseLyricsFile = async (file: File, duration: number): Promise<LyricLine[]> => {
+  const text = await file.text();
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.srt') || name.endsWith('.vtt')) return parseSrt(text, duration);
+  if (name.endsWith('.lrc')) return parseLrc(text, duration);
+  throw new Error(`Unsupported lyrics format: ${file.name}`);
+};
+
+// Lyric lines that overlap [start, end)
+export const lyricsInRange = (lines: LyricLine[], start: number, end: number): LyricLine[] =>
+  lines.filter(line => line.start < end && line.end > start);
+
+// Drop malformed lines from a model response and keep them ordered and inside the track
+export const sanitizeLyricLines = (lines: LyricLine[] | undefined, duration: number): LyricLine[] =>
+  (lines || [])
+    .filter(line => line && typeof line.text === 'string' && line.text.trim() && isFinite(line.start) && isFinite(line.end))
+    .map(line => ({
+      start: Math.max(0, Math.min(line.start, duration)),
+      end: Math.max(0, Math.min(Math.max(line.end, line.start), duration)),
+      text: line.text.trim()
+    }))
+    .filter(line => line.end > line.start)
+    .sort((a, b) => a.start - b.start);
@@ -0,0 +1,313 @@
+import { Marker, MarkerFileFormat, MarkerImportMode, OnsetData, TimeRegion } from "../types";
+import { markersInRegion, strengthAt } from "./audioProcessingService";
+
+export const MARKER_FILE_FORMATS: Record<MarkerFileFormat, { label: string, extension: string, mimeType: string }> = {
+  audacity: { label: 'Audacity labels', extension: 'txt', mimeType: 'text/plain' },
+  csv: { label: 'Reaper / Ableton CSV', extension: 'csv', mimeType: 'text/csv' },
+  json: { label: 'SonicCut JSON', extension: 'json', mimeType: 'application/json' },
+  midi: { label: 'MIDI markers', extension: 'mid', mimeType: 'audio/midi' }
+};
+
+const JSON_FORMAT_ID = 'soniccut-markers';
+const JSON_VERSION = 1;
+
+// MIDI export runs at a fixed 120 BPM so ticks map straight to seconds
+const MIDI_PPQ = 480;
+const MIDI_TEMPO_US_PER_QUARTER = 500000;
+
+// Imported markers closer than this to an existing one are treated as the same cut
+const DUPLICATE_SECONDS = 0.05;
+
+const MARKER_TYPES: Marker['type'][] = ['Cut', 'Safety', 'Beat', 'Bar'];
+
+// A marker as read from a file; missing fields are filled in on import
+export interface ImportedMarker {
+  time: number;
+  type?: Marker['type'];
+  strength?: number;
+  pinned?: boolean;
+}
+
+// --- EXPORT ---
+
+const exportAudacity = (markers: Marker[]): string =>
+  markers.map(m => `${m.time.toFixed(6)}\t${m.time.toFixed(6)}\t${m.type}`).join('\n') + '\n';
+
+// m:ss.mmm, which Reaper's region/marker manager reads back
+const formatMinutesSeconds = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(3).padStart(6, '0')}`;
+};
+
+// Reaper's marker list layout (#, Name, Start, End, Length); point markers leave End/Length empty
+const exportCsv = (markers: Marker[]): string =>
+  ['#,Name,Start,End,Length', ...markers.map((m, i) => `M${i + 1},${m.type},${formatMinutesSeconds(m.time)},,`)].join('\n') + '\n';
+
+const exportJson = (markers: Marker[], duration: number): string =>
+  JSON.stringify({
+    format: JSON_FORMAT_ID,
+    version: JSON_VERSION,
+    duration,
+    markers: markers.map(({ time, type, strength, pinned }) => ({ time, type, strength, pinned: !!pinned }))
+  }, null, 2);
+
+const variableLength = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  for (let v = value >> 7; v > 0; v >>= 7) bytes.unshift((v & 0x7f) | 0x80);
+  return bytes;
+};
+
+const metaEvent = (delta: number, type: number, data: number[]): number[] =>
+  [...variableLength(delta), 0xff, type, ...variableLength(data.length), ...data];
+
+const textBytes = (text: string): number[] => Array.from(new TextEncoder().encode(text));
+
+const chunk = (id: string, data: number[]): number[] => [
+  ...textBytes(id),
+  (data.length >>> 24) & 0xff, (data.length >>> 16) & 0xff, (data.length >>> 8) & 0xff, data.length & 0xff,
+  ...data
+];
+
+/**
+ * Standard MIDI File (format 0) with one Marker meta event per cut, named after its type
+ */
+const exportMidi = (markers: Marker[]): Uint8Array => {
+  const ticksPerSecond = (MIDI_PPQ * 1e6) / MIDI_TEMPO_US_PER_QUARTER;
+  const track: number[] = [
+    ...metaEvent(0, 0x03, textBytes('SonicCut markers')),
+    ...metaEvent(0, 0x51, [(MIDI_TEMPO_US_PER_QUARTER >> 16) & 0xff, (MIDI_TEMPO_US_PER_QUARTER >> 8) & 0xff, MIDI_TEMPO_US_PER_QUARTER & 0xff])
+  ];
+  let lastTick = 0;
+  markers.forEach(m => {
+    const tick = Math.round(m.time * ticksPerSecond);
+    track.push(...metaEvent(tick - lastTick, 0x06, textBytes(m.type)));
+    lastTick = tick;
+  });
+  track.push(...metaEvent(0, 0x2f, []));
+
+  const header = [0, 0, 0, 1, (MIDI_PPQ >> 8) & 0xff, MIDI_PPQ & 0xff]; // Format 0, one track
+  return new Uint8Array([...chunk('MThd', header), ...chunk('MTrk', track)]);
+};
+
+// Markers as a file in the given format
+export const exportMarkers = (markers: Marker[], format: MarkerFileFormat, duration: number): Blob => {
+  const { mimeType } = MARKER_FILE_FORMATS[format];
+  switch (format) {
+    case 'audacity': return new Blob([exportAudacity(markers)], { type: mimeType });
+    case 'csv': return new Blob([exportCsv(markers)], { type: mimeType });
+    case 'json': return new Blob([exportJson(markers, duration)], { type: mimeType });
+    case 'midi': return new Blob([exportMidi(markers)], { type: mimeType });
+  }
+};
+
+// --- IMPORT ---
+
+// Marker type from a label; anything that isn't one of ours is a Cut
+const typeFromName = (name: string): Marker['type'] =>
+  MARKER_TYPES.find(type => name.trim().toLowerCase().startsWith(type.toLowerCase())) ?? 'Cut';
+
+/**
+ * Seconds from "12.5", "0:12.500" or "1:02:03.456"
+ * Bars.beats positions can't be converted without the DAW's tempo map, so they are rejected
+ */
+const parseTime = (value: string): number => {
+  const text = value.trim();
+  if (/^\d+\.\d+\.\d+$/.test(text)) {
+    throw new Error(`"${text}" looks like a bars.beats position. Export the markers with a minutes:seconds or seconds time format.`);
+  }
+  const parts = text.split(':');
+  if (parts.length > 3 || parts.some(p => !/^\d+(\.\d+)?$/.test(p))) return NaN;
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+};
+
+// Audacity label track: start<TAB>end<TAB>label; region labels import their start
+const parseAudacity = (text: string): ImportedMarker[] =>
+  text.split(/\r?\n/)
+    .filter(line => line.trim() && !line.startsWith('\\')) // "\" lines carry spectral label frequencies
+    .map(line => {
+      const [start, , label = ''] = line.split('\t');
+      return { time: parseFloat(start), type: typeFromName(label) };
+    });
+
+// Split one CSV row, honouring double-quoted fields
+const splitCsvRow = (row: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') { fields.push(field); field = ''; }
+    else field += char;
+  }
+  fields.push(field);
+  return fields.map(f => f.trim());
+};
+
+/**
+ * CSV with a header row: the time comes from a Start / Time / Position / Timestamp column
+ * (Reaper marker lists and our earlier exports), the type from Name / Type / Label
+ */
+const parseCsv = (text: string): ImportedMarker[] => {
+  const rows = text.split(/\r?\n/).filter(row => row.trim()).map(splitCsvRow);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(h => h.toLowerCase());
+  const timeColumn = header.findIndex(h => /^(start|time|position|timestamp)/.test(h));
+  const nameColumn = header.findIndex(h => /^(type|name|label)/.test(h));
+  if (timeColumn < 0) throw new Error("CSV needs a Start, Time, Position or Timestamp column.");
+
+  return rows.slice(1)
+    .filter(row => !/^R\d+$/i.test(row[0] ?? '')) // Reaper regions (R1, R2, ...) aren't cuts
+    .map(row => ({
+      time: parseTime(row[timeColumn] ?? ''),
+      type: nameColumn >= 0 ? typeFromName(row[nameColumn] ?? '') : 'Cut'
+    }));
+};
+
+const parseJson = (text: string): ImportedMarker[] => {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data) ? data : data?.markers;
+  if (!Array.isArray(list)) throw new Error("JSON needs a markers array.");
+  return list.map((m: any) => ({
+    time: Number(m?.time),
+    type: MARKER_TYPES.includes(m?.type) ? m.type : 'Cut',
+    strength: typeof m?.strength === 'number' ? m.strength : undefined,
+    pinned: typeof m?.pinned === 'boolean' ? m.pinned : undefined
+  }));
+};
+
+/**
+ * Marker (FF 06) and Cue Point (FF 07) meta events from a Standard MIDI File,
+ * timed through the file's tempo map (or its SMPTE time division)
+ */
+const parseMidi = (bytes: Uint8Array): ImportedMarker[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const id = (at: number) => String.fromCharCode(...bytes.subarray(at, at + 4));
+  if (bytes.length < 14 || id(0) !== 'MThd') throw new Error("Not a Standard MIDI File.");
+
+  const division = view.getUint16(12);
+  const smpte = (division & 0x8000) !== 0;
+  const ticksPerSecondSmpte = smpte ? (256 - (division >> 8)) * (division & 0xff) : 0;
+
+  const tempos: { tick: number, usPerQuarter: number }[] = [];
+  const cues: { tick: number, name: string }[] = [];
+  const decoder = new TextDecoder();
+
+  let offset = 8 + view.getUint32(4);
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset + 4);
+    const end = Math.min(bytes.length, offset + 8 + length);
+    if (id(offset) === 'MTrk') {
+      let at = offset + 8;
+      let tick = 0;
+      let runningStatus = 0;
+      const readVariable = () => {
+        let value = 0;
+        let byte: number;
+        do {
+          byte = bytes[at++];
+          value = (value << 7) | (byte & 0x7f);
+        } while (byte & 0x80 && at < end);
+        return value;
+      };
+
+      while (at < end) {
+        tick += readVariable();
+        let status = bytes[at];
+        if (status & 0x80) at++;
+        else status = runningStatus; // Running status: reuse the last channel status byte
+
+        if (status === 0xff) {
+          const type = bytes[at++];
+          const size = readVariable();
+          const data = bytes.subarray(at, at + size);
+          if (type === 0x51 && size === 3) tempos.push({ tick, usPerQuarter: (data[0] << 16) | (data[1] << 8) | data[2] });
+          if (type === 0x06 || type === 0x07) cues.push({ tick, name: decoder.decode(data) });
+          at += size;
+        } else if (status === 0xf0 || status === 0xf7) {
+          at += readVariable();
+        } else {
+          runningStatus = status;
+          const kind = status & 0xf0;
+          at += kind === 0xc0 || kind === 0xd0 ? 1 : 2;
+        }
+      }
+    }
+    offset = offset + 8 + length;
+  }
+
+  // Seconds at a tick, walking the tempo map (120 BPM until the first tempo event)
+  tempos.sort((a, b) => a.tick - b.tick);
+  const ticksToSeconds = (tick: number): number => {
+    if (smpte) return tick / ticksPerSecondSmpte;
+    let seconds = 0;
+    let lastTick = 0;
+    let usPerQuarter = MIDI_TEMPO_US_PER_QUARTER;
+    for (const tempo of tempos) {
+      if (tempo.tick >= tick) break;
+      seconds += ((tempo.tick - lastTick) * usPerQuarter) / 1e6 / division;
+      lastTick = tempo.tick;
+      usPerQuarter = tempo.usPerQuarter;
+    }
+    return seconds + ((tick - lastTick) * usPerQuarter) / 1e6 / division;
+  };
+
+  return cues.map(cue => ({ time: ticksToSeconds(cue.tick), type: typeFromName(cue.name) }));
+};
+
+/**
+ * Read markers from a file, picking the parser from its extension
+ * (.txt Audacity labels, .csv, .json, .mid/.midi)
+ */
+export const parseMarkerFile = async (file: File): Promise<ImportedMarker[]> => {
+  const name = file.name.toLowerCase();
+  let markers: ImportedMarker[];
+  if (name.endsWith('.mid') || name.endsWith('.midi')) markers = parseMidi(new Uint8Array(await file.arrayBuffer()));
+  else if (name.endsWith('.json')) markers = parseJson(await file.text());
+  else if (name.endsWith('.csv')) markers = parseCsv(await file.text());
+  else if (name.endsWith('.txt')) markers = parseAudacity(await file.text());
+  else throw new Error(`Unsupported marker format: ${file.name}`);
+  return markers.filter(m => isFinite(m.time) && m.time >= 0);
+};
+
+/**
+ * Apply imported markers: 'replace' swaps the whole list (except pinned markers outside the
+ * cutdown region), 'merge' adds the imported cuts except where a marker already exists.
+ * Imported cuts come from hand-placed DAW markers, so they are pinned unless the file says otherwise (JSON)
+ */
+export const applyImportedMarkers = (
+  current: Marker[],
+  imported: ImportedMarker[],
+  mode: MarkerImportMode,
+  onsetData: OnsetData | null,
+  duration: number,
+  region?: TimeRegion | null
+): Marker[] => {
+  const incoming: Marker[] = [];
+  [...imported]
+    .filter(m => m.time <= duration)
+    .sort((a, b) => a.time - b.time)
+    .forEach(m => {
+      if (incoming.some(existing => Math.abs(existing.time - m.time) < DUPLICATE_SECONDS)) return;
+      incoming.push({
+        id: crypto.randomUUID(),
+        time: m.time,
+        type: m.type ?? 'Cut',
+        strength: m.strength ?? (onsetData ? strengthAt(onsetData, m.time) : 0),
+        pinned: m.pinned ?? true
+      });
+    });
+
+  if (mode === 'replace') {
+    const inside = new Set(markersInRegion(current, region));
+    const kept = current.filter(m => m.pinned && !inside.has(m));
+    return [...kept, ...incoming].sort((a, b) => a.time - b.time);
+  }
+  const added = incoming.filter(m => !current.some(existing => Math.abs(existing.time - m.time) < DUPLICATE_SECONDS));
+  return [...current, ...added].sort((a, b) => a.time - b.time);
+};
@@ -0,0 +1,231 @@
+import { Schema, Type } from "@google/genai";
+import type {
+  ImageProvider,
+  ImageRequest,
+  TextProvider,
+  TextRequest,
+  VideoGenerationInput,
+  VideoGenerationResult,
+  VideoProvider,
+  VideoQueueStatus
+} from "./aiProviders";
+import { createStillClip } from "./videoProcessingService";
+import { recordUsage } from "./usageService";
+
+// Offline stand-ins for the real models: same inputs always give the same outputs,
+// so a whole project can be planned, storyboarded and cut without API keys or spend.
+// Requests are still recorded (at $0) so the usage panel shows what a real run would call.
+
+const MOCK_IMAGE_LONG_EDGE = 768;
+const MOCK_VIDEO_WIDTH = 640;
+const MOCK_PARENT_SPACING = 4; // Every 4th frame becomes an anchor in mock hierarchies
+
+// FNV-1a: small, stable string hash to seed colours and pick values
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Schema items fields come through as strings in the Gemini SDK types
+const schemaCount = (value: string | undefined, fallback: number): number => {
+  const parsed = value !== undefined ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/**
+ * Build a value that satisfies the schema: every property filled,
+ * arrays at their minimum length (2 when unbounded), numbers inside their range
+ */
+const generateFromSchema = (schema: Schema, seed: number, name: string = 'value'): any => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const result: Record<string, any> = {};
+      Object.entries(schema.properties || {}).forEach(([key, property], i) => {
+        result[key] = generateFromSchema(property, seed + i + 1, key);
+      });
+      return result;
+    }
+    case Type.ARRAY: {
+      const count = schemaCount(schema.minItems, Math.min(2, schemaCount(schema.maxItems, 2)));
+      return Array.from({ length: count }, (_, i) =>
+        schema.items ? generateFromSchema(schema.items, seed + i * 31, name) : null
+      );
+    }
+    case Type.INTEGER:
+    case Type.NUMBER: {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? min + 100;
+      const value = min + (seed % 1000) / 1000 * (max - min);
+      return schema.type === Type.INTEGER ? Math.round(value) : Math.round(value * 100) / 100;
+    }
+    case Type.BOOLEAN:
+      return seed % 2 === 0;
+    default:
+      return schema.enum?.length ? schema.enum[0] : `Mock ${name} ${(seed % 97) + 1}`;
+  }
+};
+
+// Ids the mock narrative hands out, recovered from prompts that list existing scenes
+const extractIds = (prompt: string, prefix: 'char' | 'loc'): string[] =>
+  Array.from(new Set(prompt.match(new RegExp(`\\b${prefix}-\\d+\\b`, 'g')) || []));
+
+const linkScenes = (scenes: any[], characterIds: string[], locationIds: string[]) => {
+  scenes.forEach((scene, i) => {
+    scene.description = `Mock shot ${i + 1}: ${scene.description}`;
+    scene.characterIds = characterIds.length ? [characterIds[i % characterIds.length]] : [];
+    scene.locationIds = locationIds.length ? [locationIds[i % locationIds.length]] : [];
+  });
+};
+
+// Make generated JSON coherent where the schema alone can't express it (ids, tree shape)
+const applyTaskFixups = (request: TextRequest, result: any): any => {
+  switch (request.task) {
+    case 'audio-analysis':
+      result.lyrics = 'Instrumental';
+      result.lyricLines = [];
+      result.bpm = 120;
+      break;
+    case 'narrative':
+      result.characters.forEach((char: any, i: number) => { char.id = `char-${i + 1}`; });
+      result.locations.forEach((loc: any, i: number) => { loc.id = `loc-${i + 1}`; });
+      linkScenes(
+        result.scenes,
+        result.characters.map((char: any) => char.id),
+        result.locations.map((loc: any) => loc.id)
+      );
+      break;
+    case 'shot-adjust':
+    case 'plan-repair':
+      linkScenes(result.scenes, extractIds(request.prompt, 'char'), extractIds(request.prompt, 'loc'));
+      break;
+    case 'hierarchy': {
+      const indexSchema = request.schema?.properties?.parentIndices?.items;
+      const sceneCount = (indexSchema?.maximum ?? 0) + 1;
+      const parentIndices: number[] = [];
+      const relationships: { childIndex: number; parentIndex: number; reason: string }[] = [];
+      for (let i = 0; i < sceneCount; i++) {
+        if (i % MOCK_PARENT_SPACING === 0) {
+          parentIndices.push(i);
+        } else {
+          const parentIndex = i - (i % MOCK_PARENT_SPACING);
+          relationships.push({ childIndex: i, parentIndex, reason: `Mock: nearest anchor is frame ${parentIndex}` });
+        }
+      }
+      result.parentIndices = parentIndices;
+      result.relationships = relationships;
+      result.anchorScores = parentIndices.map((frameIndex, i) => ({ frameIndex, score: 90 - (i % 5) * 5 }));
+      break;
+    }
+  }
+  return result;
+};
+
+const generatePlainText = (request: TextRequest, seed: number): string => {
+  switch (request.task) {
+    case 'sanitize':
+      return 'Abstract, minimalist visual representation (mock)';
+    case 'edit-instructions':
+      return `Edit the image: Keep the background and lighting. Zoom in ${1 + (seed % 3) * 0.5}x on the main subject. (mock)`;
+    default:
+      return `Mock ${request.task} response ${seed % 1000}`;
+  }
+};
+
+export const mockTextProvider: TextProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  generateText: async (request: TextRequest): Promise<string> => {
+    const seed = hashString(`${request.task}:${request.prompt}`);
+    recordUsage({ kind: 'text', provider: 'mock', model: 'mock', task: request.task, cost: 0 });
+    if (!request.schema) {
+      return generatePlainText(request, seed);
+    }
+    return JSON.stringify(applyTaskFixups(request, generateFromSchema(request.schema, seed)));
+  },
+  estimateCost: () => 0
+};
+
+const parseRatio = (ratio: string): number => {
+  const [width, height] = ratio.split(':').map(Number);
+  return width > 0 && height > 0 ? width / height : 16 / 9;
+};
+
+/**
+ * Colour-coded placeholder frame: hue from the prompt hash, task name and
+ * the start of the prompt printed on it so shots are told apart at a glance
+ */
+export const mockImageProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  generateImage: async (request: ImageRequest): Promise<string | null> => {
+    const seed = hashString(`${request.task}:${request.prompt}:${request.images.length}`);
+    const ratio = parseRatio(request.aspectRatio);
+    const width = ratio >= 1 ? MOCK_IMAGE_LONG_EDGE : Math.round(MOCK_IMAGE_LONG_EDGE * ratio);
+    const height = ratio >= 1 ? Math.round(MOCK_IMAGE_LONG_EDGE / ratio) : MOCK_IMAGE_LONG_EDGE;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    const hue = seed % 360;
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 55%, 45%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 40) % 360}, 60%, 18%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    const fontSize = Math.round(Math.min(width, height) / 14);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.fillText(request.task.toUpperCase(), width / 2, height / 2 - fontSize);
+
+    ctx.font = `${Math.round(fontSize * 0.5)}px sans-serif`;
+    const summary = request.prompt.replace(/\s+/g, ' ').trim().slice(0, 60);
+    ctx.fillText(summary, width / 2, height / 2 + fontSize * 0.4, width * 0.9);
+    ctx.fillText(`mock #${seed.toString(16)}`, width / 2, height / 2 + fontSize * 1.2);
+
+    recordUsage({ kind: 'image', provider: 'mock', model: 'mock', task: request.task, images: 1, cost: 0 });
+    return canvas.toDataURL('image/jpeg', 0.85).split(',')[1];
+  },
+  estimateCost: () => 0
+};
+
+const loadImageSize = (base64: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.width, height: img.height });
+    img.onerror = () => reject(new Error('Could not read first frame for mock video'));
+    img.src = `data:image/jpeg;base64,${base64}`;
+  });
+
+/**
+ * Short test clip of the first frame with a slow push-in, at the requested duration,
+ * so speed ramps, stitching and exports run on real video without calling a model
+ */
+export const mockVideoProvider: VideoProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  generateVideo: async (
+    input: VideoGenerationInput,
+    onProgress?: (status: VideoQueueStatus) => void
+  ): Promise<VideoGenerationResult> => {
+    onProgress?.({ status: 'IN_PROGRESS', logs: [{ message: 'Rendering mock clip' }] });
+
+    const { width, height } = await loadImageSize(input.firstFrameBase64);
+    const outputHeight = Math.max(2, Math.round(MOCK_VIDEO_WIDTH * height / width / 2) * 2);
+    const blob = await createStillClip(input.firstFrameBase64, Number(input.duration), MOCK_VIDEO_WIDTH, outputHeight);
+
+    onProgress?.({ status: 'COMPLETED' });
+    recordUsage({ kind: 'video', provider: 'mock', model: 'mock', task: 'clip', videoSeconds: Number(input.duration), cost: 0 });
+    return { videoUrl: URL.createObjectURL(blob) };
+  },
+  estimateCost: () => 0
+};
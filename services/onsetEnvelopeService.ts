@@ -0,0 +1,20 @@
+import { BandWeights, OnsetBandName, OnsetData } from "../types";
+
+// Shared by onset detection and beat tracking; imports nothing from either so neither depends on load order
+
+export const BAND_NAMES: OnsetBandName[] = ['low', 'mid', 'high'];
+
+// Blend per-band envelopes by weight, falling back to the broadband envelope
+// (older projects saved onset data without bands)
+export const getWeightedEnvelope = (onsetData: OnsetData, weights?: BandWeights): number[] => {
+  if (!weights || !onsetData.bands) return onsetData.values;
+
+  const totalWeight = BAND_NAMES.reduce((sum, name) => sum + Math.max(0, weights[name]), 0);
+  if (totalWeight === 0) return onsetData.values;
+
+  const combined = onsetData.values.map((_, i) =>
+    BAND_NAMES.reduce((sum, name) => sum + Math.max(0, weights[name]) * onsetData.bands![name][i], 0)
+  );
+  const maxVal = Math.max(...combined, 0.00001);
+  return combined.map(v => v / maxVal);
+};
@@ -0,0 +1,125 @@
+import { ColorPalette, HarmonyAnalysis, KeyMode, PaletteColor, SceneScript, SongSection } from "../types";
+
+// Above this tension a section gets the tense variant of its mode's palette
+const TENSE_THRESHOLD = 0.45;
+
+// One palette per mode / tension quadrant, so repeated sections share colours across the storyboard
+const BASE_PALETTES: Record<KeyMode, { calm: ColorPalette, tense: ColorPalette }> = {
+  major: {
+    calm: {
+      name: 'Golden hour',
+      mood: 'bright, warm, open',
+      colors: [
+        { name: 'amber', hex: '#F6C453' },
+        { name: 'coral', hex: '#F08A4B' },
+        { name: 'cream', hex: '#FCE9C6' },
+        { name: 'soft teal', hex: '#7FB7BE' }
+      ]
+    },
+    tense: {
+      name: 'Electric',
+      mood: 'vivid, restless, high-contrast',
+      colors: [
+        { name: 'hot magenta', hex: '#FF3D68' },
+        { name: 'signal yellow', hex: '#FFB400' },
+        { name: 'cyan', hex: '#00C2D1' },
+        { name: 'deep indigo', hex: '#1B1B3A' }
+      ]
+    }
+  },
+  minor: {
+    calm: {
+      name: 'Blue hour',
+      mood: 'melancholic, cool, hazy',
+      colors: [
+        { name: 'slate blue', hex: '#2E4057' },
+        { name: 'steel blue', hex: '#5B7DB1' },
+        { name: 'mist grey', hex: '#A7BBC7' },
+        { name: 'pale silver', hex: '#E1E5EA' }
+      ]
+    },
+    tense: {
+      name: 'Noir crimson',
+      mood: 'dark, tense, dramatic',
+      colors: [
+        { name: 'near black', hex: '#0B0C10' },
+        { name: 'oxblood', hex: '#6B0F1A' },
+        { name: 'crimson', hex: '#B91646' },
+        { name: 'gunmetal', hex: '#3A3D4A' }
+      ]
+    }
+  }
+};
+
+// Section energy scales saturation between these factors (quiet sections are muted)
+const MIN_SATURATION_SCALE = 0.55;
+const MAX_SATURATION_SCALE = 1.1;
+
+const hexToHsl = (hex: string): [number, number, number] => {
+  const r = parseInt(hex.slice(1, 3), 16) / 255;
+  const g = parseInt(hex.slice(3, 5), 16) / 255;
+  const b = parseInt(hex.slice(5, 7), 16) / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return [h / 6, s, l];
+};
+
+const hslToHex = (h: number, s: number, l: number): string => {
+  const hueToRgb = (p: number, q: number, t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channels = s === 0 ? [l, l, l] : [hueToRgb(p, q, h + 1 / 3), hueToRgb(p, q, h), hueToRgb(p, q, h - 1 / 3)];
+  return '#' + channels.map(c => Math.round(c * 255).toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+/**
+ * Palette for a section: its mode and tension pick the base palette, its energy the saturation
+ */
+export const paletteForSection = (section: SongSection, harmony: HarmonyAnalysis): ColorPalette => {
+  const sectionHarmony = harmony.sections.find(h => h.sectionId === section.id);
+  const mode = sectionHarmony?.mode ?? harmony.key.mode;
+  const tense = (sectionHarmony?.tension ?? 0) >= TENSE_THRESHOLD;
+  const base = BASE_PALETTES[mode][tense ? 'tense' : 'calm'];
+  const saturationScale = MIN_SATURATION_SCALE + (MAX_SATURATION_SCALE - MIN_SATURATION_SCALE) * section.energy;
+
+  return {
+    name: base.name,
+    mood: section.energy < 0.5 ? `${base.mood}, muted` : base.mood,
+    colors: base.colors.map(({ name, hex }): PaletteColor => {
+      const [h, s, l] = hexToHsl(hex);
+      return { name, hex: hslToHex(h, Math.min(1, s * saturationScale), l) };
+    })
+  };
+};
+
+/**
+ * Give each scene the palette of the section its shot starts in
+ * Scenes outside every section (or without harmony data) keep no palette
+ */
+export const assignScenePalettes = <T extends SceneScript>(
+  scenes: T[],
+  sections: SongSection[],
+  harmony: HarmonyAnalysis | null | undefined
+): T[] => {
+  if (!harmony) return scenes;
+  return scenes.map(scene => {
+    const section = sections.find(s => scene.startTime >= s.start && scene.startTime < s.end);
+    return section ? { ...scene, palette: paletteForSection(section, harmony) } : scene;
+  });
+};
+
+// Image style with the scene's palette appended
+export const styleWithPalette = (style: string, palette?: ColorPalette): string =>
+  palette ? `${style}. Color palette "${palette.name}" (${palette.mood}): ${palette.colors.map(c => `${c.name} ${c.hex}`).join(', ')}` : style;
@@ -0,0 +1,303 @@
+import { Character, Location, PlanIssue, PlanIssueCode, SceneScript } from '../types';
+
+// Scene fields the planner writes; ids, timing and palettes are added when scenes are bound to shots
+export type DraftScene = Pick<SceneScript, 'description' | 'interpolationPrompt' | 'characterIds' | 'locationIds'>;
+
+export interface PlanDraft {
+  narrativeSummary: string;
+  characters: Character[];
+  locations: Location[];
+  scenes: DraftScene[];
+}
+
+export interface HierarchyRelationship {
+  childIndex: number;
+  parentIndex: number;
+  reason: string;
+}
+
+// Raw hierarchy as the planner returns it, before depths and child lists are derived
+export interface HierarchyOutput {
+  parentIndices: number[];
+  relationships: HierarchyRelationship[];
+  anchorScores: { frameIndex: number; score: number }[];
+}
+
+// Issues found in the model output, and a structurally valid copy with every issue patched locally
+export interface PlanInspection<T> {
+  value: T;
+  issues: PlanIssue[];
+}
+
+type ReportIssue = (severity: PlanIssue['severity'], code: PlanIssueCode, message: string, sceneIndex?: number) => void;
+
+const issueCollector = (source: PlanIssue['source']) => {
+  const issues: PlanIssue[] = [];
+  const report: ReportIssue = (severity, code, message, sceneIndex) => {
+    issues.push({ code, source, severity, message, sceneIndex, resolution: 'unresolved' });
+  };
+  return { issues, report };
+};
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Characters or locations with usable, unique ids
+ * Missing ids get `${prefix}-N`; duplicates get a numeric suffix so references keep hitting the first
+ */
+const normalizeEntities = <T extends Character | Location>(
+  list: unknown,
+  prefix: string,
+  label: string,
+  report: ReportIssue
+): T[] => {
+  if (!Array.isArray(list)) {
+    report('warning', 'missing-field', `The plan has no ${label} list`);
+    return [];
+  }
+
+  const title = label.charAt(0).toUpperCase() + label.slice(1);
+  const used = new Set<string>();
+  const uniqueId = (base: string): string => {
+    let id = base;
+    for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+    used.add(id);
+    return id;
+  };
+
+  return list.filter(item => item && typeof item === 'object').map((item: any, i) => {
+    let id: string;
+    if (!isText(item.id)) {
+      id = uniqueId(`${prefix}-${i + 1}`);
+      report('warning', 'missing-field', `${title} ${i + 1} has no id; using "${id}"`);
+    } else if (used.has(item.id.trim())) {
+      id = uniqueId(item.id.trim());
+      report('warning', 'duplicate-id', `Duplicate ${label} id "${item.id.trim()}" renamed to "${id}"`);
+    } else {
+      id = uniqueId(item.id.trim());
+    }
+
+    const name = isText(item.name) ? item.name : id;
+    if (!isText(item.description)) {
+      report('warning', 'missing-field', `${title} "${name}" has no description`);
+    }
+    return { ...item, id, name, description: isText(item.description) ? item.description : name } as T;
+  });
+};
+
+/**
+ * Check a narrative plan against the expected shape and its own references:
+ * scene count, required text per scene, and character/location ids that exist
+ * Throws only when there is no scenes list at all
+ */
+export const inspectVideoPlan = (raw: any, expectedSceneCount: number): PlanInspection<PlanDraft> => {
+  const { issues, report } = issueCollector('plan');
+
+  if (!raw || !Array.isArray(raw.scenes)) {
+    throw new Error('The plan has no scenes list');
+  }
+
+  const narrativeSummary = isText(raw.narrativeSummary) ? raw.narrativeSummary : '';
+  if (!narrativeSummary) report('warning', 'missing-field', 'The narrative summary is missing');
+
+  const characters = normalizeEntities<Character>(raw.characters, 'char', 'character', report);
+  const locations = normalizeEntities<Location>(raw.locations, 'loc', 'location', report);
+  const characterIds = new Set(characters.map(c => c.id));
+  const locationIds = new Set(locations.map(l => l.id));
+
+  if (raw.scenes.length !== expectedSceneCount) {
+    report('error', 'scene-count', `Planned ${raw.scenes.length} shots for ${expectedSceneCount} cuts`);
+  }
+
+  const knownIds = (
+    ids: unknown,
+    known: Set<string>,
+    code: 'unknown-character' | 'unknown-location',
+    label: string,
+    sceneIndex: number
+  ): string[] => {
+    if (!Array.isArray(ids)) {
+      report('warning', 'missing-field', `Shot ${sceneIndex + 1} has no ${label} list`, sceneIndex);
+      return [];
+    }
+    return ids.filter(id => {
+      if (typeof id === 'string' && known.has(id)) return true;
+      report('error', code, `Shot ${sceneIndex + 1} references unknown ${label} "${id}"`, sceneIndex);
+      return false;
+    });
+  };
+
+  const scenes: DraftScene[] = raw.scenes.map((scene: any, i: number) => {
+    const source = scene && typeof scene === 'object' ? scene : {};
+    const description = isText(source.description) ? source.description : '';
+    if (!description) report('error', 'missing-field', `Shot ${i + 1} has no description`, i);
+
+    const interpolationPrompt = isText(source.interpolationPrompt) ? source.interpolationPrompt : '';
+    if (!interpolationPrompt) report('warning', 'missing-field', `Shot ${i + 1} has no interpolation prompt`, i);
+
+    return {
+      ...source,
+      description: description || `Shot ${i + 1}`,
+      interpolationPrompt: interpolationPrompt || description || `Shot ${i + 1}`,
+      characterIds: knownIds(source.characterIds, characterIds, 'unknown-character', 'character', i),
+      locationIds: knownIds(source.locationIds, locationIds, 'unknown-location', 'location', i)
+    };
+  });
+
+  return { value: { narrativeSummary, characters, locations, scenes }, issues };
+};
+
+/**
+ * Check a hierarchy against the frame count: anchors and relationships must name real frames,
+ * every other frame needs exactly one parent, and every parent chain must end at an anchor
+ * Orphans and broken chains are attached to the nearest earlier anchor
+ */
+export const inspectHierarchy = (raw: any, sceneCount: number): PlanInspection<HierarchyOutput> => {
+  const { issues, report } = issueCollector('hierarchy');
+  const inRange = (value: unknown): value is number =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) < sceneCount;
+  const label = (value: unknown) => inRange(value) ? `shot ${value + 1}` : `frame ${String(value)}`;
+
+  const parents = new Set<number>();
+  (Array.isArray(raw?.parentIndices) ? raw.parentIndices : []).forEach((index: unknown) => {
+    if (inRange(index)) parents.add(index);
+    else report('error', 'index-out-of-range', `Anchor ${label(index)} does not exist`);
+  });
+  if (parents.size === 0 && sceneCount > 0) {
+    report('error', 'no-anchors', 'No anchor frames were chosen; using shot 1');
+    parents.add(0);
+  }
+
+  const anchors = Array.from(parents).sort((a, b) => a - b);
+  const nearestAnchor = (index: number): number =>
+    [...anchors].reverse().find(anchor => anchor < index) ?? anchors[0];
+
+  const parentOf = new Map<number, HierarchyRelationship>();
+  (Array.isArray(raw?.relationships) ? raw.relationships : []).forEach((rel: any) => {
+    const childIndex = rel?.childIndex;
+    const parentIndex = rel?.parentIndex;
+
+    if (!inRange(childIndex) || !inRange(parentIndex)) {
+      report(
+        'error',
+        'index-out-of-range',
+        `Relationship ${label(childIndex)} → ${label(parentIndex)} refers to a missing frame`,
+        inRange(childIndex) ? childIndex : undefined
+      );
+    } else if (parents.has(childIndex)) {
+      report('warning', 'conflicting-parent', `Anchor shot ${childIndex + 1} was also given parent shot ${parentIndex + 1}`, childIndex);
+    } else if (childIndex === parentIndex) {
+      report('error', 'cycle', `Shot ${childIndex + 1} is its own parent`, childIndex);
+    } else if (parentOf.has(childIndex)) {
+      if (parentOf.get(childIndex)!.parentIndex !== parentIndex) {
+        report('warning', 'conflicting-parent', `Shot ${childIndex + 1} has several parents; keeping the first`, childIndex);
+      }
+    } else {
+      parentOf.set(childIndex, { childIndex, parentIndex, reason: isText(rel.reason) ? rel.reason : '' });
+    }
+  });
+
+  const attach = (index: number, reason: string) => {
+    parentOf.set(index, { childIndex: index, parentIndex: nearestAnchor(index), reason });
+  };
+
+  for (let i = 0; i < sceneCount; i++) {
+    if (!parents.has(i) && !parentOf.has(i)) {
+      report('error', 'orphan-frame', `Shot ${i + 1} has no parent`, i);
+      attach(i, 'Attached to the nearest earlier anchor');
+    }
+  }
+
+  // Every chain now continues until it reaches an anchor or revisits a frame
+  for (let i = 0; i < sceneCount; i++) {
+    const visited = new Set<number>();
+    let current = i;
+    while (!parents.has(current) && !visited.has(current)) {
+      visited.add(current);
+      current = parentOf.get(current)!.parentIndex;
+    }
+    if (!parents.has(current)) {
+      // `current` is on the loop; re-pointing it frees every chain that runs into it
+      report('error', 'cycle', `Shot ${current + 1}'s parent chain loops without reaching an anchor`, current);
+      attach(current, 'Loop broken by attaching to the nearest earlier anchor');
+    }
+  }
+
+  const anchorScores: HierarchyOutput['anchorScores'] = [];
+  (Array.isArray(raw?.anchorScores) ? raw.anchorScores : []).forEach((entry: any) => {
+    const frameIndex = entry?.frameIndex;
+    if (!parents.has(frameIndex)) {
+      report('warning', 'invalid-score', `Score given to ${label(frameIndex)}, which is not an anchor`);
+      return;
+    }
+    const score = Number(entry.score);
+    if (!Number.isFinite(score) || score < 0 || score > 100) {
+      report('warning', 'invalid-score', `Anchor shot ${frameIndex + 1} has score ${entry.score}; clamped to 0-100`, frameIndex);
+    }
+    anchorScores.push({ frameIndex, score: Number.isFinite(score) ? Math.min(100, Math.max(0, score)) : 0 });
+  });
+
+  return {
+    value: {
+      parentIndices: anchors,
+      relationships: Array.from(parentOf.values()).sort((a, b) => a.childIndex - b.childIndex),
+      anchorScores
+    },
+    issues
+  };
+};
+
+/**
+ * Shots worth a targeted repair prompt: anything wrong inside a scene
+ * (a wrong scene count is handled by adjusting the whole plan instead)
+ */
+export const scenesToRepair = (issues: PlanIssue[]): number[] =>
+  Array.from(new Set(
+    issues
+      .filter(issue => issue.source === 'plan' && issue.sceneIndex !== undefined && issue.code !== 'scene-count')
+      .map(issue => issue.sceneIndex!)
+  )).sort((a, b) => a - b);
+
+const REPARENT_CODES: PlanIssueCode[] = ['orphan-frame', 'cycle', 'index-out-of-range'];
+
+// Frames that need a new parent from the repair prompt
+export const framesToReparent = (issues: PlanIssue[]): number[] =>
+  Array.from(new Set(
+    issues
+      .filter(issue => issue.source === 'hierarchy' && issue.sceneIndex !== undefined && REPARENT_CODES.includes(issue.code))
+      .map(issue => issue.sceneIndex!)
+  )).sort((a, b) => a - b);
+
+/**
+ * Issues after a shot-count adjustment: the adjusted plan was re-inspected as a whole,
+ * so its issues replace the earlier ones, plus the count issue marked repaired if the count is now right
+ */
+export const mergeAdjustedIssues = (before: PlanIssue[], after: PlanIssue[]): PlanIssue[] => {
+  if (after.some(issue => issue.code === 'scene-count')) return after;
+  return [
+    ...before.filter(issue => issue.code === 'scene-count').map(issue => ({ ...issue, resolution: 'repaired' as const })),
+    ...after
+  ];
+};
+
+const issueKey = (issue: PlanIssue) => `${issue.source}:${issue.code}:${issue.sceneIndex ?? issue.message}`;
+
+/**
+ * Settle issues after a repair round: those gone from the re-inspection were repaired,
+ * the rest (and any the repair introduced) were patched locally, except a wrong
+ * scene count, which the local patch cannot fix
+ * Pass the same list twice when no repair was attempted
+ */
+export const reconcileIssues = (found: PlanIssue[], remaining: PlanIssue[]): PlanIssue[] => {
+  const settle = (issue: PlanIssue): PlanIssue => ({
+    ...issue,
+    resolution: issue.code === 'scene-count' ? 'unresolved' : 'auto-fixed'
+  });
+  const foundKeys = new Set(found.map(issueKey));
+  const remainingKeys = new Set(remaining.map(issueKey));
+
+  return [
+    ...found.map(issue => remainingKeys.has(issueKey(issue)) ? settle(issue) : { ...issue, resolution: 'repaired' as const }),
+    ...remaining.filter(issue => !foundKeys.has(issueKey(issue))).map(settle)
+  ];
+};
@@ -0,0 +1,294 @@
+import { classifyError } from './aiErrors';
+
+// Every model request goes through one queue per provider lane ("image:gemini", "video:kling", ...),
+// so concurrency and request rates are capped per provider instead of per batch.
+
+export type RequestKind = 'text' | 'image' | 'video';
+
+// User-triggered regenerations jump ahead of queued batch work
+export type JobPriority = 'interactive' | 'batch';
+
+export interface LaneLimits {
+  maxConcurrent: number;
+  requestsPerMinute: number;      // Token bucket refill rate
+  burst: number;                  // Token bucket size
+}
+
+export interface ScheduleOptions {
+  kind: RequestKind;
+  provider: string;
+  label: string;                  // Shown in the queue panel, e.g. "Frame 3"
+  priority?: JobPriority;
+  token?: CancellationToken;
+}
+
+export interface ScheduledJobInfo {
+  id: number;
+  label: string;
+  lane: string;
+  priority: JobPriority;
+  state: 'queued' | 'running';
+  enqueuedAt: number;
+  startedAt?: number;
+}
+
+export interface LaneInfo {
+  key: string;
+  kind: RequestKind;
+  provider: string;
+  running: number;
+  queued: number;
+  limits: LaneLimits;
+  cooldownUntil: number | null;   // Set after a rate-limit response
+}
+
+export interface SchedulerSnapshot {
+  lanes: LaneInfo[];
+  jobs: ScheduledJobInfo[];
+}
+
+export class CancelledError extends Error {
+  constructor(message: string = 'Cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Shared by every request of one run (a storyboard pass, a video batch);
+ * cancelling drops its queued jobs and tells running ones to stop retrying
+ */
+export class CancellationToken {
+  private isCancelled = false;
+  private listeners = new Set<() => void>();
+
+  get cancelled(): boolean {
+    return this.isCancelled;
+  }
+
+  cancel() {
+    if (this.isCancelled) return;
+    this.isCancelled = true;
+    this.listeners.forEach(listener => listener());
+    this.listeners.clear();
+  }
+
+  // Returns an unsubscribe function; fires immediately if already cancelled
+  onCancel(listener: () => void): () => void {
+    if (this.isCancelled) {
+      listener();
+      return () => {};
+    }
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+const DEFAULT_LIMITS: Record<RequestKind, LaneLimits> = {
+  text: { maxConcurrent: 4, requestsPerMinute: 30, burst: 6 },
+  image: { maxConcurrent: 3, requestsPerMinute: 20, burst: 4 },
+  video: { maxConcurrent: 2, requestsPerMinute: 10, burst: 2 }
+};
+
+// Per-provider overrides; the mock provider runs locally, only FFmpeg bounds its video lane
+const PROVIDER_LIMITS: Record<string, Partial<Record<RequestKind, LaneLimits>>> = {
+  mock: {
+    text: { maxConcurrent: 8, requestsPerMinute: 600, burst: 20 },
+    image: { maxConcurrent: 4, requestsPerMinute: 600, burst: 20 },
+    video: { maxConcurrent: 1, requestsPerMinute: 600, burst: 20 }
+  }
+};
+
+const PRIORITY_RANK: Record<JobPriority, number> = { interactive: 0, batch: 1 };
+const RATE_LIMIT_COOLDOWN_MS = 4000;  // Doubled per consecutive 429
+const MAX_COOLDOWN_MS = 60000;
+
+interface Job {
+  info: ScheduledJobInfo;
+  run: () => Promise<unknown>;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+  releaseToken: () => void;
+}
+
+interface Lane {
+  key: string;
+  kind: RequestKind;
+  provider: string;
+  limits: LaneLimits;
+  queue: Job[];                   // Sorted by priority, then arrival
+  running: Job[];
+  tokens: number;
+  refilledAt: number;
+  cooldownUntil: number;
+  rateLimitStrikes: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const lanes = new Map<string, Lane>();
+const listeners = new Set<() => void>();
+let nextJobId = 0;
+let snapshot: SchedulerSnapshot = { lanes: [], jobs: [] };
+
+const getLane = (kind: RequestKind, provider: string): Lane => {
+  const key = `${kind}:${provider}`;
+  let lane = lanes.get(key);
+  if (!lane) {
+    const limits = PROVIDER_LIMITS[provider]?.[kind] ?? DEFAULT_LIMITS[kind];
+    lane = {
+      key, kind, provider, limits,
+      queue: [], running: [],
+      tokens: limits.burst, refilledAt: Date.now(),
+      cooldownUntil: 0, rateLimitStrikes: 0,
+      timer: null
+    };
+    lanes.set(key, lane);
+  }
+  return lane;
+};
+
+// Rebuilt on every change so React sees a new object only when something moved
+const notify = () => {
+  snapshot = {
+    lanes: Array.from(lanes.values()).map(lane => ({
+      key: lane.key,
+      kind: lane.kind,
+      provider: lane.provider,
+      running: lane.running.length,
+      queued: lane.queue.length,
+      limits: lane.limits,
+      cooldownUntil: lane.cooldownUntil > Date.now() ? lane.cooldownUntil : null
+    })),
+    jobs: Array.from(lanes.values()).flatMap(lane => [...lane.running, ...lane.queue].map(job => ({ ...job.info })))
+  };
+  listeners.forEach(listener => listener());
+};
+
+const refillTokens = (lane: Lane, now: number) => {
+  const refill = (now - lane.refilledAt) * lane.limits.requestsPerMinute / 60000;
+  lane.tokens = Math.min(lane.limits.burst, lane.tokens + refill);
+  lane.refilledAt = now;
+};
+
+const wakeLaneAt = (lane: Lane, at: number) => {
+  if (lane.timer) clearTimeout(lane.timer);
+  lane.timer = setTimeout(() => {
+    lane.timer = null;
+    pump(lane);
+  }, Math.max(0, at - Date.now()));
+};
+
+// A 429 pauses the whole lane: everything queued behind it would hit the same limit
+const recordOutcome = (lane: Lane, error: unknown) => {
+  if (error === null) {
+    lane.rateLimitStrikes = 0;
+    return;
+  }
+  if (error instanceof CancelledError) return;
+
+  const classified = classifyError(error, lane.provider);
+  if (classified.kind !== 'rate-limited') return;
+
+  const backoff = classified.retryAfterMs ?? RATE_LIMIT_COOLDOWN_MS * Math.pow(2, lane.rateLimitStrikes);
+  lane.rateLimitStrikes++;
+  lane.cooldownUntil = Math.max(lane.cooldownUntil, Date.now() + Math.min(MAX_COOLDOWN_MS, backoff));
+  lane.tokens = 0;
+};
+
+const startJob = (lane: Lane, job: Job) => {
+  job.releaseToken();
+  job.info.state = 'running';
+  job.info.startedAt = Date.now();
+  lane.running.push(job);
+
+  job.run().then(
+    value => {
+      recordOutcome(lane, null);
+      job.resolve(value);
+    },
+    error => {
+      recordOutcome(lane, error);
+      job.reject(error);
+    }
+  ).finally(() => {
+    lane.running = lane.running.filter(j => j !== job);
+    pump(lane);
+  });
+};
+
+const pump = (lane: Lane) => {
+  const now = Date.now();
+
+  if (lane.cooldownUntil > now) {
+    if (lane.queue.length > 0) wakeLaneAt(lane, lane.cooldownUntil);
+    notify();
+    return;
+  }
+
+  refillTokens(lane, now);
+  while (lane.queue.length > 0 && lane.running.length < lane.limits.maxConcurrent) {
+    if (lane.tokens < 1) {
+      const waitMs = (1 - lane.tokens) * 60000 / lane.limits.requestsPerMinute;
+      wakeLaneAt(lane, now + waitMs);
+      break;
+    }
+    lane.tokens -= 1;
+    startJob(lane, lane.queue.shift()!);
+  }
+
+  notify();
+};
+
+const enqueue = (lane: Lane, job: Job) => {
+  const rank = PRIORITY_RANK[job.info.priority];
+  const index = lane.queue.findIndex(queued => PRIORITY_RANK[queued.info.priority] > rank);
+  if (index === -1) lane.queue.push(job);
+  else lane.queue.splice(index, 0, job);
+};
+
+/**
+ * Run `request` once its lane has a free slot and a rate token
+ * Rejects with CancelledError if the token is cancelled while the job is still queued;
+ * a job that already started runs to completion (provider calls can't be aborted)
+ */
+export const scheduleRequest = <T>(options: ScheduleOptions, request: () => Promise<T>): Promise<T> => {
+  if (options.token?.cancelled) return Promise.reject(new CancelledError());
+
+  const lane = getLane(options.kind, options.provider);
+
+  return new Promise<T>((resolve, reject) => {
+    const job: Job = {
+      info: {
+        id: nextJobId++,
+        label: options.label,
+        lane: lane.key,
+        priority: options.priority ?? 'batch',
+        state: 'queued',
+        enqueuedAt: Date.now()
+      },
+      run: request,
+      resolve,
+      reject,
+      releaseToken: () => {}
+    };
+
+    if (options.token) {
+      job.releaseToken = options.token.onCancel(() => {
+        if (!lane.queue.includes(job)) return;
+        lane.queue = lane.queue.filter(j => j !== job);
+        reject(new CancelledError());
+        notify();
+      });
+    }
+
+    enqueue(lane, job);
+    pump(lane);
+  });
+};
+
+export const getSchedulerSnapshot = (): SchedulerSnapshot => snapshot;
+
+export const subscribeToScheduler = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
@@ -0,0 +1,113 @@
+import { AIErrorKind } from '../types';
+import { AIError, classifyError } from './aiErrors';
+import { CancellationToken, CancelledError, ScheduleOptions, scheduleRequest } from './requestScheduler';
+
+// How far a prompt has been rewritten after safety blocks
+export type SanitizeLevel = 'none' | 'moderate' | 'strict';
+
+export interface RetryAttempt {
+  attempt: number;            // 0-based
+  sanitizeLevel: SanitizeLevel;
+}
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  label?: string;                 // For console warnings and the queue panel, e.g. "Frame 3"
+  provider?: string;              // Used when classifying errors that aren't AIErrors yet
+  token?: CancellationToken;      // Checked before each attempt; cuts backoff short
+  schedule?: Pick<ScheduleOptions, 'kind' | 'provider' | 'priority'>; // Queue each attempt in this lane
+}
+
+interface KindPolicy {
+  retry: boolean;
+  baseDelayMs: number;            // Doubled per attempt, plus jitter
+}
+
+/**
+ * Safety blocks retry at once with a sanitized prompt; 429s, network errors and timeouts back off;
+ * auth, quota and budget errors fail fast since retrying cannot help
+ */
+const RETRY_POLICY: Record<AIErrorKind, KindPolicy> = {
+  'safety-blocked': { retry: true, baseDelayMs: 0 },
+  'rate-limited': { retry: true, baseDelayMs: 4000 },
+  'network': { retry: true, baseDelayMs: 2000 },
+  'timeout': { retry: true, baseDelayMs: 2000 },
+  'invalid-response': { retry: true, baseDelayMs: 500 },
+  'unknown': { retry: true, baseDelayMs: 1000 },
+  'quota-exceeded': { retry: false, baseDelayMs: 0 },
+  'auth': { retry: false, baseDelayMs: 0 },
+  'budget-exceeded': { retry: false, baseDelayMs: 0 }
+};
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const MAX_DELAY_MS = 60000;
+
+const NEXT_SANITIZE_LEVEL: Record<SanitizeLevel, SanitizeLevel> = {
+  none: 'moderate',
+  moderate: 'strict',
+  strict: 'strict'
+};
+
+// Errors that make every other request in the batch pointless
+export const isFatalError = (error: unknown): boolean =>
+  error instanceof AIError && !RETRY_POLICY[error.kind].retry;
+
+const backoffDelay = (error: AIError, attempt: number): number => {
+  if (error.retryAfterMs !== undefined) return Math.min(MAX_DELAY_MS, error.retryAfterMs);
+  const base = RETRY_POLICY[error.kind].baseDelayMs * Math.pow(2, attempt);
+  return Math.min(MAX_DELAY_MS, base + Math.random() * base * 0.25);
+};
+
+const wait = (ms: number, token?: CancellationToken) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(() => {
+      release?.();
+      resolve();
+    }, ms);
+    const release = token?.onCancel(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+/**
+ * Run `request` until it succeeds, the policy gives up, or the token is cancelled
+ * The attempt tells the request how far to sanitize its prompt: that only escalates after safety blocks.
+ * Throws the last error as an AIError, or CancelledError once cancelled.
+ */
+export const withRetry = async <T>(
+  request: (attempt: RetryAttempt) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> => {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  let sanitizeLevel: SanitizeLevel = 'none';
+  let lastError: AIError | null = null;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    if (options.token?.cancelled) throw new CancelledError();
+
+    try {
+      const current: RetryAttempt = { attempt, sanitizeLevel };
+      return await (options.schedule
+        ? scheduleRequest({ ...options.schedule, label: options.label ?? 'Request', token: options.token }, () => request(current))
+        : request(current));
+    } catch (e) {
+      if (e instanceof CancelledError) throw e;
+      const error = classifyError(e, options.provider ?? options.schedule?.provider ?? 'unknown');
+      lastError = error;
+      console.warn(`${options.label ?? 'Request'} attempt ${attempt + 1} failed (${error.kind}):`, error);
+
+      if (!(error.retryable ?? RETRY_POLICY[error.kind].retry) || attempt === maxAttempts - 1) break;
+
+      if (error.kind === 'safety-blocked') {
+        if (sanitizeLevel === 'strict') break;
+        sanitizeLevel = NEXT_SANITIZE_LEVEL[sanitizeLevel];
+      } else {
+        await wait(backoffDelay(error, attempt), options.token);
+      }
+    }
+  }
+
+  if (options.token?.cancelled) throw new CancelledError();
+  throw lastError!;
+};
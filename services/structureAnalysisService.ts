@@ -0,0 +1,435 @@
+import { BeatGrid, ChannelMode, OnsetData, PcmAudio, SongSection, SongSectionLabel, TimeRegion } from "../types";
+import { FFT_SIZE, forEachSpectrum, monoSignal } from "./audioProcessingService";
+
+// Feature frames are much coarser than onset frames; structure lives at the bar level
+const FRAME_SECONDS = 0.1;
+
+// Block length when no beat grid is available (otherwise one block per bar)
+const FALLBACK_BLOCK_SECONDS = 2;
+
+const CHROMA_MIN_HZ = 55;
+const CHROMA_MAX_HZ = 4000;
+
+// Log-spaced bands for the MFCC-like timbre coefficients
+const TIMBRE_MIN_HZ = 40;
+const TIMBRE_MAX_HZ = 11000;
+const NUM_TIMBRE_BANDS = 24;
+const NUM_TIMBRE_COEFFS = 12;
+
+// Shortest section; novelty peaks closer together than this are suppressed
+const MIN_SECTION_SECONDS = 8;
+
+// Repeats must be this many standard deviations above the average block similarity
+const REPEAT_THRESHOLD_STD = 1.0;
+
+// Below this fraction of the chorus energy, the first / last section is an intro / outro
+const INTRO_OUTRO_ENERGY_RATIO = 0.75;
+
+// Suggested cutdowns longer than the chorus spend this share of the spare time before it
+const CUTDOWN_LEAD_IN_SHARE = 0.25;
+const CUTDOWN_SCAN_STEP_SECONDS = 0.5;
+
+interface FrameFeatures {
+  times: number[];
+  chroma: Float64Array[];
+  timbre: Float64Array[];
+  energy: number[];
+}
+
+/**
+ * Chroma (12 pitch classes) and MFCC-like timbre coefficients per frame
+ */
+const computeFrameFeatures = (
+  channelData: Float32Array,
+  sampleRate: number,
+  onProgress?: (fraction: number) => void
+): FrameFeatures => {
+  const numBins = FFT_SIZE / 2 + 1;
+  const binHz = sampleRate / FFT_SIZE;
+
+  // Map each bin to its pitch class and timbre band (-1 = unused)
+  const binPitchClass = new Int8Array(numBins).fill(-1);
+  const binTimbreBand = new Int8Array(numBins).fill(-1);
+  const logMin = Math.log(TIMBRE_MIN_HZ);
+  const logMax = Math.log(TIMBRE_MAX_HZ);
+  for (let k = 1; k < numBins; k++) {
+    const hz = k * binHz;
+    if (hz >= CHROMA_MIN_HZ && hz <= CHROMA_MAX_HZ) {
+      const midi = Math.round(69 + 12 * Math.log2(hz / 440));
+      binPitchClass[k] = ((midi % 12) + 12) % 12;
+    }
+    if (hz >= TIMBRE_MIN_HZ && hz < TIMBRE_MAX_HZ) {
+      binTimbreBand[k] = Math.floor(((Math.log(hz) - logMin) / (logMax - logMin)) * NUM_TIMBRE_BANDS);
+    }
+  }
+
+  // DCT-II basis, skipping coefficient 0 (overall loudness)
+  const dct: Float64Array[] = [];
+  for (let c = 1; c <= NUM_TIMBRE_COEFFS; c++) {
+    const row = new Float64Array(NUM_TIMBRE_BANDS);
+    for (let b = 0; b < NUM_TIMBRE_BANDS; b++) {
+      row[b] = Math.cos((Math.PI * c * (b + 0.5)) / NUM_TIMBRE_BANDS);
+    }
+    dct.push(row);
+  }
+
+  const features: FrameFeatures = { times: [], chroma: [], timbre: [], energy: [] };
+  const hop = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+  const bandEnergy = new Float64Array(NUM_TIMBRE_BANDS);
+
+  forEachSpectrum(channelData, hop, (re, im, start) => {
+    const chroma = new Float64Array(12);
+    bandEnergy.fill(0);
+    let energy = 0;
+
+    for (let k = 1; k < numBins; k++) {
+      const power = re[k] * re[k] + im[k] * im[k];
+      energy += power;
+      if (binPitchClass[k] >= 0) chroma[binPitchClass[k]] += Math.sqrt(power);
+      if (binTimbreBand[k] >= 0) bandEnergy[binTimbreBand[k]] += power;
+    }
+
+    const timbre = new Float64Array(NUM_TIMBRE_COEFFS);
+    for (let c = 0; c < NUM_TIMBRE_COEFFS; c++) {
+      let sum = 0;
+      for (let b = 0; b < NUM_TIMBRE_BANDS; b++) {
+        sum += dct[c][b] * Math.log(bandEnergy[b] + 1e-10);
+      }
+      timbre[c] = sum;
+    }
+
+    features.times.push((start + FFT_SIZE / 2) / sampleRate);
+    features.chroma.push(chroma);
+    features.timbre.push(timbre);
+    features.energy.push(energy);
+  }, onProgress);
+
+  return features;
+};
+
+const l2Normalize = (v: Float64Array): Float64Array => {
+  let norm = 0;
+  for (let i = 0; i < v.length; i++) norm += v[i] * v[i];
+  norm = Math.sqrt(norm) || 1;
+  return v.map(x => x / norm);
+};
+
+// Block boundaries: bars when a beat grid exists, otherwise fixed-length blocks
+const blockBoundaries = (duration: number, beatGrid?: BeatGrid | null): number[] => {
+  const inner = beatGrid && beatGrid.downbeats.length >= 8
+    ? beatGrid.downbeats.filter(t => t > 0.5 && t < duration - 0.5)
+    : Array.from({ length: Math.ceil(duration / FALLBACK_BLOCK_SECONDS) - 1 }, (_, i) => (i + 1) * FALLBACK_BLOCK_SECONDS);
+  return [0, ...inner, duration];
+};
+
+/**
+ * Average frame features over each block and combine them into unit vectors
+ * (half chroma, half z-scored timbre) so dot products are cosine similarities
+ */
+const computeBlockVectors = (
+  features: FrameFeatures,
+  boundaries: number[]
+): { vectors: Float64Array[], energies: number[] } => {
+  const numBlocks = boundaries.length - 1;
+  const chroma: Float64Array[] = [];
+  const timbre: Float64Array[] = [];
+  const energies: number[] = [];
+
+  let f = 0;
+  for (let b = 0; b < numBlocks; b++) {
+    const c = new Float64Array(12);
+    const t = new Float64Array(NUM_TIMBRE_COEFFS);
+    let e = 0;
+    let count = 0;
+    while (f < features.times.length && features.times[f] < boundaries[b + 1]) {
+      if (features.times[f] >= boundaries[b]) {
+        for (let i = 0; i < 12; i++) c[i] += features.chroma[f][i];
+        for (let i = 0; i < NUM_TIMBRE_COEFFS; i++) t[i] += features.timbre[f][i];
+        e += features.energy[f];
+        count++;
+      }
+      f++;
+    }
+    if (count === 0 && b > 0) {
+      // Block shorter than a frame: reuse a copy of the previous block (timbre is normalized in place below)
+      chroma.push(Float64Array.from(chroma[b - 1]));
+      timbre.push(Float64Array.from(timbre[b - 1]));
+      energies.push(energies[b - 1]);
+      continue;
+    }
+    const n = Math.max(1, count);
+    chroma.push(c.map(x => x / n));
+    timbre.push(t.map(x => x / n));
+    energies.push(Math.sqrt(e / n));
+  }
+
+  // Z-score each timbre coefficient across the song
+  for (let i = 0; i < NUM_TIMBRE_COEFFS; i++) {
+    const mean = timbre.reduce((sum, v) => sum + v[i], 0) / numBlocks;
+    const std = Math.sqrt(timbre.reduce((sum, v) => sum + (v[i] - mean) ** 2, 0) / numBlocks) || 1;
+    timbre.forEach(v => { v[i] = (v[i] - mean) / std; });
+  }
+
+  const vectors = chroma.map((c, b) => {
+    const nc = l2Normalize(c);
+    const nt = l2Normalize(timbre[b]);
+    const v = new Float64Array(12 + NUM_TIMBRE_COEFFS);
+    for (let i = 0; i < 12; i++) v[i] = nc[i] * Math.SQRT1_2;
+    for (let i = 0; i < NUM_TIMBRE_COEFFS; i++) v[12 + i] = nt[i] * Math.SQRT1_2;
+    return v;
+  });
+
+  return { vectors, energies };
+};
+
+const selfSimilarity = (vectors: Float64Array[]): Float64Array[] =>
+  vectors.map(a => Float64Array.from(vectors, b => {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+    return dot;
+  }));
+
+/**
+ * Foote novelty: correlate a Gaussian-tapered checkerboard kernel along the
+ * diagonal of the self-similarity matrix. Peaks mark changes in material
+ */
+const checkerboardNovelty = (ssm: Float64Array[], halfWidth: number): number[] => {
+  const n = ssm.length;
+  const sigma = halfWidth / 2;
+  const novelty = new Array(n).fill(0);
+
+  for (let i = 0; i < n; i++) {
+    let sum = 0;
+    for (let a = -halfWidth; a < halfWidth; a++) {
+      for (let b = -halfWidth; b < halfWidth; b++) {
+        const x = i + a;
+        const y = i + b;
+        if (x < 0 || y < 0 || x >= n || y >= n) continue;
+        const sign = (a < 0) === (b < 0) ? 1 : -1;
+        const taper = Math.exp(-((a + 0.5) ** 2 + (b + 0.5) ** 2) / (2 * sigma * sigma));
+        sum += sign * taper * ssm[x][y];
+      }
+    }
+    novelty[i] = Math.max(0, sum);
+  }
+  return novelty;
+};
+
+// Local maxima of the novelty curve at least minGap blocks apart (and from either end)
+const pickBoundaries = (novelty: number[], minGap: number): number[] => {
+  const n = novelty.length;
+  const threshold = novelty.reduce((a, b) => a + b, 0) / Math.max(1, n);
+  const candidates: number[] = [];
+  for (let i = minGap; i <= n - minGap; i++) {
+    if (novelty[i] <= threshold) continue;
+    let isPeak = true;
+    for (let j = Math.max(0, i - minGap); j <= Math.min(n - 1, i + minGap); j++) {
+      if (novelty[j] > novelty[i] || (novelty[j] === novelty[i] && j < i)) {
+        isPeak = false;
+        break;
+      }
+    }
+    if (isPeak) candidates.push(i);
+  }
+  return candidates;
+};
+
+/**
+ * How well segment a repeats segment b: the best mean similarity along the
+ * diagonal when the shorter segment slides over the longer one
+ */
+const segmentSimilarity = (ssm: Float64Array[], a: [number, number], b: [number, number]): number => {
+  const [short, long] = a[1] - a[0] <= b[1] - b[0] ? [a, b] : [b, a];
+  const length = short[1] - short[0];
+  let best = -Infinity;
+  for (let offset = 0; offset <= long[1] - long[0] - length; offset++) {
+    let sum = 0;
+    for (let k = 0; k < length; k++) sum += ssm[short[0] + k][long[0] + offset + k];
+    best = Math.max(best, sum / Math.max(1, length));
+  }
+  return best;
+};
+
+// Mean + REPEAT_THRESHOLD_STD * std of the similarities away from the diagonal
+const repeatThreshold = (ssm: Float64Array[], minLag: number): number => {
+  const values: number[] = [];
+  for (let i = 0; i < ssm.length; i++) {
+    for (let j = i + minLag; j < ssm.length; j++) values.push(ssm[i][j]);
+  }
+  if (values.length === 0) return 1;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const std = Math.sqrt(values.reduce((a, b) => a + (b - mean) ** 2, 0) / values.length);
+  return mean + REPEAT_THRESHOLD_STD * std;
+};
+
+/**
+ * Name sections from their repetition groups and energy:
+ * the loudest repeated group is the chorus, the earliest other repeated group the verse,
+ * quiet first/last sections are intro/outro and one-off sections after the first chorus are bridges
+ */
+const labelSections = (groups: number[], energies: number[]): SongSectionLabel[] => {
+  const numGroups = Math.max(...groups) + 1;
+  const counts = new Array(numGroups).fill(0);
+  const groupEnergy = new Array(numGroups).fill(0);
+  groups.forEach((g, i) => {
+    counts[g]++;
+    groupEnergy[g] += energies[i];
+  });
+  for (let g = 0; g < numGroups; g++) groupEnergy[g] /= counts[g];
+
+  const repeated = counts.map((c, g) => g).filter(g => counts[g] >= 2);
+  const chorusGroup = (repeated.length > 0 ? repeated : counts.map((_, g) => g))
+    .reduce((best, g) => groupEnergy[g] > groupEnergy[best] ? g : best);
+  const verseGroup = groups.find(g => g !== chorusGroup && counts[g] >= 2) ?? -1;
+  const firstChorus = groups.indexOf(chorusGroup);
+  const chorusEnergy = groupEnergy[chorusGroup];
+
+  const labels: SongSectionLabel[] = groups.map((g, i) => {
+    if (g === chorusGroup) return 'chorus';
+    if (g === verseGroup) return 'verse';
+    if (counts[g] === 1 && i > firstChorus) return 'bridge';
+    return 'verse';
+  });
+
+  const last = groups.length - 1;
+  if (labels[0] !== 'chorus' && energies[0] < INTRO_OUTRO_ENERGY_RATIO * chorusEnergy) labels[0] = 'intro';
+  if (last > 0 && labels[last] !== 'chorus' && energies[last] < INTRO_OUTRO_ENERGY_RATIO * chorusEnergy) labels[last] = 'outro';
+
+  return labels;
+};
+
+/**
+ * Split the track into labelled sections (intro / verse / chorus / bridge / outro)
+ * from a self-similarity matrix over per-bar chroma and timbre features
+ * Returns an empty list for tracks too short to have a structure
+ */
+export const analyzeSongStructure = (
+  audio: PcmAudio,
+  beatGrid?: BeatGrid | null,
+  channelMode: ChannelMode = 'sum',
+  onProgress?: (fraction: number) => void
+): SongSection[] => {
+  const duration = audio.duration;
+  if (duration < MIN_SECTION_SECONDS * 3) return [];
+
+  const features = computeFrameFeatures(monoSignal(audio, channelMode), audio.sampleRate, onProgress);
+  const boundaries = blockBoundaries(duration, beatGrid);
+  const numBlocks = boundaries.length - 1;
+  const blockSeconds = duration / numBlocks;
+  const minBlocks = Math.max(2, Math.round(MIN_SECTION_SECONDS / blockSeconds));
+  if (numBlocks < minBlocks * 2) return [];
+
+  const { vectors, energies } = computeBlockVectors(features, boundaries);
+  const ssm = selfSimilarity(vectors);
+
+  // Segment at novelty peaks
+  const novelty = checkerboardNovelty(ssm, minBlocks);
+  const cuts = [0, ...pickBoundaries(novelty, minBlocks), numBlocks];
+  const segments: [number, number][] = cuts.slice(1).map((end, i) => [cuts[i], end]);
+
+  // Group segments that repeat the same material
+  const threshold = repeatThreshold(ssm, minBlocks);
+  const groups: number[] = [];
+  const representatives: number[] = [];
+  segments.forEach((segment, i) => {
+    let bestGroup = -1;
+    let bestScore = threshold;
+    representatives.forEach((rep, g) => {
+      const score = segmentSimilarity(ssm, segments[rep], segment);
+      if (score >= bestScore) {
+        bestScore = score;
+        bestGroup = g;
+      }
+    });
+    if (bestGroup < 0) {
+      bestGroup = representatives.length;
+      representatives.push(i);
+    }
+    groups.push(bestGroup);
+  });
+
+  const maxBlockEnergy = Math.max(...energies, 0.00001);
+  const segmentEnergies = segments.map(([a, b]) =>
+    energies.slice(a, b).reduce((sum, e) => sum + e, 0) / Math.max(1, b - a) / maxBlockEnergy
+  );
+  const maxSegmentEnergy = Math.max(...segmentEnergies, 0.00001);
+  const labels = labelSections(groups, segmentEnergies);
+
+  // Merge neighbours that ended up as the same repeat of the same section
+  const sections: SongSection[] = [];
+  segments.forEach(([a, b], i) => {
+    const previous = sections[sections.length - 1];
+    const energy = segmentEnergies[i] / maxSegmentEnergy;
+    if (previous && previous.group === groups[i] && previous.label === labels[i]) {
+      const previousLength = previous.end - previous.start;
+      const length = boundaries[b] - boundaries[a];
+      previous.energy = (previous.energy * previousLength + energy * length) / (previousLength + length);
+      previous.end = boundaries[b];
+      return;
+    }
+    sections.push({
+      id: crypto.randomUUID(),
+      label: labels[i],
+      start: boundaries[a],
+      end: boundaries[b],
+      group: groups[i],
+      energy
+    });
+  });
+
+  return sections;
+};
+
+
+// Start of the busiest `length` seconds of the onset envelope
+const busiestWindowStart = (onsetData: OnsetData, length: number, duration: number): number => {
+  const { times, values } = onsetData;
+  let bestStart = 0;
+  let bestEnergy = -1;
+  let lo = 0;
+  let hi = 0;
+  let sum = 0;
+  for (let start = 0; start + length <= duration; start += CUTDOWN_SCAN_STEP_SECONDS) {
+    while (hi < times.length && times[hi] < start + length) sum += values[hi++];
+    while (lo < hi && times[lo] < start) sum -= values[lo++];
+    if (sum > bestEnergy) {
+      bestEnergy = sum;
+      bestStart = start;
+    }
+  }
+  return bestStart;
+};
+
+/**
+ * Suggest a cutdown window of `length` seconds around the most energetic chorus
+ * (or the busiest stretch of the track when no chorus was found)
+ * The window starts on the nearest downbeat when the track has a beat grid
+ */
+export const suggestCutdownRegion = (
+  length: number,
+  duration: number,
+  sections: SongSection[],
+  onsetData: OnsetData | null
+): TimeRegion => {
+  if (duration <= length) return { start: 0, end: duration };
+
+  const chorus = sections
+    .filter(s => s.label === 'chorus')
+    .reduce<SongSection | null>((best, s) => (!best || s.energy > best.energy ? s : best), null);
+
+  let start = 0;
+  if (chorus) {
+    const spare = length - (chorus.end - chorus.start);
+    start = chorus.start - Math.max(0, spare) * CUTDOWN_LEAD_IN_SHARE;
+  } else if (onsetData) {
+    start = busiestWindowStart(onsetData, length, duration);
+  }
+
+  const downbeats = onsetData?.beatGrid?.downbeats || [];
+  if (downbeats.length > 0) {
+    start = downbeats.reduce((nearest, d) => (Math.abs(d - start) < Math.abs(nearest - start) ? d : nearest), downbeats[0]);
+  }
+
+  start = Math.max(0, Math.min(start, duration - length));
+  return { start, end: start + length };
+};
@@ -0,0 +1,269 @@
+import { TimelineMedia, TimelineShot, TimelineSpec } from "../types";
+
+// EDL record timecodes conventionally start at one hour
+const EDL_RECORD_START_SECONDS = 3600;
+const EDL_REEL_LENGTH = 8;
+const EDL_COMMENT_LENGTH = 200;
+
+// Nominal song format for the audio asset; the NLE reads the real one from the file
+const AUDIO_RATE = 48000;
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// Notes and comments are single lines
+const singleLine = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const fileName = (path: string): string => path.split('/').pop() ?? path;
+
+// Frame-quantised record range; each shot ends where the next begins, so the cut stays gapless
+interface FrameRange {
+  start: number;
+  length: number;
+}
+
+const shotFrames = (shot: TimelineShot, fps: number): FrameRange => {
+  const start = Math.round(shot.start * fps);
+  return { start, length: Math.max(1, Math.round((shot.start + shot.duration) * fps) - start) };
+};
+
+// Frames of source actually used: generated clips may be shorter than their shot
+const usedFrames = (shot: TimelineShot, range: FrameRange, fps: number): number =>
+  shot.media.duration !== undefined ? Math.min(range.length, Math.max(1, Math.floor(shot.media.duration * fps))) : range.length;
+
+const sequenceFrames = (spec: TimelineSpec): number => {
+  const last = spec.shots[spec.shots.length - 1];
+  if (!last) return 0;
+  const range = shotFrames(last, spec.fps);
+  return range.start + range.length;
+};
+
+// --- FCPXML (Final Cut Pro, DaVinci Resolve) ---
+
+const fcpTime = (frames: number, fps: number): string => (frames === 0 ? '0s' : `${frames}/${fps}s`);
+
+/**
+ * FCPXML 1.9: one asset per media file, shots on the primary storyline with a marker
+ * (the cut type) and a note each, and the song as a connected clip below the first shot
+ */
+export const buildFcpxml = (spec: TimelineSpec): string => {
+  const { fps } = spec;
+  const total = sequenceFrames(spec);
+  const assets: string[] = [];
+  const clips: string[] = [];
+
+  const assetFor = (media: TimelineMedia, name: string): string => {
+    const id = `a${assets.length + 1}`;
+    const duration = media.duration !== undefined ? fcpTime(Math.round(media.duration * fps), fps) : '0s';
+    const kindAttributes = media.kind === 'audio'
+      ? `hasAudio="1" audioSources="1" audioChannels="2" audioRate="${AUDIO_RATE}"`
+      : `hasVideo="1" format="r1" videoSources="1"`;
+    assets.push(
+      `    <asset id="${id}" name="${escapeXml(name)}" start="0s" duration="${duration}" ${kindAttributes}>\n` +
+      `      <media-rep kind="original-media" src="${escapeXml(encodeURI(media.path))}"/>\n` +
+      `    </asset>`
+    );
+    return id;
+  };
+
+  let audioClip = '';
+  if (spec.audio) {
+    const ref = assetFor(spec.audio, fileName(spec.audio.path));
+    const sourceStart = Math.round(spec.audio.sourceStart * fps);
+    const length = Math.round(spec.audio.length * fps);
+    audioClip = `\n          <asset-clip ref="${ref}" lane="-1" offset="0s" name="${escapeXml(fileName(spec.audio.path))}" start="${fcpTime(sourceStart, fps)}" duration="${fcpTime(length, fps)}"/>`;
+  }
+
+  spec.shots.forEach((shot, i) => {
+    const range = shotFrames(shot, fps);
+    const ref = assetFor(shot.media, shot.name);
+    const length = usedFrames(shot, range, fps);
+    clips.push(
+      `        <asset-clip ref="${ref}" offset="${fcpTime(range.start, fps)}" name="${escapeXml(shot.name)}" start="0s" duration="${fcpTime(length, fps)}">\n` +
+      `          <note>${escapeXml(singleLine(shot.note))}</note>\n` +
+      `          <marker start="0s" duration="${fcpTime(1, fps)}" value="${escapeXml(shot.markerType)}"/>` +
+      (i === 0 ? audioClip : '') +
+      `\n        </asset-clip>`
+    );
+    // Short generated clips leave a gap up to the next cut
+    if (length < range.length) {
+      clips.push(`        <gap name="Gap" offset="${fcpTime(range.start + length, fps)}" start="0s" duration="${fcpTime(range.length - length, fps)}"/>`);
+    }
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.9">',
+    '  <resources>',
+    `    <format id="r1" name="FFVideoFormat${spec.width}x${spec.height}p${fps}" frameDuration="${fcpTime(1, fps)}" width="${spec.width}" height="${spec.height}"/>`,
+    ...assets,
+    '  </resources>',
+    '  <library>',
+    `    <event name="${escapeXml(spec.title)}">`,
+    `      <project name="${escapeXml(spec.title)}">`,
+    `        <sequence format="r1" duration="${fcpTime(total, fps)}" tcStart="0s" tcFormat="NDF" audioLayout="stereo" audioRate="48k">`,
+    '          <spine>',
+    ...clips.map(clip => clip.replace(/^/gm, '    ')),
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    ''
+  ].join('\n');
+};
+
+// --- XMEML (Premiere Pro) ---
+
+const xmemlRate = (fps: number): string => `<rate><timebase>${fps}</timebase><ntsc>FALSE</ntsc></rate>`;
+
+const xmemlFile = (id: string, media: TimelineMedia, frames: number, fps: number): string => [
+  `<file id="${id}">`,
+  `  <name>${escapeXml(fileName(media.path))}</name>`,
+  `  <pathurl>${escapeXml(encodeURI(media.path))}</pathurl>`,
+  `  ${xmemlRate(fps)}`,
+  `  <duration>${frames}</duration>`,
+  `  <media>${media.kind === 'audio' ? '<audio><channelcount>2</channelcount></audio>' : '<video/>'}</media>`,
+  '</file>'
+].join('\n');
+
+/**
+ * XMEML v4 sequence: one video track of shots (clip comments carry the notes,
+ * clip markers the cut type) and the song on audio track 1
+ */
+export const buildXmeml = (spec: TimelineSpec): string => {
+  const { fps } = spec;
+  const total = sequenceFrames(spec);
+  const indent = (text: string, spaces: number) => text.replace(/^/gm, ' '.repeat(spaces));
+
+  const videoItems = spec.shots.map((shot, i) => {
+    const range = shotFrames(shot, fps);
+    const length = usedFrames(shot, range, fps);
+    const sourceFrames = shot.media.duration !== undefined ? Math.round(shot.media.duration * fps) : length;
+    return [
+      `<clipitem id="clipitem-${i + 1}">`,
+      `  <name>${escapeXml(shot.name)}</name>`,
+      `  <duration>${sourceFrames}</duration>`,
+      `  ${xmemlRate(fps)}`,
+      `  <start>${range.start}</start>`,
+      `  <end>${range.start + length}</end>`,
+      '  <in>0</in>',
+      `  <out>${length}</out>`,
+      indent(xmemlFile(`file-${i + 1}`, shot.media, sourceFrames, fps), 2),
+      `  <comments><mastercomment1>${escapeXml(singleLine(shot.note))}</mastercomment1></comments>`,
+      `  <marker><name>${escapeXml(shot.markerType)}</name><comment>${escapeXml(singleLine(shot.note))}</comment><in>0</in><out>-1</out></marker>`,
+      '</clipitem>'
+    ].join('\n');
+  });
+
+  const audioTrack: string[] = [];
+  if (spec.audio) {
+    const sourceStart = Math.round(spec.audio.sourceStart * fps);
+    const length = Math.round(spec.audio.length * fps);
+    const sourceFrames = spec.audio.duration !== undefined ? Math.round(spec.audio.duration * fps) : sourceStart + length;
+    audioTrack.push(
+      '<track>',
+      indent([
+        '<clipitem id="clipitem-audio">',
+        `  <name>${escapeXml(fileName(spec.audio.path))}</name>`,
+        `  <duration>${sourceFrames}</duration>`,
+        `  ${xmemlRate(fps)}`,
+        '  <start>0</start>',
+        `  <end>${length}</end>`,
+        `  <in>${sourceStart}</in>`,
+        `  <out>${sourceStart + length}</out>`,
+        indent(xmemlFile('file-audio', spec.audio, sourceFrames, fps), 2),
+        '  <sourcetrack><mediatype>audio</mediatype><trackindex>1</trackindex></sourcetrack>',
+        '</clipitem>'
+      ].join('\n'), 2),
+      '</track>'
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE xmeml>',
+    '<xmeml version="4">',
+    '  <sequence id="sequence-1">',
+    `    <name>${escapeXml(spec.title)}</name>`,
+    `    <duration>${total}</duration>`,
+    `    ${xmemlRate(fps)}`,
+    '    <media>',
+    '      <video>',
+    '        <format>',
+    `          <samplecharacteristics>${xmemlRate(fps)}<width>${spec.width}</width><height>${spec.height}</height><pixelaspectratio>square</pixelaspectratio></samplecharacteristics>`,
+    '        </format>',
+    '        <track>',
+    ...videoItems.map(item => indent(item, 10)),
+    '        </track>',
+    '      </video>',
+    '      <audio>',
+    ...audioTrack.map(line => indent(line, 8)),
+    '      </audio>',
+    '    </media>',
+    '  </sequence>',
+    '</xmeml>',
+    ''
+  ].join('\n');
+};
+
+// --- CMX3600 EDL ---
+
+const timecode = (frames: number, fps: number): string => {
+  const totalSeconds = Math.floor(frames / fps);
+  const parts = [Math.floor(totalSeconds / 3600), Math.floor(totalSeconds / 60) % 60, totalSeconds % 60, frames % fps];
+  return parts.map(p => String(p).padStart(2, '0')).join(':');
+};
+
+// EDL text is plain ASCII
+const edlText = (text: string): string =>
+  singleLine(text).replace(/[^\x20-\x7e]/g, '').slice(0, EDL_COMMENT_LENGTH);
+
+// Reel names are at most 8 characters: "Shot_012" -> "SHOT012"
+const reelName = (name: string): string => name.replace(/[^A-Za-z0-9]/g, '').toUpperCase().slice(0, EDL_REEL_LENGTH);
+
+/**
+ * CMX3600 EDL: one cut event per shot on V, the song on AA (A1/A2), with the file path as
+ * FROM CLIP NAME (for relinking), the note as a comment and the cut type as a locator
+ */
+export const buildEdl = (spec: TimelineSpec): string => {
+  const { fps } = spec;
+  const recordOffset = EDL_RECORD_START_SECONDS * fps;
+  const lines = [`TITLE: ${edlText(spec.title)}`, 'FCM: NON-DROP FRAME', ''];
+  let eventNumber = 0;
+
+  const event = (reel: string, track: string, sourceIn: number, length: number, recordIn: number): string =>
+    [
+      `${String(++eventNumber).padStart(3, '0')} `,
+      reel.padEnd(EDL_REEL_LENGTH),
+      track.padEnd(5),
+      'C       ',
+      timecode(sourceIn, fps),
+      timecode(sourceIn + length, fps),
+      timecode(recordOffset + recordIn, fps),
+      timecode(recordOffset + recordIn + length, fps)
+    ].join(' ');
+
+  spec.shots.forEach(shot => {
+    const range = shotFrames(shot, fps);
+    lines.push(
+      event(reelName(shot.name), 'V', 0, usedFrames(shot, range, fps), range.start),
+      `* FROM CLIP NAME: ${shot.media.path}`,
+      `* LOC: ${timecode(recordOffset + range.start, fps)} YELLOW  ${shot.markerType.toUpperCase()}`,
+      ...(edlText(shot.note) ? [`* COMMENT: ${edlText(shot.note)}`] : []),
+      ''
+    );
+  });
+
+  if (spec.audio) {
+    lines.push(
+      event('SONG', 'AA', Math.round(spec.audio.sourceStart * fps), Math.round(spec.audio.length * fps), 0),
+      `* FROM CLIP NAME: ${spec.audio.path}`,
+      ''
+    );
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,136 @@
+import { UsageRecord } from "../types";
+import { BudgetExceededError } from "./aiErrors";
+import { getImageProvider, getTextProvider, getVideoProvider } from "./aiProviders";
+
+// Usage ledger of the open project: providers record every completed request here with its price,
+// and reserve the estimated price first so parallel requests can't overshoot the budget together.
+
+export interface UsageSnapshot {
+  records: UsageRecord[];
+  budget: number | null;          // USD; null = no limit
+  spent: number;
+}
+
+export interface CostLine {
+  label: string;                  // e.g. "24 storyboard images"
+  cost: number;
+}
+
+export interface CostEstimate {
+  lines: CostLine[];
+  total: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  cost: number;
+}
+
+// Typical edit-instruction call (prompt + parent frame in, reasoning + instructions out)
+const EDIT_INPUT_TOKENS = 3000;
+const EDIT_OUTPUT_TOKENS = 2500;
+
+let records: UsageRecord[] = [];
+let budget: number | null = null;
+let reserved = 0;
+let snapshot: UsageSnapshot = { records, budget, spent: 0 };
+const listeners = new Set<() => void>();
+
+const sumCost = (list: UsageRecord[]): number => list.reduce((sum, record) => sum + record.cost, 0);
+
+const notify = () => {
+  snapshot = { records, budget, spent: sumCost(records) };
+  listeners.forEach(listener => listener());
+};
+
+// Switch to another project's ledger (empty for a new project)
+export const loadUsage = (saved: UsageRecord[], savedBudget: number | null) => {
+  records = saved;
+  budget = savedBudget;
+  reserved = 0;
+  notify();
+};
+
+export const setActiveBudget = (limit: number | null) => {
+  if (limit === budget) return;
+  budget = limit;
+  notify();
+};
+
+export const getUsageSnapshot = (): UsageSnapshot => snapshot;
+
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// What is left of the budget after recorded and in-flight requests; null without a budget
+export const remainingBudget = (): number | null =>
+  budget === null ? null : budget - snapshot.spent - reserved;
+
+/**
+ * Hold `estimate` against the budget while a request runs; call the returned function when it ends
+ * Throws BudgetExceededError (before anything is sent) if the request would go past the budget
+ */
+export const reserveBudget = (estimate: number, provider: string, what: string): (() => void) => {
+  const remaining = remainingBudget();
+  if (remaining !== null && (remaining <= 0 || estimate > remaining)) {
+    throw new BudgetExceededError(
+      `${what} (~${formatCost(estimate)}) would exceed the ${formatCost(budget!)} budget (${formatCost(Math.max(0, remaining))} left)`,
+      provider
+    );
+  }
+  reserved += estimate;
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    reserved = Math.max(0, reserved - estimate);
+  };
+};
+
+export const recordUsage = (usage: Omit<UsageRecord, 'id' | 'timestamp'>) => {
+  records = [...records, { ...usage, id: crypto.randomUUID(), timestamp: Date.now() }];
+  notify();
+};
+
+export const totalsBy = (list: UsageRecord[], key: (record: UsageRecord) => string): Map<string, UsageTotals> => {
+  const totals = new Map<string, UsageTotals>();
+  list.forEach(record => {
+    const entry = totals.get(key(record)) ?? { requests: 0, cost: 0 };
+    entry.requests++;
+    entry.cost += record.cost;
+    totals.set(key(record), entry);
+  });
+  return totals;
+};
+
+// One line per kind of request, skipping kinds that won't be made
+const buildEstimate = (items: { count: number; noun: string; unitCost: number }[]): CostEstimate => {
+  const lines = items
+    .filter(item => item.count > 0)
+    .map(item => ({ label: `${item.count} ${item.noun}${item.count === 1 ? '' : 's'}`, cost: item.count * item.unitCost }));
+  return { lines, total: lines.reduce((sum, line) => sum + line.cost, 0) };
+};
+
+/**
+ * Price of a storyboard run with the active providers
+ * `editCount` frames are edits of an earlier frame, which costs an extra text call each
+ */
+export const estimateFramesCost = (frameCount: number, editCount: number): CostEstimate =>
+  buildEstimate([
+    { count: frameCount, noun: 'storyboard image', unitCost: getImageProvider().estimateCost(1) },
+    { count: editCount, noun: 'edit instruction', unitCost: getTextProvider().estimateCost(EDIT_INPUT_TOKENS, EDIT_OUTPUT_TOKENS) }
+  ]);
+
+// Price of generating one clip per entry, at the durations the video provider will be asked for
+export const estimateClipsCost = (durations: ('5' | '10')[]): CostEstimate => {
+  const provider = getVideoProvider();
+  const short = durations.filter(duration => duration === '5').length;
+  return buildEstimate([
+    { count: short, noun: '5s clip', unitCost: provider.estimateCost('5') },
+    { count: durations.length - short, noun: '10s clip', unitCost: provider.estimateCost('10') }
+  ]);
+};
+
+export const formatCost = (usd: number): string => `$${usd.toFixed(2)}`;
@@ -1,6 +1,6 @@
 import { FFmpeg } from '@ffmpeg/ffmpeg';
 import { fetchFile, toBlobURL } from '@ffmpeg/util';
-import { AspectRatio, AspectRatioDimensions } from '../types';
+import { AspectRatio, AspectRatioDimensions, SoundtrackCodec, GapFillMode } from '../types';
 
 let ffmpeg: FFmpeg | null = null;
 let ffmpegLoaded = false;
@@ -291,19 +291,286 @@ export const applyEaseInOutSpeedRamp = async (
   return new Blob([outputData], { type: 'video/mp4' });
 };
 
+interface VideoStreamInfo {
+  width: number;
+  height: number;
+  fps: number;
+}
+
+const DEFAULT_PLACEHOLDER_FPS = 24; // Kling renders at 24fps
+const KEN_BURNS_MAX_ZOOM = 1.15;
+
+/**
+ * Read resolution and frame rate of a video file from FFmpeg's input banner
+ * (the bundled core has no ffprobe)
+ */
+const probeVideoStream = async (ff: FFmpeg, filename: string): Promise<VideoStreamInfo> => {
+  let streamLine = '';
+  const onLog = ({ message }: { message: string }) => {
+    if (!streamLine && message.includes('Video:')) {
+      streamLine = message;
+    }
+  };
+
+  ff.on('log', onLog);
+  try {
+    // No output file: FFmpeg prints the stream info and exits with an error code
+    await ff.exec(['-i', filename]);
+  } finally {
+    ff.off('log', onLog);
+  }
+
+  const sizeMatch = streamLine.match(/\b(\d{2,5})x(\d{2,5})\b/);
+  if (!sizeMatch) {
+    throw new Error(`Could not read video dimensions of ${filename}`);
+  }
+  const fpsMatch = streamLine.match(/([\d.]+) fps/);
+
+  return {
+    width: parseInt(sizeMatch[1]),
+    height: parseInt(sizeMatch[2]),
+    fps: fpsMatch ? parseFloat(fpsMatch[1]) : DEFAULT_PLACEHOLDER_FPS
+  };
+};
+
+// Upscale 2x before zoompan to avoid jittery sub-pixel movement
+const kenBurnsFilter = (width: number, height: number, frameCount: number, fps: number): string => {
+  const zoomStep = (KEN_BURNS_MAX_ZOOM - 1) / frameCount;
+  return [
+    `scale=${width * 2}:${height * 2}:force_original_aspect_ratio=increase`,
+    `crop=${width * 2}:${height * 2}`,
+    `zoompan=z='1+${zoomStep.toFixed(6)}*on':x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':d=${frameCount}:s=${width}x${height}:fps=${fps}`,
+    'setsar=1'
+  ].join(',');
+};
+
+export interface PlaceholderClipOptions {
+  mode: GapFillMode;
+  duration: number;
+  referenceClip: Blob;          // A ready clip, used to match resolution and frame rate
+  stillImageBase64?: string;    // Storyboard frame (required for 'still')
+  previousClip?: Blob;          // Clip before the gap (required for 'hold')
+}
+
+/**
+ * Render a placeholder clip of exactly `duration` seconds for a failed shot
+ * - still: storyboard frame with a slow Ken Burns push
+ * - black: solid black
+ * - hold: last frame of the previous clip, frozen
+ */
+export const createPlaceholderClip = async (
+  options: PlaceholderClipOptions,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  const { mode, duration } = options;
+
+  if (mode === 'still' && !options.stillImageBase64) {
+    throw new Error('Still placeholder requires a storyboard image');
+  }
+  if (mode === 'hold' && !options.previousClip) {
+    throw new Error('Hold placeholder requires a previous clip');
+  }
+
+  const ff = await getFFmpeg(onProgress);
+
+  const timestamp = Date.now();
+  const referenceFile = `placeholder_ref_${timestamp}.mp4`;
+  const sourceFile = `placeholder_src_${timestamp}`;
+  const imageFile = `placeholder_img_${timestamp}.jpg`;
+  const outputFile = `placeholder_out_${timestamp}.mp4`;
+
+  try {
+    await ff.writeFile(referenceFile, new Uint8Array(await options.referenceClip.arrayBuffer()));
+    const { width, height, fps } = await probeVideoStream(ff, referenceFile);
+    const frameCount = Math.max(1, Math.round(duration * fps));
+    const fitFilter = `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1`;
+
+    let inputArgs: string[];
+    let filter: string;
+
+    if (mode === 'black') {
+      inputArgs = ['-f', 'lavfi', '-i', `color=c=black:s=${width}x${height}:r=${fps}`];
+      filter = 'setsar=1';
+    } else if (mode === 'still') {
+      await ff.writeFile(imageFile, await fetchFile(`data:image/jpeg;base64,${options.stillImageBase64}`));
+      inputArgs = ['-i', imageFile];
+      filter = kenBurnsFilter(width, height, frameCount, fps);
+    } else {
+      // Grab the final frame of the previous clip, then loop it
+      await ff.writeFile(sourceFile, new Uint8Array(await options.previousClip!.arrayBuffer()));
+      await withTimeout(
+        ff.exec(['-sseof', '-0.5', '-i', sourceFile, '-update', '1', '-q:v', '2', '-y', imageFile]),
+        60000,
+        'FFmpeg frame extraction timed out'
+      );
+      inputArgs = ['-loop', '1', '-framerate', String(fps), '-i', imageFile];
+      filter = fitFilter;
+    }
+
+    await withTimeout(
+      ff.exec([
+        ...inputArgs,
+        '-vf', filter,
+        '-frames:v', String(frameCount),
+        '-r', String(fps),
+        '-c:v', 'libx264',
+        '-preset', 'ultrafast',
+        '-crf', '23',
+        '-pix_fmt', 'yuv420p',
+        '-an',
+        '-y', outputFile
+      ]),
+      120000,
+      'FFmpeg placeholder render timed out after 2 minutes'
+    );
+
+    const outputData = await ff.readFile(outputFile);
+    return new Blob([outputData], { type: 'video/mp4' });
+  } finally {
+    await safeDeleteFile(ff, referenceFile);
+    await safeDeleteFile(ff, sourceFile);
+    await safeDeleteFile(ff, imageFile);
+    await safeDeleteFile(ff, outputFile);
+  }
+};
+
+/**
+ * Render a standalone clip from a single frame with a slow Ken Burns push
+ * Used by the offline mock video provider in place of a generated shot
+ */
+export const createStillClip = async (
+  imageBase64: string,
+  duration: number,
+  width: number,
+  height: number,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
+  const ff = await getFFmpeg(onProgress);
+
+  const timestamp = Date.now();
+  const imageFile = `still_img_${timestamp}.jpg`;
+  const outputFile = `still_out_${timestamp}.mp4`;
+  const fps = DEFAULT_PLACEHOLDER_FPS;
+  const frameCount = Math.max(1, Math.round(duration * fps));
+
+  try {
+    await ff.writeFile(imageFile, await fetchFile(`data:image/jpeg;base64,${imageBase64}`));
+    await withTimeout(
+      ff.exec([
+        '-i', imageFile,
+        '-vf', kenBurnsFilter(width, height, frameCount, fps),
+        '-frames:v', String(frameCount),
+        '-r', String(fps),
+        '-c:v', 'libx264',
+        '-preset', 'ultrafast',
+        '-crf', '28',
+        '-pix_fmt', 'yuv420p',
+        '-an',
+        '-y', outputFile
+      ]),
+      120000,
+      'FFmpeg still clip render timed out after 2 minutes'
+    );
+
+    const outputData = await ff.readFile(outputFile);
+    return new Blob([outputData], { type: 'video/mp4' });
+  } finally {
+    await safeDeleteFile(ff, imageFile);
+    await safeDeleteFile(ff, outputFile);
+  }
+};
+
+export interface SoundtrackOptions {
+  audioBlob: Blob;
+  startOffset: number; // Song time (seconds) where the first shot begins
+  codec?: SoundtrackCodec;
+  trim?: SoundtrackTrim; // Cutdowns: end the song early and fade at both edges
+}
+
+export interface SoundtrackTrim {
+  duration: number; // Seconds of song after startOffset
+  fadeIn: number;   // Seconds
+  fadeOut: number;  // Seconds
+}
+
+/**
+ * FFmpeg encoder arguments for each supported soundtrack codec
+ */
+const SOUNDTRACK_ENCODER_ARGS: Record<SoundtrackCodec, string[]> = {
+  aac: ['-c:a', 'aac', '-b:a', '192k'],
+  opus: ['-c:a', 'libopus', '-b:a', '160k'],
+};
+
+// Audio filter chain for the soundtrack: trimmed and faded when there is a trim, always padded
+const soundtrackFilter = (trim?: SoundtrackTrim): string => {
+  // Pad with silence so -shortest ends on the video length
+  if (!trim) return 'apad';
+
+  const fadeIn = Math.min(trim.fadeIn, trim.duration / 2);
+  const fadeOut = Math.min(trim.fadeOut, trim.duration / 2);
+  return [
+    `atrim=0:${trim.duration.toFixed(3)}`,
+    `afade=t=in:st=0:d=${fadeIn.toFixed(3)}`,
+    `afade=t=out:st=${(trim.duration - fadeOut).toFixed(3)}:d=${fadeOut.toFixed(3)}`,
+    'apad'
+  ].join(',');
+};
+
+/**
+ * Mux the song under a silent video file
+ * Audio is seeked to the first marker, padded with silence if it runs short
+ * and cut at the end of the video if it runs long
+ * With a trim, the song also stops after trim.duration and fades in/out at the edges
+ */
+const muxSoundtrack = async (
+  ff: FFmpeg,
+  videoFile: string,
+  soundtrack: SoundtrackOptions,
+  outputFile: string
+): Promise<void> => {
+  const audioFile = 'soundtrack_input';
+  const codec = soundtrack.codec || 'aac';
+
+  const audioData = new Uint8Array(await soundtrack.audioBlob.arrayBuffer());
+  await ff.writeFile(audioFile, audioData);
+
+  try {
+    await withTimeout(
+      ff.exec([
+        '-i', videoFile,
+        '-ss', Math.max(0, soundtrack.startOffset).toFixed(3),
+        '-i', audioFile,
+        '-map', '0:v:0',
+        '-map', '1:a:0',
+        '-c:v', 'copy',
+        ...SOUNDTRACK_ENCODER_ARGS[codec],
+        '-af', soundtrackFilter(soundtrack.trim),
+        '-shortest',
+        '-y', outputFile
+      ]),
+      180000,
+      'FFmpeg soundtrack mux timed out after 3 minutes'
+    );
+  } finally {
+    await safeDeleteFile(ff, audioFile);
+  }
+};
+
 /**
  * Stitch multiple video clips together
+ * If a soundtrack is provided, the song is muxed under the stitched video
  */
 export const stitchVideos = async (
   videoBlobs: Blob[],
   onProgress?: (progress: number) => void,
+  soundtrack?: SoundtrackOptions,
   retryCount: number = 0
 ): Promise<Blob> => {
   if (videoBlobs.length === 0) {
     throw new Error('No videos to stitch');
   }
 
-  if (videoBlobs.length === 1) {
+  if (videoBlobs.length === 1 && !soundtrack) {
     return videoBlobs[0];
   }
 
@@ -323,29 +590,37 @@ export const stitchVideos = async (
     const concatContent = inputFiles.map(f => `file '${f}'`).join('\n');
     await ff.writeFile('concat.txt', concatContent);
 
-    // Concatenate videos
-    await withTimeout(
-      ff.exec([
-        '-f', 'concat',
-        '-safe', '0',
-        '-i', 'concat.txt',
-        '-c', 'copy',
-        '-y', 'final_output.mp4'
-      ]),
-      180000, // 3 minutes for stitching (longer for many clips)
-      'FFmpeg stitching operation timed out after 3 minutes'
-    );
+    const concatOutput = soundtrack ? 'silent_output.mp4' : 'final_output.mp4';
 
-    const outputData = await ff.readFile('final_output.mp4');
+    try {
+      // Concatenate videos
+      await withTimeout(
+        ff.exec([
+          '-f', 'concat',
+          '-safe', '0',
+          '-i', 'concat.txt',
+          '-c', 'copy',
+          '-y', concatOutput
+        ]),
+        180000, // 3 minutes for stitching (longer for many clips)
+        'FFmpeg stitching operation timed out after 3 minutes'
+      );
 
-    // Cleanup all files
-    for (const file of inputFiles) {
-      await ff.deleteFile(file);
-    }
-    await ff.deleteFile('concat.txt');
-    await ff.deleteFile('final_output.mp4');
+      if (soundtrack) {
+        await muxSoundtrack(ff, concatOutput, soundtrack, 'final_output.mp4');
+      }
 
-    return new Blob([outputData], { type: 'video/mp4' });
+      const outputData = await ff.readFile('final_output.mp4');
+      return new Blob([outputData], { type: 'video/mp4' });
+    } finally {
+      // Cleanup all files
+      for (const file of inputFiles) {
+        await safeDeleteFile(ff, file);
+      }
+      await safeDeleteFile(ff, 'concat.txt');
+      await safeDeleteFile(ff, 'silent_output.mp4');
+      await safeDeleteFile(ff, 'final_output.mp4');
+    }
   } catch (error) {
     // Error recovery: reload FFmpeg and retry once
     const errorMessage = (error as Error).message || String(error);
@@ -360,7 +635,7 @@ export const stitchVideos = async (
       await reloadFFmpeg();
 
       // Retry once
-      return stitchVideos(videoBlobs, onProgress, retryCount + 1);
+      return stitchVideos(videoBlobs, onProgress, soundtrack, retryCount + 1);
     }
 
     // If not a WASM error or already retried, throw the error
@@ -1,16 +1,113 @@
 export interface Marker {
   id: string;
   time: number; // in seconds
-  type: 'Cut' | 'Safety';
+  type: 'Cut' | 'Safety' | 'Beat' | 'Bar'; // Beat/Bar = placed on the beat grid
   strength: number; // 0 to 1 normalized onset strength
+  pinned?: boolean; // Hand-placed / locked: kept as a fixed anchor when markers are regenerated
 }
 
+export type MarkerMode = 'onset' | 'grid';
+
+// Result of asking for an exact number of cuts
+export interface MarkerCountResult {
+  markers: Marker[];
+  requested: number;
+  feasibleRange: [number, number] | null; // Achievable counts under min/max and pins (null = none); ends at `requested` when that is achievable
+}
+export type MarkerSnapMode = 'off' | 'onset' | 'grid'; // Snapping for manual marker edits
+
+// Marker interchange with DAWs and audio editors
+export type MarkerFileFormat = 'audacity' | 'csv' | 'json' | 'midi';
+export type MarkerImportMode = 'replace' | 'merge';
+
+// Click track: an audible cue at each cut (accented for Safety markers) plus an optional metronome
+export type ClickKind = 'cut' | 'accent' | 'downbeat' | 'beat';
+
+export interface ClickEvent {
+  time: number;
+  kind: ClickKind;
+}
+
+export interface ClickTrackSettings {
+  cuts: boolean;       // Click at each marker
+  metronome: boolean;  // Click on the beat grid (downbeats louder)
+  volume: number;      // 0 to 1
+}
+
+// Override the grid cut rate inside a time range (e.g. faster cuts in a chorus)
+export interface GridSegment {
+  start: number; // in seconds
+  end: number;   // in seconds
+  every: number;
+}
+
+export interface GridMarkerOptions {
+  unit: 'beat' | 'bar';
+  every: number;   // Cut every N beats/bars
+  offset: number;  // Skip N beats/bars before the first cut
+  segments?: GridSegment[];
+  chorusEvery?: number; // Cut rate inside chorus sections (defaults to every)
+}
+
+// Point on the density automation curve. Sensitivity is interpolated between keyframes;
+// min/max (when set) override the global durations until the next keyframe
+export interface DensityKeyframe {
+  id: string;
+  time: number;        // in seconds
+  sensitivity: number; // 0 to 1
+  minDuration?: number;
+  maxDuration?: number;
+}
+
+export interface DensityCurve {
+  enabled: boolean;
+  keyframes: DensityKeyframe[]; // Sorted by time
+}
+
+export type DensityPreset = 'flat' | 'energy' | 'sections' | 'build';
+
+// In/out window of the song for short-form cutdowns
+export interface TimeRegion {
+  start: number; // in seconds
+  end: number;   // in seconds
+}
+
+export type CutdownLength = 15 | 30 | 60;
+
+// Everything the marker generators need, plain data so it can be posted to the analysis worker
+export interface MarkerSettings {
+  mode: MarkerMode;
+  minDuration: number;
+  maxDuration: number;
+  sensitivity: number;
+  densityCurve?: DensityKeyframe[]; // Replaces sensitivity/min/max over time (onset mode)
+  bandWeights?: BandWeights;
+  targetCount?: number;            // Exact cut count (onset mode only)
+  gridOptions?: GridMarkerOptions; // With chorus segments already resolved
+  pinned?: Marker[];
+  region?: TimeRegion | null;      // Only generate inside this window (first cut on its start)
+}
+
+export interface MarkerGenerationResult {
+  markers: Marker[];
+  countReport: Omit<MarkerCountResult, 'markers'> | null; // Only set for exact-count runs
+}
+
+export interface LyricLine {
+  start: number; // in seconds
+  end: number;   // in seconds
+  text: string;
+}
+
+export type LyricSource = 'analysis' | 'file';
+
 export interface AudioAnalysis {
   genre: string;
   theme: string;
   instruments: string[];
   bpm?: number;
   lyrics?: string;
+  lyricLines?: LyricLine[]; // Line-level timestamps, when the model could provide them
 }
 
 export interface AudioState {
@@ -21,10 +118,108 @@ export interface AudioState {
   url: string;
 }
 
+// Decoded PCM, independent of the Web Audio API (usable in workers and under Node)
+export interface PcmAudio {
+  channels: Float32Array[];
+  sampleRate: number;
+  duration: number; // in seconds
+}
+
+// How stereo tracks are reduced for analysis. 'left' = left channel only (projects saved before
+// channel modes existed), 'max' = loudest channel per frequency bin, 'midSide' = onsets from mid + side
+export type ChannelMode = 'left' | 'sum' | 'max' | 'midSide';
+
+export type AnalysisStage = 'onsets' | 'curves' | 'structure' | 'harmony';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  fraction: number; // 0 to 1 across the whole analysis
+}
+
+export type OnsetBandName = 'low' | 'mid' | 'high';
+
+export type BandRanges = Record<OnsetBandName, [number, number]>; // [minHz, maxHz] per band
+export type BandWeights = Record<OnsetBandName, number>;          // 0 to 1 weight per band
+
+export interface TempoPoint {
+  time: number; // in seconds
+  bpm: number;
+}
+
+export interface BeatGrid {
+  beats: number[];          // Beat times in seconds
+  downbeats: number[];      // Bar start times in seconds
+  beatPositions: number[];  // Position of each beat within its bar (0 = downbeat), parallel to beats
+  beatsPerBar: number;
+  tempoCurve: TempoPoint[]; // Local tempo over time
+  bpm: number;              // Median tempo
+  confidence: number;       // 0 to 1
+}
+
 export interface OnsetData {
   times: number[];
   values: number[]; // Normalized onset envelope
   detectedBpm?: number;
+  bands?: Record<OnsetBandName, number[]>; // Normalized per-band spectral flux envelopes
+  beatGrid?: BeatGrid | null;
+  curves?: AudioCurves; // Missing for projects analyzed before the curves existed
+}
+
+// Slow feature curves, sampled every `hop` seconds starting at 0
+export interface AudioCurves {
+  hop: number;
+  loudness: number[]; // Short-term loudness (3s K-weighted window), LUFS
+  vocal: number[];    // 0 to 1 likelihood that vocals are present
+}
+
+export type SongSectionLabel = 'intro' | 'verse' | 'chorus' | 'bridge' | 'outro';
+
+export interface SongSection {
+  id: string;
+  label: SongSectionLabel;
+  start: number;  // in seconds
+  end: number;    // in seconds
+  group: number;  // Sections sharing a group repeat the same material (A = 0, B = 1, ...)
+  energy: number; // 0 to 1 mean loudness relative to the loudest section
+}
+
+export type KeyMode = 'major' | 'minor';
+
+export interface MusicalKey {
+  tonic: number;      // Pitch class, C = 0
+  mode: KeyMode;
+  confidence: number; // 0 to 1 margin of the best key profile over the runner-up
+}
+
+export interface ChordSpan {
+  start: number; // in seconds
+  end: number;   // in seconds
+  root: number;  // Pitch class, C = 0
+  quality: KeyMode;
+}
+
+export interface SectionHarmony {
+  sectionId: string;
+  mode: KeyMode;   // Mode of the section's own best-fitting key
+  tension: number; // 0 to 1: chromatic (out-of-key) content and dominant-function chords
+}
+
+// Local chroma-based key, chord and per-section mood estimate
+export interface HarmonyAnalysis {
+  key: MusicalKey;
+  chords: ChordSpan[];
+  sections: SectionHarmony[];
+}
+
+export interface PaletteColor {
+  name: string; // e.g. "amber"
+  hex: string;  // e.g. "#F6C453"
+}
+
+export interface ColorPalette {
+  name: string; // e.g. "Golden hour"
+  mood: string; // e.g. "bright, warm, open"
+  colors: PaletteColor[]; // Dominant first
 }
 
 // Phase 2 Types
@@ -45,6 +240,19 @@ export interface Location {
   imageUrl?: string; // Base64 single wide-angle reference
 }
 
+// Timing context for one shot, sent to the narrative planner
+export interface ShotTiming {
+  markerId: string;
+  startTime: number; // in seconds
+  duration: number;  // in seconds
+  type: Marker['type'];
+  energy: number;    // 0 to 1 mean onset strength relative to the busiest shot
+  section?: SongSectionLabel;
+  lyric?: string;    // Lyric sung during the shot, when known
+  vocal?: number;    // 0 to 1 mean vocal presence over the shot (needs AudioCurves)
+  loudness?: number; // 0 to 1 short-term loudness relative to the loudest shot (needs AudioCurves)
+}
+
 export interface SceneScript {
   id: string;
   markerId: string;
@@ -53,12 +261,15 @@ export interface SceneScript {
   interpolationPrompt: string; // Prompt to get from this scene to the next
   characterIds?: string[]; // List of IDs of characters present in this scene
   locationIds?: string[]; // List of IDs of locations in this scene
+  lyricLines?: LyricLine[]; // Lyric lines sung during this shot
+  palette?: ColorPalette; // Music-derived colours, added to the image style
 }
 
 export interface StoryboardFrame extends SceneScript {
   imageUrl?: string; // Base64
   isGenerating: boolean;
   error?: string; // Generation error message
+  errorKind?: AIErrorKind; // Cause of the last failure
 }
 
 export interface VideoPlan {
@@ -93,6 +304,55 @@ export interface HierarchyTree {
   maxDepth: number;
 }
 
+// Why an AI request failed; decides whether and how it is retried
+export type AIErrorKind =
+  | 'safety-blocked'
+  | 'rate-limited'
+  | 'quota-exceeded'
+  | 'auth'
+  | 'network'
+  | 'invalid-response'
+  | 'timeout'
+  | 'budget-exceeded'
+  | 'unknown';
+
+// Plan validation: problems found in model output, and how each was dealt with
+
+export type PlanIssueCode =
+  | 'missing-field'        // Required text or list absent/empty
+  | 'duplicate-id'         // Two characters or locations share an id
+  | 'scene-count'          // Scene count differs from the shot count
+  | 'unknown-character'    // Scene references a character id that doesn't exist
+  | 'unknown-location'     // Scene references a location id that doesn't exist
+  | 'index-out-of-range'   // Hierarchy refers to a frame that doesn't exist
+  | 'no-anchors'           // Hierarchy has no parent frames
+  | 'orphan-frame'         // Non-parent frame without a parent
+  | 'conflicting-parent'   // Frame given several parents, or a parent given a parent
+  | 'cycle'                // Parent chain loops back without reaching an anchor
+  | 'invalid-score';       // Anchor score outside 0-100 or for a non-parent
+
+// repaired: fixed by the targeted repair prompt; auto-fixed: patched locally; unresolved: still wrong
+export type PlanIssueResolution = 'repaired' | 'auto-fixed' | 'unresolved';
+
+export interface PlanIssue {
+  code: PlanIssueCode;
+  source: 'plan' | 'hierarchy';
+  severity: 'error' | 'warning';
+  message: string;
+  sceneIndex?: number;   // 0-based shot the issue belongs to
+  resolution: PlanIssueResolution;
+}
+
+export interface VideoPlanResult {
+  plan: VideoPlan;
+  issues: PlanIssue[];
+}
+
+export interface HierarchyPlanResult {
+  tree: HierarchyTree;
+  issues: PlanIssue[];
+}
+
 export interface VideoPlanHierarchical extends VideoPlan {
   hierarchy: HierarchyTree;
   useHierarchy: boolean;
@@ -121,6 +381,44 @@ export interface VideoClip {
   speedFactor: number;
   status: 'pending' | 'generating' | 'processing' | 'ready' | 'error';
   error?: string;
+  errorKind?: AIErrorKind; // Set when generation (not processing) failed
+}
+
+export type SoundtrackCodec = 'aac' | 'opus';
+
+// How a failed or missing clip is replaced when stitching
+export type GapFillMode = 'still' | 'black' | 'hold';
+
+export interface PlaceholderShot {
+  shotIndex: number;
+  mode: GapFillMode;   // Mode actually used (may differ from the requested one)
+  reason: string;      // Why the real clip could not be used
+}
+
+// NLE timeline export (FCPXML / XMEML / EDL), paths relative to the package's MASTER folder
+
+export interface TimelineMedia {
+  path: string;                      // "Shot_001/Processed_Video.mp4"
+  kind: 'video' | 'still' | 'audio';
+  duration?: number;                 // Source length in seconds (stills have none)
+}
+
+export interface TimelineShot {
+  name: string;                      // "Shot_001"
+  start: number;                     // Seconds from the start of the sequence
+  duration: number;
+  media: TimelineMedia;
+  markerType: Marker['type'];
+  note: string;                      // Scene description / prompt for the editor
+}
+
+export interface TimelineSpec {
+  title: string;
+  fps: number;
+  width: number;
+  height: number;
+  shots: TimelineShot[];
+  audio?: TimelineMedia & { sourceStart: number; length: number }; // Song file (duration = whole track), used for length seconds from sourceStart
 }
 
 export interface VideoGenerationState {
@@ -133,6 +431,35 @@ export interface VideoGenerationState {
   currentPhase: 'idle' | 'generating' | 'processing' | 'stitching' | 'complete';
 }
 
+// AI Providers (chosen per project; 'mock' runs offline)
+
+export type TextProviderId = 'gemini' | 'mock';
+export type ImageProviderId = 'gemini' | 'mock';
+export type VideoProviderId = 'kling' | 'mock';
+
+export interface ProviderSelection {
+  text: TextProviderId;    // Audio analysis, planning, prompt rewriting
+  image: ImageProviderId;  // Character sheets, locations, storyboard frames
+  video: VideoProviderId;  // Image-to-video clips
+}
+
+// Usage tracking: one record per completed model request, priced when it is recorded
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  kind: 'text' | 'image' | 'video';
+  provider: string;
+  model: string;
+  task: string;            // e.g. 'narrative', 'next-frame', 'clip'
+  inputTokens?: number;
+  outputTokens?: number;   // Includes thinking tokens, which are billed as output
+  images?: number;
+  videoSeconds?: number;
+  cost: number;            // Estimated USD
+  provisional?: boolean;   // Full estimate charged for a request that failed while the provider may still bill it
+}
+
 // Project Management Types
 
 export interface ProjectData {
@@ -153,6 +480,16 @@ export interface ProjectData {
   maxDuration: number;
   customCount: string;
   useCustomCount: boolean;
+  bandWeights?: BandWeights;
+  channelMode?: ChannelMode;  // Missing = 'left' (saved before channel modes existed)
+  densityCurve?: DensityCurve;
+  region?: TimeRegion | null;  // Cutdown window; null/missing = whole song
+  markerMode?: MarkerMode;
+  gridOptions?: GridMarkerOptions;
+  songSections?: SongSection[];
+  harmony?: HarmonyAnalysis;
+  lyricLines?: LyricLine[];
+  lyricSource?: LyricSource;
 
   // Phase 2 Data
   aspectRatio?: AspectRatio;
@@ -165,6 +502,15 @@ export interface ProjectData {
   // Phase 3 Data
   videoClips?: VideoClip[];
   finalVideoBlob?: Blob;
+  soundtrackCodec?: SoundtrackCodec;  // Audio codec muxed into the final video
+  gapFillMode?: GapFillMode;          // Placeholder style for failed clips
+
+  // AI providers
+  providers?: ProviderSelection;       // Missing = Gemini + Kling
+
+  // Cost tracking
+  usage?: UsageRecord[];
+  budget?: number | null;              // USD; null/missing = no limit
 }
 
 export interface ProjectMetadata {